@@ -0,0 +1,13 @@
+/**
+ * Print the Gotenberg flags that apply the template URL policy to Chromium
+ *
+ * Reads TEMPLATE_URL_ALLOWED_HOSTS and the other TEMPLATE_URL_* variables:
+ *   TEMPLATE_URL_ALLOWED_HOSTS=cdn.example.com bun scripts/gotenberg-flags.ts
+ */
+
+import { urlPolicy } from "../src/services/url-policy.ts";
+
+const { allowList, denyList } = urlPolicy.chromiumUrlLists();
+
+console.log(`--chromium-deny-list=${denyList}`);
+console.log(`--chromium-allow-list=${allowList}`);
@@ -0,0 +1,105 @@
+import { describe, it, expect, spyOn, afterEach } from "bun:test";
+import { PDFDocument, PDFDict, PDFName, PDFHexString, PDFArray, PDFRef } from "pdf-lib";
+import { assembleDocument, AssemblyPartError, getPartTitle } from "../services/assembly.ts";
+import { gotenbergService } from "../services/gotenberg.ts";
+import { TemplateNotFoundError } from "../errors.ts";
+
+const silentLog = { info() {}, warn() {}, error() {}, child() { return silentLog; } };
+
+const htmlTemplate = (source: string, filename: string) => ({
+    template: { content: Buffer.from(source).toString("base64"), filename },
+});
+
+// Stand-in for Gotenberg: one page per <section> in the rendered HTML
+async function fakeConvertHtml(html: string): Promise<Buffer> {
+    const doc = await PDFDocument.create();
+    const pages = Math.max(1, (html.match(/<section>/g) || []).length);
+    for (let i = 0; i < pages; i++) doc.addPage([595, 842]);
+    return Buffer.from(await doc.save());
+}
+
+describe("Document assembly", () => {
+    afterEach(() => {
+        (gotenbergService.convertHtml as any).mockRestore?.();
+    });
+
+    it("defaults bookmark titles to the template name", () => {
+        expect(getPartTitle(htmlTemplate("", "cover.html"))).toBe("cover");
+        expect(getPartTitle({ template_id: "annex.docx", title: "Annex A" })).toBe("Annex A");
+    });
+
+    it("merges parts in order with one bookmark per part", async () => {
+        const convert = spyOn(gotenbergService, "convertHtml").mockImplementation(fakeConvertHtml);
+
+        const pdf = await assembleDocument([
+            { ...htmlTemplate("<section>{{client}}</section>", "cover.html") },
+            { ...htmlTemplate("<section>1</section><section>{{term}}</section>", "agreement.html"), data: { term: "12 months" } },
+            { ...htmlTemplate("<section>{{client}}</section>", "annex.html"), title: "Annex A", data: { client: "Override" } },
+        ], { client: "Acme" }, {}, silentLog);
+
+        // Shared data reaches every part; part data wins
+        expect(convert.mock.calls.map(call => call[0])).toEqual([
+            "<section>Acme</section>",
+            "<section>1</section><section>12 months</section>",
+            "<section>Override</section>",
+        ]);
+
+        const doc = await PDFDocument.load(pdf);
+        expect(doc.getPageCount()).toBe(4);
+
+        const outlines = doc.catalog.lookup(PDFName.of("Outlines"), PDFDict);
+        const titles: string[] = [];
+        const targets: number[] = [];
+        const pageRefs = doc.getPages().map(page => page.ref);
+
+        let item = outlines.lookupMaybe(PDFName.of("First"), PDFDict);
+        while (item) {
+            titles.push(item.lookup(PDFName.of("Title"), PDFHexString).decodeText());
+            const dest = item.lookup(PDFName.of("Dest"), PDFArray);
+            targets.push(pageRefs.indexOf(dest.get(0) as PDFRef));
+            item = item.lookupMaybe(PDFName.of("Next"), PDFDict);
+        }
+
+        expect(titles).toEqual(["cover", "agreement", "Annex A"]);
+        expect(targets).toEqual([0, 1, 3]);
+    });
+
+    it("converts a bounded number of parts at a time", async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        spyOn(gotenbergService, "convertHtml").mockImplementation(async (html: string) => {
+            maxInFlight = Math.max(maxInFlight, ++inFlight);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            inFlight--;
+            return fakeConvertHtml(html);
+        });
+
+        const parts = Array.from({ length: 12 }, (_, i) => htmlTemplate(`<section>${i}</section>`, `part-${i}.html`));
+        const pdf = await assembleDocument(parts, {}, {}, silentLog);
+
+        expect((await PDFDocument.load(pdf)).getPageCount()).toBe(12);
+        expect(maxInFlight).toBeGreaterThan(1);
+        expect(maxInFlight).toBeLessThanOrEqual(4);
+    });
+
+    it("reports which part failed", async () => {
+        spyOn(gotenbergService, "convertHtml").mockImplementation(fakeConvertHtml);
+
+        const error = await assembleDocument([
+            htmlTemplate("<section>ok</section>", "cover.html"),
+            { template_id: "missing-annex.docx", title: "Annex B" },
+        ], {}, {}, silentLog).catch(e => e);
+
+        expect(error).toBeInstanceOf(AssemblyPartError);
+        expect(error.part).toBe(2);
+        expect(error.partTitle).toBe("Annex B");
+        expect(error.code).toBe("TEMPLATE_NOT_FOUND");
+        expect(error.statusCode).toBe(404);
+        expect(error.cause).toBeInstanceOf(TemplateNotFoundError);
+        expect(error.toResponse()).toMatchObject({
+            template_id: "missing-annex.docx",
+            part: 2,
+            part_title: "Annex B",
+        });
+    });
+});
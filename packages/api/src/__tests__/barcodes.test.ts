@@ -0,0 +1,55 @@
+import { describe, it, expect } from "bun:test";
+import sharp from "sharp";
+import { qr, barcode } from "../services/barcodes.ts";
+
+const pixelSize = async (base64: string) => {
+    const metadata = await sharp(Buffer.from(base64, "base64")).metadata();
+    return [metadata.width!, metadata.height!];
+};
+
+describe("qr", () => {
+    it("draws a square PNG of the requested size", async () => {
+        const image = await qr("https://pay.example.com/invoice/1042", { size: 4, errorCorrection: "H" });
+
+        expect(image).toMatchObject({ extension: ".png", width: 4, height: 4 });
+        const [width, height] = await pixelSize(image!.data);
+        expect(width).toBe(height);
+        // Drawn for print, not at bwip-js's screen size
+        expect(width).toBeGreaterThanOrEqual(472);
+    });
+
+    it("leaves missing values to the placeholder checks", async () => {
+        expect(await qr(undefined)).toBeUndefined();
+        expect(await qr("")).toBeUndefined();
+        await expect(qr("x", { errorCorrection: "X" as any })).rejects.toThrow("Invalid QR error correction 'X'");
+    });
+});
+
+describe("barcode", () => {
+    it("draws linear barcodes at the requested width, keeping their proportions", async () => {
+        const image = await barcode("SKU-000123", "code128", { width: 6, height: 1.5 });
+
+        expect(image).toMatchObject({ extension: ".png", width: 6 });
+        // Bars plus the printed value
+        expect(image!.height).toBeGreaterThan(1.5);
+        expect(image!.height).toBeLessThan(3);
+    });
+
+    it("draws 2D symbols in a box", async () => {
+        expect(await barcode("SKU-000123", "datamatrix", { width: 2 })).toMatchObject({ width: 2, height: 2 });
+    });
+
+    it("explains values the symbology can't encode", async () => {
+        await expect(barcode("5901234123458", "ean13")).rejects.toThrow("Can't encode '5901234123458' as ean13: Incorrect EAN-13 check digit");
+        await expect(barcode("123", "code93")).rejects.toThrow("Unsupported barcode type 'code93'");
+        await expect(barcode("5901234123457", "ean13")).resolves.toBeDefined();
+    });
+
+    it("fails the command for sizes out of range", async () => {
+        await expect(qr("x", { size: 0 })).rejects.toThrow("QR size must be a number of cm above 0 and at most 100, got 0");
+        await expect(qr("x", { size: 5000 })).rejects.toThrow("QR size must be");
+        await expect(barcode("123", "code128", { width: -5 })).rejects.toThrow("Barcode width must be a number of cm above 0 and at most 100, got -5");
+        await expect(barcode("123", "code128", { height: "2" as any })).rejects.toThrow("Barcode height must be");
+        await expect(barcode("SKU-1", "qrcode", { width: 3, height: 0 })).rejects.toThrow("Barcode height must be");
+    });
+});
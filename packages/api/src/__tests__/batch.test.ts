@@ -0,0 +1,122 @@
+import { describe, it, expect } from "bun:test";
+import JSZip from "jszip";
+import { formatFilename, generateBatch, buildBatchReport, bundleZip, mapConcurrent } from "../services/batch.ts";
+import type { LoadedTemplate } from "../services/template-loader.ts";
+
+const silentLog = { info() {}, warn() {}, error() {}, child() { return silentLog; } };
+
+const webTemplate = (source: string): LoadedTemplate => ({
+    buffer: Buffer.from(source),
+    name: "letter.html",
+    engine: "web",
+});
+
+describe("Batch generation", () => {
+    describe("formatFilename", () => {
+        it("substitutes index and data fields", () => {
+            const name = formatFilename("letter-{{index}}-{{customer.name}}", { customer: { name: "Acme" } }, 3);
+            expect(name).toBe("letter-3-Acme");
+        });
+
+        it("strips path separators and invalid characters", () => {
+            const name = formatFilename("{{name}}", { name: "../etc/pass:wd" }, 1);
+            expect(name).toBe(".._etc_pass_wd");
+        });
+
+        it("falls back to a numbered name when the pattern resolves to nothing", () => {
+            expect(formatFilename("{{missing}}", {}, 7)).toBe("document-7");
+        });
+    });
+
+    describe("mapConcurrent", () => {
+        const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+        it("limits calls in flight and keeps item order", async () => {
+            let inFlight = 0;
+            let maxInFlight = 0;
+            const results = await mapConcurrent([30, 10, 20, 5, 15], async (ms, i) => {
+                maxInFlight = Math.max(maxInFlight, ++inFlight);
+                await delay(ms);
+                inFlight--;
+                return `${i}:${ms}`;
+            }, 2);
+
+            expect(results).toEqual(["0:30", "1:10", "2:20", "3:5", "4:15"]);
+            expect(maxInFlight).toBe(2);
+        });
+
+        it("stops starting calls after the first error", async () => {
+            const started: number[] = [];
+            const error = await mapConcurrent([1, 2, 3, 4], async item => {
+                started.push(item);
+                if (item === 1) throw new Error("part 1 failed");
+                await delay(5);
+                return item;
+            }, 2).catch(e => e);
+
+            expect(error.message).toBe("part 1 failed");
+            expect(started).toEqual([1, 2]);
+        });
+    });
+
+    describe("generateBatch", () => {
+        it("renders every item and keeps request order", async () => {
+            const items = [{ name: "A" }, { name: "B" }, { name: "C" }];
+            const results = await generateBatch(
+                webTemplate("<p>{{name}}</p>"),
+                items,
+                "letter-{{name}}",
+                { outputFormat: "html" },
+                silentLog,
+            );
+
+            expect(results.map(r => r.filename)).toEqual(["letter-A.html", "letter-B.html", "letter-C.html"]);
+            expect(results.every(r => r.status === "ok")).toBe(true);
+            expect(results[1].document!.buffer.toString()).toBe("<p>B</p>");
+        });
+
+        it("de-duplicates filenames", async () => {
+            const results = await generateBatch(
+                webTemplate("<p>{{name}}</p>"),
+                [{ name: "A" }, { name: "A" }],
+                "{{name}}",
+                { outputFormat: "html" },
+                silentLog,
+            );
+
+            expect(results.map(r => r.filename)).toEqual(["A.html", "A-2.html"]);
+        });
+
+        it("records failures per item instead of aborting", async () => {
+            const results = await generateBatch(
+                webTemplate("{{> missing_partial}}"),
+                [{}, {}],
+                "doc-{{index}}",
+                { outputFormat: "html" },
+                silentLog,
+            );
+            const report = buildBatchReport(results);
+
+            expect(report.failed).toBe(2);
+            expect(report.items[0].status).toBe("error");
+            expect(report.items[0].error).toContain("missing_partial");
+        });
+    });
+
+    describe("bundleZip", () => {
+        it("includes documents and a report", async () => {
+            const results = await generateBatch(
+                webTemplate("<p>{{name}}</p>"),
+                [{ name: "A" }, { name: "B" }],
+                "{{name}}",
+                { outputFormat: "html" },
+                silentLog,
+            );
+            const zip = await JSZip.loadAsync(await bundleZip(results));
+
+            expect(Object.keys(zip.files).sort()).toEqual(["A.html", "B.html", "report.json"]);
+            const report = JSON.parse(await zip.file("report.json")!.async("text"));
+            expect(report.succeeded).toBe(2);
+        });
+    });
+});
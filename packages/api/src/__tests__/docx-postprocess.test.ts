@@ -0,0 +1,149 @@
+import { describe, it, expect } from "bun:test";
+import JSZip from "jszip";
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+import { addDocxWatermark, addDocxHeaderText, setDocxProperties } from "../services/docx-postprocess.ts";
+import { validateDocx } from "../services/template-validator.ts";
+
+const watermark = { text: "COPY", opacity: 0.5, rotation: 45, font_size: 60, color: "#ff0000" };
+
+/**
+ * Build a DOCX with the given sections (each a sectPr body)
+ */
+async function createDocx(sections: string[], extraFiles: Record<string, string> = {}): Promise<Buffer> {
+    const zip = new JSZip();
+    zip.file("[Content_Types].xml", `<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`);
+    zip.file("word/_rels/document.xml.rels", `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>`);
+
+    const body = sections.map((sectPr, i) => i < sections.length - 1
+        ? `<w:p><w:pPr>${sectPr}</w:pPr></w:p>`
+        : sectPr).join("");
+    zip.file("word/document.xml", `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body><w:p><w:r><w:t>Hello</w:t></w:r></w:p>${body}</w:body></w:document>`);
+
+    for (const [path, content] of Object.entries(extraFiles)) {
+        zip.file(path, content);
+    }
+    return Buffer.from(await zip.generateAsync({ type: "arraybuffer" }));
+}
+
+describe("DOCX post-processing", () => {
+    describe("addDocxWatermark", () => {
+        it("adds a watermark header to a document without headers", async () => {
+            const result = await addDocxWatermark(await createDocx(["<w:sectPr/>"]), watermark);
+            const zip = await JSZip.loadAsync(result);
+
+            const document = await zip.file("word/document.xml")!.async("text");
+            expect(document).toContain('<w:headerReference w:type="default" r:id="rIdVelocidocHeader1"/>');
+            expect(document).toContain('xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"');
+
+            const header = await zip.file("word/header1.xml")!.async("text");
+            expect(header).toContain('string="COPY"');
+            expect(header).toContain('fillcolor="#ff0000"');
+            expect(header).toContain('<v:fill opacity="0.5"/>');
+            expect(header).toContain("rotation:315");
+            expect(header).toContain('xmlns:v="urn:schemas-microsoft-com:vml"');
+
+            const rels = await zip.file("word/_rels/document.xml.rels")!.async("text");
+            expect(rels).toContain('Target="header1.xml"');
+            const contentTypes = await zip.file("[Content_Types].xml")!.async("text");
+            expect(contentTypes).toContain('PartName="/word/header1.xml"');
+        });
+
+        it("reuses existing headers and only fills in what is missing", async () => {
+            const docx = await createDocx([
+                `<w:sectPr><w:headerReference w:type="default" r:id="rId5"/></w:sectPr>`,
+                `<w:sectPr><w:titlePg/></w:sectPr>`,
+            ], {
+                "word/header1.xml": `<?xml version="1.0" encoding="UTF-8"?><w:hdr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:p><w:r><w:t>Existing</w:t></w:r></w:p></w:hdr>`,
+                "word/_rels/document.xml.rels": `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId5" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/></Relationships>`,
+            });
+
+            const zip = await JSZip.loadAsync(await addDocxWatermark(docx, watermark));
+            const document = await zip.file("word/document.xml")!.async("text");
+
+            // Second section inherits the default header but needs its own first-page header
+            expect(document.match(/w:type="default"/g)!.length).toBe(1);
+            expect(document).toContain('<w:sectPr><w:headerReference w:type="first" r:id="rIdVelocidocHeader2"/><w:titlePg/></w:sectPr>');
+
+            const existing = await zip.file("word/header1.xml")!.async("text");
+            expect(existing).toContain("<w:t>Existing</w:t>");
+            expect(existing).toContain('string="COPY"');
+            expect(await zip.file("word/header2.xml")!.async("text")).toContain('string="COPY"');
+        });
+
+        it("keeps a real template a valid DOCX", async () => {
+            const template = await readFile(resolve(import.meta.dir, "../../templates/invoice.docx"));
+            const result = await addDocxWatermark(template, watermark);
+
+            expect((await validateDocx(result)).valid).toBe(true);
+        });
+    });
+
+    describe("addDocxHeaderText", () => {
+        it("adds the text to a new header", async () => {
+            const result = await addDocxHeaderText(await createDocx(["<w:sectPr/>"]), "Confidential & internal");
+            const zip = await JSZip.loadAsync(result);
+
+            const header = await zip.file("word/header1.xml")!.async("text");
+            expect(header).toContain('<w:t xml:space="preserve">Confidential &amp; internal</w:t>');
+            // The placeholder paragraph is replaced rather than kept as an empty line
+            expect(header).not.toContain("<w:p/>");
+        });
+
+        it("appends the text below existing header content", async () => {
+            const docx = await createDocx([
+                `<w:sectPr><w:headerReference w:type="default" r:id="rId5"/></w:sectPr>`,
+            ], {
+                "word/header1.xml": `<?xml version="1.0" encoding="UTF-8"?><w:hdr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:p><w:r><w:t>Logo</w:t></w:r></w:p></w:hdr>`,
+                "word/_rels/document.xml.rels": `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId5" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/></Relationships>`,
+            });
+
+            const zip = await JSZip.loadAsync(await addDocxHeaderText(docx, "Ref $& 42"));
+            const header = await zip.file("word/header1.xml")!.async("text");
+
+            expect(header.indexOf("Logo")).toBeLessThan(header.indexOf("Ref $&amp; 42"));
+        });
+    });
+
+    describe("setDocxProperties", () => {
+        it("writes core and custom properties", async () => {
+            const template = await readFile(resolve(import.meta.dir, "../../templates/invoice.docx"));
+            const result = await setDocxProperties(template, {
+                title: "Invoice 42",
+                author: "Finance <Bot>",
+                keywords: "invoice, 2024",
+                department: "Accounts",
+                case_id: "C-1",
+            });
+            const zip = await JSZip.loadAsync(result);
+
+            const core = await zip.file("docProps/core.xml")!.async("text");
+            expect(core).toContain("<dc:title>Invoice 42</dc:title>");
+            // Replaces the existing creator instead of adding a second one
+            expect(core.match(/<dc:creator>/g)!.length).toBe(1);
+            expect(core).toContain("<dc:creator>Finance &lt;Bot&gt;</dc:creator>");
+            expect(core).toContain("<cp:keywords>invoice, 2024</cp:keywords>");
+
+            const custom = await zip.file("docProps/custom.xml")!.async("text");
+            expect(custom).toContain('pid="2" name="department"><vt:lpwstr>Accounts</vt:lpwstr>');
+            expect(custom).toContain('pid="3" name="case_id"><vt:lpwstr>C-1</vt:lpwstr>');
+
+            const rels = await zip.file("_rels/.rels")!.async("text");
+            expect(rels).toContain('Target="docProps/custom.xml"');
+            const contentTypes = await zip.file("[Content_Types].xml")!.async("text");
+            expect(contentTypes).toContain('PartName="/docProps/custom.xml"');
+            expect((await validateDocx(result)).valid).toBe(true);
+        });
+
+        it("updates existing custom properties in place", async () => {
+            const template = await readFile(resolve(import.meta.dir, "../../templates/invoice.docx"));
+            const first = await setDocxProperties(template, { department: "Accounts" });
+            const second = await setDocxProperties(first, { department: "Legal", region: "EU" });
+
+            const custom = await (await JSZip.loadAsync(second)).file("docProps/custom.xml")!.async("text");
+            expect(custom).toContain('pid="2" name="department"><vt:lpwstr>Legal</vt:lpwstr>');
+            expect(custom).toContain('pid="3" name="region"');
+            expect(custom.match(/name="department"/g)!.length).toBe(1);
+        });
+    });
+});
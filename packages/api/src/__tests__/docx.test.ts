@@ -1,11 +1,17 @@
 import { describe, it, expect, mock } from "bun:test";
 import { DocxService } from "../services/docx.ts";
 import { resolve } from "path";
+import sharp from "sharp";
+import { InvalidImageError } from "../errors.ts";
+
+// Options of the last createReport call
+let lastReport: any;
 
 // Mock createReport to avoid sandboxing issues in test environment
 mock.module("docx-templates", () => {
     return {
-        default: async () => {
+        default: async (options: any) => {
+            lastReport = options;
             // Return a fake DOCX buffer (using PK header)
             return new Uint8Array([0x50, 0x4b, 0x03, 0x04]);
         }
@@ -38,10 +44,12 @@ describe("DocxService", () => {
         });
 
         it("processes base64 images correctly", async () => {
+            // 4:3, as a camera would take it
+            const jpeg = await sharp({ create: { width: 400, height: 300, channels: 3, background: "#808080" } }).jpeg().toBuffer();
             const imagePayload = {
                 photo: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==",
                 gallery: [
-                    "data:image/jpeg;base64,/9j/4AAQSkZJRg==",
+                    `data:image/jpeg;base64,${jpeg.toString("base64")}`,
                     {
                         title: "Test",
                         img: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=="
@@ -50,18 +58,47 @@ describe("DocxService", () => {
             };
 
             // For verification, we inspect the private method by casting to any
-            const processed = (service as any).processDataForImages(imagePayload);
+            const processed = await (service as any).processDataForImages(imagePayload);
 
             expect(processed.photo).toHaveProperty("width");
             expect(processed.photo).toHaveProperty("data");
             expect(processed.photo.extension).toBe(".png");
 
             expect(processed.gallery[0].extension).toBe(".jpeg");
+            // Fitted in the default 6cm box, keeping its aspect ratio
+            expect(processed.gallery[0].width).toBe(6);
+            expect(processed.gallery[0].height).toBe(4.5);
             expect(processed.gallery[1].img.extension).toBe(".png");
 
+            // A size on the value overrides the schema_map field's
+            const sized = await (service as any).processDataForImages(
+                { photo: { data: imagePayload.gallery[0], width: 8 }, logo: imagePayload.photo },
+                { photo: { type: "image", width: 4, height: 4 }, logo: { type: "image", height: 2 } },
+            );
+            expect(sized.photo.width).toBe(8);
+            expect(sized.photo.height).toBe(6);
+            expect(sized.logo.width).toBe(2);
+            expect(sized.logo.height).toBe(2);
+
+            // Uploaded files arrive as bytes: images are embedded, other files left alone
+            const pdfUpload = Buffer.from("%PDF-1.7");
+            const uploaded = await (service as any).processDataForImages(
+                { photo: jpeg, sized: { data: jpeg, width: 8 }, attachment: pdfUpload },
+            );
+            expect(uploaded.photo).toMatchObject({ extension: ".jpeg", width: 6, height: 4.5 });
+            expect(uploaded.photo.data).toBe(jpeg.toString("base64"));
+            expect(uploaded.sized).toMatchObject({ width: 8, height: 6 });
+            expect(uploaded.attachment).toBe(pdfUpload);
+
+            // Sizes on the value are checked like schema_map ones
+            for (const sizing of [{ width: -5 }, { width: 0 }, { height: 5000 }, { fit: "fill" }]) {
+                await expect((service as any).processDataForImages({ photo: { data: jpeg, ...sizing } }))
+                    .rejects.toBeInstanceOf(InvalidImageError);
+            }
+
             // Regression test for Issue #3 (Date/Null preservation)
             const dateData = { date: new Date("2023-01-01"), empty: null };
-            const processedDate = (service as any).processDataForImages(dateData);
+            const processedDate = await (service as any).processDataForImages(dateData);
             expect(processedDate.date).toBeInstanceOf(Date);
             expect(processedDate.empty).toBeNull();
         });
@@ -75,5 +112,17 @@ describe("DocxService", () => {
             expect(result).toBeInstanceOf(Buffer);
             expect(result[0]).toBe(0x50);
         });
+
+        it("namespaces helpers so data fields named like them keep their values", async () => {
+            const data = { currency: "EUR", date: "2024-03-01", number: "INV-1042", total: 1234.5 };
+            await service.renderFromBuffer(Buffer.from("dummy"), data, { locale: "de-DE" });
+
+            const { data: rendered, additionalJsContext: helpers } = lastReport;
+            expect(rendered).toEqual(data);
+            expect(Object.keys(helpers).sort()).toEqual(["codes", "fmt"]);
+            expect(helpers.fmt.currency(rendered.total, rendered.currency).replace(/\s/g, " ")).toBe("1.234,50 €");
+            expect(helpers.fmt.date(rendered.date, "long")).toBe("1. März 2024");
+            expect(Object.keys(helpers.codes).sort()).toEqual(["barcode", "qr"]);
+        });
     });
 });
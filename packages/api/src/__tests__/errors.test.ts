@@ -0,0 +1,30 @@
+import { describe, it, expect } from "bun:test";
+import { TemplateNotFoundError, RemoteFetchError, toErrorResponse, toVelocidocError } from "../errors.ts";
+
+describe("Error taxonomy", () => {
+    it("maps typed errors to their status, code and context", () => {
+        const { statusCode, body } = toErrorResponse(new TemplateNotFoundError("invoice.docx"));
+
+        expect(statusCode).toBe(404);
+        expect(body).toEqual({
+            error: "Template not found",
+            code: "TEMPLATE_NOT_FOUND",
+            details: "Template 'invoice.docx' does not exist",
+            template_id: "invoice.docx",
+        });
+    });
+
+    it("keeps optional context out of the body when absent", () => {
+        const body = new RemoteFetchError("https://example.com/t.docx", "HTTP 500").toResponse();
+        expect(body.remote_status).toBeUndefined();
+        expect(body.url).toBe("https://example.com/t.docx");
+    });
+
+    it("wraps unexpected errors as INTERNAL_ERROR", () => {
+        const error = toVelocidocError(new TypeError("boom"));
+
+        expect(error.code).toBe("INTERNAL_ERROR");
+        expect(error.statusCode).toBe(500);
+        expect(error.message).toBe("boom");
+    });
+});
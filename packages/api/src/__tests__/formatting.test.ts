@@ -0,0 +1,70 @@
+import { describe, it, expect } from "bun:test";
+import { createFormatters } from "../services/formatting.ts";
+import { numberToWords } from "../services/number-words.ts";
+
+// Intl separates currency and percent signs with non-breaking spaces
+const plain = (text: string | undefined) => text?.replace(/[  ]/g, " ");
+
+describe("createFormatters", () => {
+    const us = createFormatters({ locale: "en-US", timezone: "America/New_York" });
+    const de = createFormatters({ locale: "de-DE", timezone: "Europe/Berlin" });
+
+    it("formats numbers, currencies and percentages for the locale", () => {
+        expect(us.currency(1234.5, "EUR")).toBe("€1,234.50");
+        expect(plain(de.currency("1234.5", "EUR"))).toBe("1.234,50 €");
+        expect(de.number(1234567.891, 2)).toBe("1.234.567,89");
+        expect(us.number(0.5, { minimumFractionDigits: 3 })).toBe("0.500");
+        expect(plain(de.percent(0.155, 1))).toBe("15,5 %");
+        expect(() => us.currency(10, "euro")).toThrow("ISO 4217");
+        expect(() => us.number("ten")).toThrow("'ten' is not a number");
+    });
+
+    it("formats dates and times in the timezone", () => {
+        const lateEvening = "2024-03-01T23:30:00Z";
+
+        expect(us.date(lateEvening)).toBe("Mar 1, 2024");
+        expect(de.date(lateEvening, "long")).toBe("2. März 2024");
+        expect(de.time(lateEvening)).toBe("00:30");
+        expect(plain(us.datetime(lateEvening, "short", "short"))).toBe("3/1/24, 6:30 PM");
+        // A calendar date doesn't move with the timezone
+        expect(createFormatters({ locale: "en-US", timezone: "Pacific/Honolulu" }).date("2024-03-01")).toBe("Mar 1, 2024");
+        expect(() => us.date("not a date")).toThrow("is not a date");
+    });
+
+    it("picks plural forms by the locale's rules", () => {
+        expect(us.plural(1, "# item", "# items")).toBe("1 item");
+        expect(us.plural(1200, "# item", "# items")).toBe("1,200 items");
+        const pl = createFormatters({ locale: "pl" });
+        const forms = { one: "# plik", few: "# pliki", many: "# plików", other: "# pliku" };
+        expect([1, 3, 5].map(n => pl.plural(n, forms))).toEqual(["1 plik", "3 pliki", "5 plików"]);
+    });
+
+    it("leaves missing values to the placeholder checks", () => {
+        expect(us.currency(undefined, "EUR")).toBeUndefined();
+        expect(us.date(null)).toBeUndefined();
+        expect(us.words("")).toBeUndefined();
+    });
+
+    it("uses DEFAULT_LOCALE and DEFAULT_TIMEZONE without request options", () => {
+        expect(createFormatters().number(1234.5)).toBe("1,234.5");
+    });
+});
+
+describe("numberToWords", () => {
+    it("spells out whole numbers in each supported language", () => {
+        expect(numberToWords(1234567, "en-US")).toBe("one million two hundred thirty-four thousand five hundred sixty-seven");
+        expect(numberToWords(1005, "en-GB")).toBe("one thousand and five");
+        expect(numberToWords(-42, "en")).toBe("minus forty-two");
+        expect(numberToWords(2001001, "de-DE")).toBe("zwei Millionen eintausendeins");
+        expect(numberToWords(71, "fr-FR")).toBe("soixante et onze");
+        expect(numberToWords(80, "fr")).toBe("quatre-vingts");
+        expect(numberToWords(80200, "fr")).toBe("quatre-vingt mille deux cents");
+        expect(numberToWords(21000, "es-ES")).toBe("veintiún mil");
+        expect(numberToWords(1000000000, "es")).toBe("mil millones");
+    });
+
+    it("rejects fractions and unsupported languages", () => {
+        expect(() => numberToWords(1.5, "en")).toThrow("whole numbers");
+        expect(() => numberToWords(3, "ja-JP")).toThrow("doesn't support 'ja'");
+    });
+});
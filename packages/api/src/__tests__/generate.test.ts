@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeAll, afterAll, mock } from "bun:test";
+import { describe, it, expect, beforeAll, afterAll, mock, spyOn } from "bun:test";
+import { PDFDocument } from "pdf-lib";
 import { buildServer } from "../server.ts";
 import type { FastifyInstance } from "fastify";
+import { gotenbergService } from "../services/gotenberg.ts";
 
 // Disable auth for tests
 process.env.AUTH_ENABLED = 'false';
@@ -44,6 +46,7 @@ describe("API Routes", () => {
             });
 
             expect(response.statusCode).toBe(400);
+            expect(response.json().code).toBe("VALIDATION_ERROR");
         });
 
         it("returns 400 when output_format is invalid", async () => {
@@ -76,6 +79,56 @@ describe("API Routes", () => {
             expect(response.statusCode).toBe(400);
         });
 
+        it("returns 400 when watermark options are invalid", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template_id: "test.docx",
+                    output_format: "pdf",
+                    data: {},
+                    options: {
+                        watermark: { text: "DRAFT", opacity: 2, color: "grey" },
+                    },
+                },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it("returns 400 for watermark text the PDF font can't draw", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template_id: "test.docx",
+                    output_format: "pdf",
+                    data: {},
+                    options: { watermark: { text: "草稿" } },
+                },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().code).toBe("VALIDATION_ERROR");
+            expect(response.json().details).toContain("Unsupported character '草'");
+        });
+
+        it("returns 400 for signature field text the PDF font can't draw", async () => {
+            const sign = { certificate: "company", location: "東京", field: { x: 50, y: 50, width: 200, height: 60 } };
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: { template_id: "test.docx", output_format: "pdf", data: {}, options: { sign } },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().code).toBe("VALIDATION_ERROR");
+            expect(response.json().details).toContain("Unsupported character '東'");
+        });
+
         it("returns 404 when template does not exist", async () => {
             const response = await server.inject({
                 method: "POST",
@@ -91,6 +144,7 @@ describe("API Routes", () => {
             expect(response.statusCode).toBe(404);
             const body = response.json();
             expect(body.error).toBe("Template not found");
+            expect(body.code).toBe("TEMPLATE_NOT_FOUND");
         });
     });
 
@@ -106,6 +160,92 @@ describe("API Routes", () => {
         });
     });
 
+    describe("GET /v1/templates/:id/preview", () => {
+        it("renders the template with its sample data to PNG", async () => {
+            const convert = spyOn(gotenbergService, "convertHtml").mockImplementation(async () => {
+                const doc = await PDFDocument.create();
+                doc.addPage([595, 842]);
+                return Buffer.from(await doc.save());
+            });
+
+            try {
+                const response = await server.inject({
+                    method: "GET",
+                    url: "/v1/templates/invoice.html/preview?dpi=36",
+                });
+
+                expect(response.statusCode).toBe(200);
+                expect(response.headers["content-type"]).toBe("image/png");
+                expect(response.headers["content-disposition"]).toBe('inline; filename="invoice-preview.png"');
+                expect(convert.mock.calls[0][0]).toContain("Globex Ltd");
+            } finally {
+                convert.mockRestore();
+            }
+        });
+
+        it("returns 400 for a malformed page range", async () => {
+            const response = await server.inject({
+                method: "GET",
+                url: "/v1/templates/invoice.html/preview?pages=first",
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().code).toBe("VALIDATION_ERROR");
+        });
+
+        it("returns 404 for unknown templates", async () => {
+            const response = await server.inject({
+                method: "GET",
+                url: "/v1/templates/missing.html/preview",
+            });
+
+            expect(response.statusCode).toBe(404);
+            expect(response.json().code).toBe("TEMPLATE_NOT_FOUND");
+        });
+    });
+
+    describe("POST /v1/generate - data schema", () => {
+        it("returns 422 with field errors when data doesn't match the template schema", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template_id: "invoice.html",
+                    output_format: "html",
+                    data: { company_name: "Acme Corp", invoice_number: "INV-002", items: [{ description: "Support" }] },
+                },
+            });
+
+            expect(response.statusCode).toBe(422);
+            expect(response.json().code).toBe("INVALID_DATA");
+            expect(response.json().errors).toEqual([
+                { field: "customer_name", message: "is required" },
+                { field: "items[0].price", message: "is required" },
+            ]);
+        });
+
+        it("renders data that matches the template schema", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template_id: "invoice.html",
+                    output_format: "html",
+                    data: {
+                        company_name: "Acme Corp",
+                        invoice_number: "INV-002",
+                        invoice_date: "2024-06-01",
+                        customer_name: "Globex Ltd",
+                        items: [{ description: "Support", price: 200 }],
+                    },
+                },
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.body).toContain("Globex Ltd");
+        });
+    });
+
     describe("POST /v1/generate - BYOT mode", () => {
         it("returns 400 when neither template_id nor template provided", async () => {
             const response = await server.inject({
@@ -158,6 +298,7 @@ describe("API Routes", () => {
             expect(response.statusCode).toBe(400);
             const body = response.json();
             expect(body.error).toBe("Invalid template file");
+            expect(body.code).toBe("TEMPLATE_INVALID");
         });
 
         it("returns 400 when template.filename is missing", async () => {
@@ -178,6 +319,453 @@ describe("API Routes", () => {
         });
     });
 
+    describe("POST /v1/generate - web engine", () => {
+        const htmlTemplate = Buffer.from("<h1>Hello {{name}}</h1>").toString("base64");
+
+        it("returns rendered HTML for html output", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template: {
+                        content: htmlTemplate,
+                        filename: "greeting.html",
+                    },
+                    output_format: "html",
+                    data: { name: "Test" },
+                },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.headers["content-type"]).toContain("text/html");
+            // Served inline from the API origin, so scripts in the output must not run
+            expect(response.headers["content-security-policy"]).toBe("sandbox");
+            expect(response.body).toBe("<h1>Hello Test</h1>");
+        });
+
+        it("returns 400 when docx output is requested", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template: {
+                        content: htmlTemplate,
+                        filename: "greeting.html",
+                    },
+                    output_format: "docx",
+                    data: { name: "Test" },
+                },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().error).toBe("Unsupported output format");
+            expect(response.json().code).toBe("UNSUPPORTED_OUTPUT_FORMAT");
+        });
+
+        it("returns 400 when pdf_standard is combined with a watermark", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template: { content: htmlTemplate, filename: "greeting.html" },
+                    output_format: "pdf",
+                    data: { name: "Test" },
+                    options: { pdf_standard: ["PDF/A-2b", "PDF/UA"], watermark: true },
+                },
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().code).toBe("INCOMPATIBLE_OPTIONS");
+        });
+
+        it("returns 400 for html output with a watermark, header text or metadata", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template: { content: htmlTemplate, filename: "greeting.html" },
+                    output_format: "html",
+                    data: { name: "Test" },
+                    options: { watermark: true, header_text: "Confidential" },
+                },
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().code).toBe("INCOMPATIBLE_OPTIONS");
+            expect(response.json().details).toBe("header_text, watermark cannot be combined with output_format 'html'");
+        });
+
+        it("returns 400 for more than one PDF/A level", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template: { content: htmlTemplate, filename: "greeting.html" },
+                    output_format: "pdf",
+                    data: { name: "Test" },
+                    options: { pdf_standard: ["PDF/A-2b", "PDF/A-3b"] },
+                },
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().code).toBe("VALIDATION_ERROR");
+        });
+
+        it("returns 400 for an unknown locale or timezone", async () => {
+            for (const options of [{ locale: "de_DE" }, { timezone: "Europe/Atlantis" }]) {
+                const response = await server.inject({
+                    method: "POST",
+                    url: "/v1/generate",
+                    payload: {
+                        template: { content: htmlTemplate, filename: "greeting.html" },
+                        output_format: "html",
+                        data: { name: "Test" },
+                        options,
+                    },
+                });
+
+                expect(response.statusCode).toBe(400);
+                expect(response.json().code).toBe("VALIDATION_ERROR");
+            }
+        });
+
+        it("lists unresolved placeholders in a response header", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template: { content: htmlTemplate, filename: "greeting.html" },
+                    output_format: "html",
+                    data: {},
+                },
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.body).toBe("<h1>Hello </h1>");
+            expect(response.headers["x-template-warnings-count"]).toBe("1");
+            expect(JSON.parse(response.headers["x-template-warnings"] as string)).toEqual([
+                { placeholder: "name", reason: "missing", message: "No value for 'name'", location: { line: 1, column: 13 } },
+            ]);
+        });
+
+        it("returns 422 for unresolved placeholders in strict mode", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template: { content: htmlTemplate, filename: "greeting.html" },
+                    output_format: "html",
+                    data: {},
+                    options: { strict: true },
+                },
+            });
+
+            expect(response.statusCode).toBe(422);
+            expect(response.json().code).toBe("UNRESOLVED_PLACEHOLDERS");
+            expect(response.json().unresolved[0].placeholder).toBe("name");
+        });
+    });
+
+    describe("POST /v1/generate - password protection", () => {
+        const htmlTemplate = Buffer.from("<h1>Payslip for {{name}}</h1>").toString("base64");
+
+        it("encrypts the PDF without logging the passwords", async () => {
+            const lines: string[] = [];
+            const logged = await buildServer({
+                logger: { level: "trace", stream: { write: (line: string) => { lines.push(line); } } },
+            });
+            const convert = spyOn(gotenbergService, "convertHtml").mockImplementation(async () => {
+                const doc = await PDFDocument.create();
+                doc.addPage();
+                return Buffer.from(await doc.save());
+            });
+
+            try {
+                const response = await logged.inject({
+                    method: "POST",
+                    url: "/v1/generate",
+                    payload: {
+                        template: { content: htmlTemplate, filename: "payslip.html" },
+                        output_format: "pdf",
+                        data: { name: "Ada" },
+                        options: {
+                            protection: {
+                                user_password: "user-secret-123",
+                                owner_password: "owner-secret-456",
+                                permissions: { printing: false, copying: false },
+                            },
+                        },
+                    },
+                });
+
+                expect(response.statusCode).toBe(200);
+                expect(response.body).toContain("/Encrypt");
+                expect(lines.join("\n")).toContain("Received generation request");
+                expect(lines.join("\n")).not.toContain("user-secret-123");
+                expect(lines.join("\n")).not.toContain("owner-secret-456");
+            } finally {
+                convert.mockRestore();
+                await logged.close();
+            }
+        });
+
+        it("returns 400 when protection is requested for DOCX output", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template_id: "invoice.docx",
+                    output_format: "docx",
+                    data: {},
+                    options: { protection: { user_password: "secret" } },
+                },
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().code).toBe("INCOMPATIBLE_OPTIONS");
+        });
+
+        it("returns 400 when protection has no password", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template_id: "invoice.docx",
+                    output_format: "pdf",
+                    data: {},
+                    options: { protection: { permissions: { printing: false } } },
+                },
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().code).toBe("VALIDATION_ERROR");
+        });
+    });
+
+    describe("POST /v1/generate - signing", () => {
+        const htmlTemplate = Buffer.from("<h1>Contract for {{name}}</h1>").toString("base64");
+
+        it("returns 404 when the tenant has no such certificate", async () => {
+            const convert = spyOn(gotenbergService, "convertHtml").mockImplementation(async () => {
+                const doc = await PDFDocument.create();
+                doc.addPage();
+                return Buffer.from(await doc.save());
+            });
+
+            try {
+                const response = await server.inject({
+                    method: "POST",
+                    url: "/v1/generate",
+                    payload: {
+                        template: { content: htmlTemplate, filename: "contract.html" },
+                        output_format: "pdf",
+                        data: { name: "Ada" },
+                        options: { sign: { certificate: "missing", reason: "Approved" } },
+                    },
+                });
+
+                expect(response.statusCode).toBe(404);
+                expect(response.json().code).toBe("CERTIFICATE_NOT_FOUND");
+                expect(response.json().certificate).toBe("missing");
+            } finally {
+                convert.mockRestore();
+            }
+        });
+
+        it("returns 400 when signing is combined with protection", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template: { content: htmlTemplate, filename: "contract.html" },
+                    output_format: "pdf",
+                    data: { name: "Ada" },
+                    options: {
+                        sign: { certificate: "company" },
+                        protection: { user_password: "secret" },
+                    },
+                },
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().code).toBe("INCOMPATIBLE_OPTIONS");
+        });
+
+        it("returns 400 for a certificate name that isn't a plain identifier", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template: { content: htmlTemplate, filename: "contract.html" },
+                    output_format: "pdf",
+                    data: { name: "Ada" },
+                    options: { sign: { certificate: "../other/company" } },
+                },
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().code).toBe("VALIDATION_ERROR");
+        });
+    });
+
+    describe("POST /v1/generate/batch", () => {
+        const htmlTemplate = {
+            content: Buffer.from("<p>Dear {{name}}</p>").toString("base64"),
+            filename: "letter.html",
+        };
+
+        it("returns a ZIP of rendered documents", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate/batch",
+                payload: {
+                    template: htmlTemplate,
+                    output_format: "html",
+                    data: [{ name: "Ann" }, { name: "Bob" }],
+                    filename_pattern: "letter-{{index}}-{{name}}",
+                },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.headers["content-type"]).toBe("application/zip");
+            expect(response.headers["x-batch-succeeded"]).toBe("2");
+
+            const JSZip = (await import("jszip")).default;
+            const zip = await JSZip.loadAsync(response.rawPayload);
+            expect(await zip.file("letter-2-Bob.html")!.async("text")).toBe("<p>Dear Bob</p>");
+            expect(zip.file("report.json")).not.toBeNull();
+        });
+
+        it("returns 400 when data is empty", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate/batch",
+                payload: {
+                    template: htmlTemplate,
+                    output_format: "html",
+                    data: [],
+                },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it("returns 400 when merged_pdf is requested for non-PDF output", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate/batch",
+                payload: {
+                    template: htmlTemplate,
+                    output_format: "html",
+                    data: [{ name: "Ann" }],
+                    bundle: "merged_pdf",
+                },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it("lists failed items of a merged PDF in an ASCII, size-capped X-Batch-Errors header", async () => {
+            const convert = spyOn(gotenbergService, "convertHtml").mockImplementation(async (html: string) => {
+                if (html.includes("Ошибка")) throw new Error(`Не удалось: ${html} ${"x".repeat(150)}`);
+                const doc = await PDFDocument.create();
+                doc.addPage();
+                return Buffer.from(await doc.save());
+            });
+
+            try {
+                const response = await server.inject({
+                    method: "POST",
+                    url: "/v1/generate/batch",
+                    payload: {
+                        template: htmlTemplate,
+                        output_format: "pdf",
+                        bundle: "merged_pdf",
+                        data: [{ name: "Ann" }, ...Array.from({ length: 40 }, () => ({ name: "Ошибка 草" }))],
+                    },
+                });
+
+                expect(response.statusCode).toBe(200);
+                expect(response.headers["x-batch-failed"]).toBe("40");
+                const header = response.headers["x-batch-errors"] as string;
+                expect(header).toMatch(/^[\x20-\x7e]+$/);
+                expect(header.length).toBeLessThanOrEqual(4096);
+                const failures = JSON.parse(header);
+                expect(failures.length).toBeGreaterThan(0);
+                expect(failures.length).toBeLessThan(40);
+                expect(failures[0].index).toBe(2);
+                expect(failures[0].error).toContain("Не удалось: <p>Dear Ошибка 草</p>");
+            } finally {
+                convert.mockRestore();
+            }
+        });
+
+        it("returns 422 with a report when every item fails", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate/batch",
+                payload: {
+                    template: {
+                        content: Buffer.from("{{> missing_partial}}").toString("base64"),
+                        filename: "broken.html",
+                    },
+                    output_format: "html",
+                    data: [{}, {}],
+                },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(422);
+            const body = response.json();
+            expect(body.report.failed).toBe(2);
+        });
+    });
+
+    describe("POST /v1/generate/assembly", () => {
+        it("returns 400 when parts is empty", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate/assembly",
+                payload: { parts: [] },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it("returns 400 for output formats other than pdf", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate/assembly",
+                payload: { parts: [{ template_id: "invoice.docx" }], output_format: "docx" },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it("returns 404 naming the part whose template is missing", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate/assembly",
+                payload: { parts: [{ template_id: "nonexistent.docx", title: "Annex A" }] },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(404);
+            const body = response.json();
+            expect(body.error).toBe("Template not found");
+            expect(body.code).toBe("TEMPLATE_NOT_FOUND");
+            expect(body.part).toBe(1);
+            expect(body.part_title).toBe("Annex A");
+        });
+    });
+
     describe("POST /v1/templates/validate", () => {
         it("returns invalid for non-DOCX content", async () => {
             const response = await server.inject({
@@ -208,6 +796,68 @@ describe("API Routes", () => {
         });
     });
 
+    describe("multipart/form-data uploads", () => {
+        const PNG_PIXEL = Buffer.from(
+            "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==",
+            "base64",
+        );
+
+        const injectForm = (url: string, form: FormData) => server.inject({ method: "POST", url, body: form });
+
+        it("renders an uploaded template with attachments referenced from data", async () => {
+            const form = new FormData();
+            form.append("template", new Blob(['<h1>{{title}}</h1><img src="{{photo}}">']), "report.html");
+            form.append("output_format", "html");
+            form.append("data", JSON.stringify({ title: "Site visit", photo: "attachment:photo1" }));
+            form.append("photo1", new Blob([PNG_PIXEL], { type: "image/png" }), "photo1.png");
+
+            const response = await injectForm("/v1/generate", form);
+
+            expect(response.statusCode).toBe(200);
+            expect(response.headers["content-disposition"]).toContain('filename="report.html"');
+            expect(response.body).toStartWith('<h1>Site visit</h1><img src="data:image/png;base64,iVBOR');
+        });
+
+        it("returns 400 when data references an unknown attachment", async () => {
+            const form = new FormData();
+            form.append("template", new Blob(["<p>{{photo}}</p>"]), "report.html");
+            form.append("output_format", "html");
+            form.append("data", JSON.stringify({ photo: "attachment:missing" }));
+
+            const response = await injectForm("/v1/generate", form);
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().details).toContain("missing");
+        });
+
+        it("returns 400 when the data part is not JSON", async () => {
+            const form = new FormData();
+            form.append("template", new Blob(["<p></p>"]), "report.html");
+            form.append("output_format", "html");
+            form.append("data", "{not json");
+
+            const response = await injectForm("/v1/generate", form);
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().error).toBe("Invalid multipart request");
+            expect(response.json().code).toBe("INVALID_MULTIPART");
+        });
+
+        it("validates an uploaded DOCX template", async () => {
+            const { readFile } = await import("fs/promises");
+            const docx = await readFile(new URL("../../templates/invoice.docx", import.meta.url));
+            const form = new FormData();
+            form.append("template", new Blob([docx]), "invoice.docx");
+
+            const response = await injectForm("/v1/templates/validate", form);
+
+            expect(response.statusCode).toBe(200);
+            const body = response.json();
+            expect(body.valid).toBe(true);
+            expect(body.fields.length).toBeGreaterThan(0);
+        });
+    });
+
     describe("POST /v1/generate - template_url mode", () => {
         it("returns 400 when template_url is invalid URL format", async () => {
             const response = await server.inject({
@@ -259,6 +909,39 @@ describe("API Routes", () => {
             expect(response.statusCode).toBe(400);
         });
 
+        it("returns 400 when source is given without template_url", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template_id: "test.docx",
+                    source: "sharepoint-hr",
+                    output_format: "pdf",
+                    data: { name: "Test" },
+                },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it("returns 404 when the template source isn't configured", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/generate",
+                payload: {
+                    template_url: "https://contoso.sharepoint.com/sites/hr/offer.docx",
+                    source: "sharepoint-hr",
+                    output_format: "pdf",
+                    data: { name: "Test" },
+                },
+                headers: { "Content-Type": "application/json" },
+            });
+
+            expect(response.statusCode).toBe(404);
+            expect(response.json().code).toBe("TEMPLATE_SOURCE_NOT_FOUND");
+        });
+
         it("returns 502 when template_url fetch fails (unreachable URL)", async () => {
             const response = await server.inject({
                 method: "POST",
@@ -275,6 +958,7 @@ describe("API Routes", () => {
             expect(response.statusCode).toBe(502);
             const body = response.json();
             expect(body.error).toContain("fetch");
+            expect(body.code).toBe("REMOTE_FETCH_FAILED");
         });
     });
 });
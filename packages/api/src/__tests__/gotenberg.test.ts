@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, spyOn } from "bun:test";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { PDFDocument, PDFName } from "pdf-lib";
+import { GotenbergService, gotenbergService } from "../services/gotenberg.ts";
+import { UrlPolicy } from "../services/url-policy.ts";
+import { documentGenerator } from "../services/generator.ts";
+import { ConversionFailedError, IncompatibleOptionsError, PdfStandardNotMetError } from "../errors.ts";
+
+const silentLog = { info() {}, warn() {}, error() {}, child() { return silentLog; } };
+
+interface ReceivedForm {
+    route: string;
+    fields: Record<string, string>;
+    files: string[];
+}
+
+/**
+ * Minimal Gotenberg stand-in: records each form and answers with a one-page
+ * PDF declaring whatever pdfa/pdfua was requested (unless told to ignore them)
+ */
+async function standInPdf(fields: Record<string, string>, honourStandards: boolean): Promise<Buffer> {
+    const doc = await PDFDocument.create();
+    doc.addPage([595, 842]);
+
+    const pdfa = fields.pdfa?.match(/^PDF\/A-(\d)([a-z])$/);
+    const pdfua = fields.pdfua === "true";
+    if (honourStandards && (pdfa || pdfua)) {
+        const xmp = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">`
+            + (pdfa ? `<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/" pdfaid:part="${pdfa[1]}" pdfaid:conformance="${pdfa[2].toUpperCase()}"/>` : "")
+            + (pdfua ? `<rdf:Description rdf:about="" xmlns:pdfuaid="http://www.aiim.org/pdfua/ns/id/" pdfuaid:part="1"/>` : "")
+            + `</rdf:RDF></x:xmpmeta>`;
+        doc.catalog.set(PDFName.of("Metadata"), doc.context.register(doc.context.stream(xmp, { Type: "Metadata", Subtype: "XML" })));
+    }
+
+    return Buffer.from(await doc.save());
+}
+
+describe("GotenbergService", () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let service: GotenbergService;
+    let received: ReceivedForm[] = [];
+    let honourStandards = true;
+
+    beforeAll(() => {
+        server = Bun.serve({
+            port: 0,
+            async fetch(request) {
+                const route = new URL(request.url).pathname;
+
+                const form = await request.formData();
+                const fields: Record<string, string> = {};
+                const files: string[] = [];
+                for (const [name, value] of form.entries()) {
+                    if (typeof value === "string") fields[name] = value;
+                    else files.push(`${name}:${value.name}`);
+                }
+                received.push({ route, fields, files });
+
+                if (fields.fail) {
+                    return new Response("LibreOffice failed", { status: 400 });
+                }
+                return new Response(await standInPdf(fields, honourStandards), {
+                    headers: { "Content-Type": "application/pdf" },
+                });
+            },
+        });
+        service = new GotenbergService(`http://localhost:${server.port}`);
+    });
+
+    afterAll(() => {
+        server.stop(true);
+    });
+
+    afterEach(() => {
+        received = [];
+        honourStandards = true;
+    });
+
+    describe("form fields", () => {
+        it("sends only the document for plain LibreOffice conversions", async () => {
+            await service.convert(Buffer.from("docx"), "invoice.docx");
+
+            expect(received).toEqual([{ route: "/forms/libreoffice/convert", fields: {}, files: ["files:invoice.docx"] }]);
+        });
+
+        it("sends pdfa and pdfua to LibreOffice", async () => {
+            await service.convert(Buffer.from("docx"), "invoice.docx", { pdfa: "PDF/A-2b", pdfua: true });
+
+            expect(received[0].fields).toEqual({ pdfa: "PDF/A-2b", pdfua: "true" });
+        });
+
+        it("sends pdfa alongside the Chromium page options", async () => {
+            await service.convertHtml("<p>Hi</p>", { pdfStandard: { pdfa: "PDF/A-3b" } });
+
+            expect(received[0].route).toBe("/forms/chromium/convert/html");
+            expect(received[0].fields).toEqual({
+                printBackground: "true",
+                preferCssPageSize: "true",
+                pdfa: "PDF/A-3b",
+            });
+        });
+
+        it("maps converter errors to ConversionFailedError", async () => {
+            const formData = new FormData();
+            formData.append("fail", "true");
+            const error = await (service as any).post("/forms/libreoffice/convert", formData).catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(ConversionFailedError);
+            expect(error.context.converter_status).toBe(400);
+        });
+    });
+
+    describe("deployment", () => {
+        it("starts Gotenberg with the Chromium URL lists of the default policy", async () => {
+            const compose = Bun.YAML.parse(await readFile(join(import.meta.dir, "../../../../docker-compose.yml"), "utf8")) as any;
+            const command: string[] = compose.services.gotenberg.command;
+            const { denyList } = new UrlPolicy({ schemes: ["https", "http"], allowedHosts: [], deniedHosts: [], privateHosts: [], maxRedirects: 5 }).chromiumUrlLists();
+
+            expect(command).toContain(`--chromium-deny-list=${denyList}`);
+            expect(command).toContain("--chromium-allow-list=${GOTENBERG_CHROMIUM_ALLOW_LIST:-}");
+        });
+    });
+
+    describe("PDF standards in the generator", () => {
+        const template = { buffer: Buffer.from("<p>{{name}}</p>"), name: "letter.html", engine: "web" as const };
+
+        afterEach(() => {
+            (gotenbergService.convertHtml as any).mockRestore?.();
+        });
+
+        const useStandIn = () => spyOn(gotenbergService, "convertHtml")
+            .mockImplementation((html, options) => service.convertHtml(html, options));
+
+        it("returns output that declares the requested standard", async () => {
+            useStandIn();
+
+            const document = await documentGenerator.generate(template, { name: "Ada" }, {
+                outputFormat: "pdf",
+                pdfStandard: { pdfa: "PDF/A-2b", pdfua: true },
+                metadata: { title: "Letter" },
+            }, silentLog);
+
+            expect(received[0].fields.pdfa).toBe("PDF/A-2b");
+            expect(received[0].fields.pdfua).toBe("true");
+            expect(document.contentType).toBe("application/pdf");
+        });
+
+        it("rejects output that does not declare the requested standard", async () => {
+            useStandIn();
+            honourStandards = false;
+
+            const error = await documentGenerator.generate(template, {}, {
+                outputFormat: "pdf",
+                pdfStandard: { pdfa: "PDF/A-3b" },
+            }, silentLog).catch(e => e);
+
+            expect(error).toBeInstanceOf(PdfStandardNotMetError);
+            expect(error.statusCode).toBe(502);
+        });
+
+        it("rejects options that would break conformance before converting", async () => {
+            useStandIn();
+
+            const generate = (options: object) => documentGenerator.generate(template, {}, {
+                outputFormat: "pdf",
+                pdfStandard: { pdfa: "PDF/A-2b" },
+                ...options,
+            }, silentLog);
+
+            await expect(generate({ watermark: { text: "DRAFT", opacity: 0.2, rotation: 45, font_size: 72, color: "#808080" } }))
+                .rejects.toBeInstanceOf(IncompatibleOptionsError);
+            await expect(generate({ metadata: { "Case ID": "C-1" } })).rejects.toBeInstanceOf(IncompatibleOptionsError);
+            await expect(generate({ outputFormat: "html" })).rejects.toBeInstanceOf(IncompatibleOptionsError);
+            expect(received).toEqual([]);
+        });
+    });
+});
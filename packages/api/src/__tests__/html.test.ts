@@ -0,0 +1,55 @@
+import { describe, it, expect } from "bun:test";
+import { HtmlService } from "../services/html.ts";
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+
+describe("HtmlService", () => {
+    const service = new HtmlService();
+    const templatePath = resolve(import.meta.dir, "../../templates/invoice.docx");
+
+    it("converts a DOCX into a standalone HTML page", async () => {
+        const buffer = await readFile(templatePath);
+        const { html } = await service.convert(buffer, "invoice");
+
+        expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+        expect(html).toContain("<title>invoice</title>");
+        expect(html).toContain("<style>");
+        expect(html).toContain("</body>");
+    });
+
+    it("escapes the document title", async () => {
+        const buffer = await readFile(templatePath);
+        const { html } = await service.convert(buffer, "<script>");
+
+        expect(html).toContain("<title>&lt;script&gt;</title>");
+    });
+
+    it("inlines images as data URIs", async () => {
+        const JSZip = (await import("jszip")).default;
+        const zip = await JSZip.loadAsync(await readFile(templatePath));
+
+        // 1x1 PNG embedded via a drawing relationship
+        const png = Buffer.from("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==", "base64");
+        zip.file("word/media/image1.png", png);
+
+        const relsPath = "word/_rels/document.xml.rels";
+        const rels = await zip.file(relsPath)!.async("text");
+        zip.file(relsPath, rels.replace("</Relationships>",
+            '<Relationship Id="rIdImg1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.png"/></Relationships>'));
+
+        const contentTypes = await zip.file("[Content_Types].xml")!.async("text");
+        if (!contentTypes.includes('Extension="png"')) {
+            zip.file("[Content_Types].xml", contentTypes.replace("<Default ",
+                '<Default Extension="png" ContentType="image/png"/><Default '));
+        }
+
+        const doc = await zip.file("word/document.xml")!.async("text");
+        const drawing = `<w:p><w:r><w:drawing><wp:inline xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"><wp:extent cx="9525" cy="9525"/><wp:docPr id="100" name="Picture"/><a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="100" name="image1.png"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:embed="rIdImg1"/></pic:blipFill><pic:spPr/></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>`;
+        zip.file("word/document.xml", doc.replace(/<w:body>/, `<w:body>${drawing}`));
+
+        const buffer = Buffer.from(await zip.generateAsync({ type: "arraybuffer" }));
+        const { html } = await service.convert(buffer);
+
+        expect(html).toContain('src="data:image/png;base64,');
+    });
+});
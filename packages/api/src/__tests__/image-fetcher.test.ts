@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { ImageFetcher, ImageFetcherOptions } from "../services/image-fetcher.ts";
+import { UrlPolicy } from "../services/url-policy.ts";
+import { ImageFetchError, InvalidImageError, UrlNotAllowedError } from "../errors.ts";
+
+const silentLog = { info() {}, warn() {}, error() {}, child() { return silentLog; } };
+const PNG = Buffer.from("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==", "base64");
+const PNG_URI = `data:image/png;base64,${PNG.toString("base64")}`;
+
+// The stand-in runs on 127.0.0.1, which the default policy refuses
+const localPolicy = new UrlPolicy({ schemes: ["http"], allowedHosts: [], deniedHosts: [], privateHosts: ["127.0.0.1"], maxRedirects: 0 });
+
+describe("ImageFetcher", () => {
+    let server: ReturnType<typeof Bun.serve>;
+    const requests: string[] = [];
+
+    const createFetcher = (options: Partial<ImageFetcherOptions> = {}) => new ImageFetcher({
+        maxImages: 10,
+        maxBytes: 1024,
+        timeoutMs: 1000,
+        concurrency: 2,
+        ...options,
+    }, localPolicy);
+    const url = (path: string) => `http://127.0.0.1:${server.port}${path}`;
+
+    beforeAll(() => {
+        server = Bun.serve({
+            port: 0,
+            async fetch(request) {
+                const { pathname } = new URL(request.url);
+                requests.push(pathname);
+                if (pathname.startsWith("/photo")) return new Response(PNG, { headers: { "Content-Type": "image/png" } });
+                if (pathname === "/large.png") return new Response(Buffer.alloc(2048, 0x89), { headers: { "Content-Type": "image/png" } });
+                if (pathname === "/page") return new Response("<html></html>", { headers: { "Content-Type": "text/html" } });
+                if (pathname === "/slow.png") {
+                    await Bun.sleep(200);
+                    return new Response(PNG, { headers: { "Content-Type": "image/png" } });
+                }
+                return new Response("not found", { status: 404 });
+            },
+        });
+    });
+
+    afterAll(() => {
+        server.stop(true);
+    });
+
+    beforeEach(() => {
+        requests.length = 0;
+    });
+
+    it("replaces image objects and schema_map image URLs with data URIs", async () => {
+        const data = {
+            customer: { logo: url("/photo-logo.png"), website: "https://acme.example" },
+            inspection: [{ photo: { image_url: url("/photo-1.png"), width: 8, height: 6 } }],
+            signature: { url: url("/photo-2.png"), height: 2 },
+            link: { url: "https://acme.example", label: "Acme" },
+            homepage: { url: url("/photo-3.png") },
+        };
+
+        const resolved = await createFetcher().resolve(data, {
+            "customer.logo": { type: "image" },
+            signature: { type: "image" },
+        }, silentLog);
+
+        expect(resolved.customer.logo).toBe(PNG_URI);
+        expect(resolved.customer.website).toBe("https://acme.example");
+        expect(resolved.inspection[0].photo).toEqual({ data: PNG_URI, width: 8, height: 6 });
+        expect(resolved.signature).toEqual({ data: PNG_URI, height: 2 });
+        // Outside image fields, only image_url is fetched: { url } objects are links
+        expect(resolved.link).toEqual(data.link);
+        expect(resolved.homepage).toEqual(data.homepage);
+        expect(requests.sort()).toEqual(["/photo-1.png", "/photo-2.png", "/photo-logo.png"]);
+        // The request data itself is left alone
+        expect(data.customer.logo).toBe(url("/photo-logo.png"));
+    });
+
+    it("lists the URLs it would fetch without fetching them", () => {
+        const fetcher = createFetcher();
+        const data = { logo: url("/photo-logo.png"), photo: { image_url: url("/photo-1.png") }, link: { url: url("/photo-2.png") } };
+
+        expect([...fetcher.findUrls(data, { logo: { type: "image" } })].sort()).toEqual([url("/photo-1.png"), url("/photo-logo.png")]);
+        expect(fetcher.findUrls({ website: "https://acme.example", link: { url: "https://acme.example" } }, undefined).size).toBe(0);
+        expect(requests).toEqual([]);
+    });
+
+    it("downloads each distinct URL once", async () => {
+        const photo = { image_url: url("/photo-1.png") };
+        await createFetcher().resolve({ a: photo, b: [photo, photo] }, undefined, silentLog);
+
+        expect(requests).toEqual(["/photo-1.png"]);
+    });
+
+    it("enforces size, content type, count and time limits", async () => {
+        const fetcher = createFetcher({ maxImages: 2, timeoutMs: 50 });
+
+        await expect(fetcher.resolve({ a: { image_url: url("/large.png") } }, undefined, silentLog)).rejects.toThrow("Image too large");
+        await expect(fetcher.resolve({ a: { image_url: url("/page") } }, undefined, silentLog)).rejects.toBeInstanceOf(InvalidImageError);
+        await expect(fetcher.resolve({ a: { image_url: url("/missing.png") } }, undefined, silentLog)).rejects.toBeInstanceOf(ImageFetchError);
+        await expect(fetcher.resolve({ a: { image_url: url("/slow.png") } }, undefined, silentLog)).rejects.toThrow("timed out");
+        await expect(fetcher.resolve({ items: [1, 2, 3].map(i => ({ image_url: url(`/photo-${i}.png`) })) }, undefined, silentLog))
+            .rejects.toThrow("3 image URLs (max 2)");
+    });
+
+    it("applies the URL policy to image URLs", async () => {
+        await expect(createFetcher().resolve({ a: { image_url: "http://169.254.169.254/latest/meta-data/" } }, undefined, silentLog))
+            .rejects.toBeInstanceOf(UrlNotAllowedError);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "bun:test";
+import sharp from "sharp";
+import { prepareImage, displaySize, detectImageType } from "../services/images.ts";
+import { InvalidImageError } from "../errors.ts";
+
+const dataUri = (buffer: Buffer, type = "png") => `data:image/${type};base64,${buffer.toString("base64")}`;
+const solid = (width: number, height: number) =>
+    sharp({ create: { width, height, channels: 3, background: "#336699" } });
+
+describe("displaySize", () => {
+    it("fits the image in the box, keeping its aspect ratio", () => {
+        expect(displaySize(400, 200, 96, {})).toEqual({ width: 6, height: 3 });
+        expect(displaySize(200, 400, 96, { width: 10, height: 4 })).toEqual({ width: 2, height: 4 });
+    });
+
+    it("derives the missing dimension from the aspect ratio", () => {
+        expect(displaySize(400, 300, 96, { width: 8 })).toEqual({ width: 8, height: 6 });
+        expect(displaySize(400, 300, 96, { height: 3 })).toEqual({ width: 4, height: 3 });
+    });
+
+    it("fills the box with cover, cropping from the centre", () => {
+        expect(displaySize(400, 200, 96, { width: 4, height: 4, fit: "cover" })).toEqual({
+            width: 4,
+            height: 4,
+            crop: { left: 100, top: 0, width: 200, height: 200 },
+        });
+    });
+
+    it("keeps the natural size with max-width unless it's wider", () => {
+        // 96px at 96 DPI is one inch
+        expect(displaySize(96, 48, 96, { width: 10, fit: "max-width" })).toEqual({ width: 2.54, height: 1.27 });
+        expect(displaySize(960, 480, 96, { width: 10, fit: "max-width" })).toEqual({ width: 10, height: 5 });
+    });
+});
+
+describe("prepareImage", () => {
+    it("rotates photos by their EXIF orientation before sizing them", async () => {
+        // Stored landscape, displayed portrait (orientation 6 is 90° clockwise)
+        const photo = await solid(400, 200).jpeg().withMetadata({ orientation: 6 }).toBuffer();
+
+        const image = await prepareImage(dataUri(photo, "jpeg"), { height: 6 });
+
+        expect(image).toMatchObject({ extension: ".jpeg", width: 3, height: 6 });
+        const metadata = await sharp(Buffer.from(image.data, "base64")).metadata();
+        expect([metadata.width, metadata.height]).toEqual([200, 400]);
+    });
+
+    it("crops the embedded image for cover", async () => {
+        const image = await prepareImage(dataUri(await solid(400, 200).png().toBuffer()), { width: 4, height: 4, fit: "cover" });
+
+        const metadata = await sharp(Buffer.from(image.data, "base64")).metadata();
+        expect([metadata.width, metadata.height]).toEqual([200, 200]);
+    });
+
+    it("converts formats Word can't embed", async () => {
+        const svg = Buffer.from('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="200" height="100"><rect width="200" height="100" fill="#369"/></svg>');
+        const webp = await solid(400, 300).webp().toBuffer();
+        const transparentWebp = await sharp({ create: { width: 40, height: 30, channels: 4, background: "#33669900" } }).webp().toBuffer();
+        const gif = await solid(40, 30).gif().toBuffer();
+        const avif = await solid(40, 30).avif().toBuffer();
+
+        expect([svg, webp, gif, avif].map(detectImageType)).toEqual(["svg", "webp", "gif", "avif"]);
+        expect((await prepareImage(dataUri(webp, "webp"))).extension).toBe(".jpeg");
+        expect((await prepareImage(dataUri(transparentWebp, "webp"))).extension).toBe(".png");
+        expect((await prepareImage(dataUri(gif, "gif"))).extension).toBe(".png");
+        expect((await prepareImage(dataUri(avif, "heic"))).extension).toBe(".jpeg");
+
+        // Drawn sharp at its display size rather than at its 200 × 100 units
+        const image = await prepareImage(dataUri(svg, "svg+xml"), { width: 10 }, { maxDpi: 300, jpegQuality: 85 });
+        const metadata = await sharp(Buffer.from(image.data, "base64")).metadata();
+        expect(image).toMatchObject({ extension: ".png", width: 10, height: 5 });
+        expect(metadata.width).toBeGreaterThanOrEqual(1181);
+    });
+
+    it("downscales images beyond the resolution their display size needs", async () => {
+        const photo = dataUri(await solid(4000, 3000).jpeg().toBuffer(), "jpeg");
+
+        const image = await prepareImage(photo, { width: 2.54 }, { maxDpi: 300, jpegQuality: 80 });
+        const metadata = await sharp(Buffer.from(image.data, "base64")).metadata();
+        expect([metadata.width, metadata.height]).toEqual([300, 225]);
+
+        const kept = await prepareImage(photo, { width: 2.54 }, { maxDpi: 0, jpegQuality: 80 });
+        expect(kept.data).toBe(photo.split(",")[1]);
+    });
+
+    it("takes the bytes of uploaded files as they are", async () => {
+        const photo = await solid(400, 300).jpeg().toBuffer();
+
+        const image = await prepareImage(photo, { width: 8 }, { maxDpi: 0, jpegQuality: 80 });
+        expect(image).toMatchObject({ extension: ".jpeg", width: 8, height: 6 });
+        expect(image.data).toBe(photo.toString("base64"));
+        await expect(prepareImage(Buffer.from("not an image"))).rejects.toBeInstanceOf(InvalidImageError);
+    });
+
+    it("rejects data that isn't an image", async () => {
+        await expect(prepareImage(dataUri(Buffer.from("not an image")))).rejects.toBeInstanceOf(InvalidImageError);
+    });
+
+    it("rejects negative, zero, oversized and non-numeric sizes and unknown fits", async () => {
+        const png = dataUri(await solid(40, 30).png().toBuffer());
+
+        for (const sizing of [{ width: -5 }, { height: 0 }, { width: 101 }, { width: Infinity }, { width: "5" }, { fit: "stretch" }]) {
+            await expect(prepareImage(png, sizing as any)).rejects.toBeInstanceOf(InvalidImageError);
+        }
+        await expect(prepareImage(png, { width: -5 })).rejects.toThrow("Image width must be a number of cm above 0 and at most 100, got -5");
+        await expect(prepareImage(png, { width: 100, fit: "max-width" })).resolves.toBeDefined();
+    });
+});
@@ -0,0 +1,340 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import Fastify, { FastifyInstance } from "fastify";
+import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { randomUUID } from "crypto";
+import { readFile } from "fs/promises";
+import { LocalJobStore, JobQueue, JobSecrets, Job } from "../jobs/index.ts";
+import { jobRoutes } from "../routes/jobs.ts";
+import { UrlPolicy } from "../services/url-policy.ts";
+
+const silentLog = { info() {}, warn() {}, error() {}, child() { return silentLog; } };
+
+// Test callback servers listen on localhost, which the default policy refuses
+const localPolicy = new UrlPolicy({ schemes: ["http"], allowedHosts: [], deniedHosts: [], privateHosts: ["localhost"], maxRedirects: 0 });
+
+const webTemplate = {
+    content: Buffer.from("<p>Hello {{name}}</p>").toString("base64"),
+    filename: "greeting.html",
+};
+
+const newJob = (overrides: Partial<Job> = {}): Job => ({
+    id: randomUUID(),
+    tenantId: "default",
+    status: "queued",
+    payload: { template: webTemplate, output_format: "html", data: { name: "Ada" } },
+    resultUrl: "http://localhost/v1/jobs/x/result",
+    createdAt: new Date().toISOString(),
+    ...overrides,
+});
+
+describe("Async jobs", () => {
+    let dir: string;
+    let store: LocalJobStore;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "velocidoc-jobs-"));
+        store = new LocalJobStore(dir);
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    describe("LocalJobStore", () => {
+        it("creates, updates and lists jobs", async () => {
+            const first = await store.create(newJob({ createdAt: "2024-01-01T00:00:00.000Z" }));
+            const second = await store.create(newJob({ createdAt: "2024-01-02T00:00:00.000Z" }));
+
+            await store.update(first.id, { status: "completed" });
+
+            expect((await store.get(first.id))!.status).toBe("completed");
+            expect((await store.list()).map(j => j.id)).toEqual([first.id, second.id]);
+        });
+
+        it("returns null for unknown or malformed IDs", async () => {
+            expect(await store.get(randomUUID())).toBeNull();
+            expect(await store.get("../../etc/passwd")).toBeNull();
+        });
+
+        it("lists nothing when the directory does not exist yet", async () => {
+            expect(await new LocalJobStore(join(dir, "missing")).list()).toEqual([]);
+        });
+    });
+
+    describe("JobQueue", () => {
+        const processor = async (job: Job) => ({
+            buffer: Buffer.from(`done ${job.payload!.data.name}`),
+            contentType: "text/plain",
+            filename: "out.txt",
+        });
+        const mapError = (error: unknown) => ({ error: String(error) });
+
+        it("resumes jobs left unfinished by a previous run", async () => {
+            const interrupted = await store.create(newJob({ status: "processing" }));
+            const queued = await store.create(newJob());
+
+            const queue = new JobQueue(store, processor, mapError, silentLog);
+            await queue.start();
+            await queue.onIdle();
+            await queue.stop();
+
+            for (const { id } of [interrupted, queued]) {
+                const job = await store.get(id);
+                expect(job!.status).toBe("completed");
+                expect(job!.payload).toBeUndefined();
+                expect((await store.getResult(id)).toString()).toBe("done Ada");
+            }
+        });
+
+        it("records failures with the mapped error", async () => {
+            const job = await store.create(newJob());
+            const queue = new JobQueue(store, async () => { throw new Error("boom"); }, mapError, silentLog);
+
+            await queue.start();
+            await queue.onIdle();
+            await queue.stop();
+
+            const failed = await store.get(job.id);
+            expect(failed!.status).toBe("failed");
+            expect(failed!.error).toEqual({ error: "Error: boom" });
+        });
+
+        it("prunes finished jobs past the retention period", async () => {
+            const old = await store.create(newJob({ status: "completed", completedAt: "2020-01-01T00:00:00.000Z" }));
+            const queue = new JobQueue(store, processor, mapError, silentLog, { retentionMs: 60_000 });
+
+            await queue.start();
+            await queue.stop();
+
+            expect(await store.get(old.id)).toBeNull();
+        });
+
+        it("posts the final status to the callback URL", async () => {
+            const received: any[] = [];
+            const callbackServer = Bun.serve({
+                port: 0,
+                async fetch(request) {
+                    received.push(await request.json());
+                    return new Response("ok");
+                },
+            });
+
+            try {
+                const job = await store.create(newJob({
+                    callbackUrl: `http://localhost:${callbackServer.port}/hook`,
+                }));
+                const queue = new JobQueue(store, processor, mapError, silentLog, { callbackPolicy: localPolicy });
+                await queue.start();
+                await queue.onIdle();
+                await queue.stop();
+
+                expect(received).toHaveLength(1);
+                expect(received[0].id).toBe(job.id);
+                expect(received[0].status).toBe("completed");
+                expect(received[0].result_url).toBe(job.resultUrl);
+                expect((await store.get(job.id))!.callback).toMatchObject({ status: "delivered", attempts: 1 });
+            } finally {
+                callbackServer.stop(true);
+            }
+        });
+
+        it("refuses callbacks to private addresses without retrying", async () => {
+            await store.create(newJob({ callbackUrl: "http://127.0.0.1:9/hook" }));
+            const queue = new JobQueue(store, processor, mapError, silentLog, { callbackRetryDelayMs: 1 });
+            await queue.start();
+            await queue.onIdle();
+            await queue.stop();
+
+            const [job] = await store.list();
+            expect(job.callback).toMatchObject({ status: "failed", attempts: 1 });
+            expect(job.callback!.lastError).toContain("non-public address 127.0.0.1");
+        });
+
+        it("retries failed callbacks and records the outcome", async () => {
+            let calls = 0;
+            const callbackServer = Bun.serve({
+                port: 0,
+                fetch() {
+                    calls++;
+                    return new Response("unavailable", { status: 503 });
+                },
+            });
+
+            try {
+                const job = await store.create(newJob({
+                    callbackUrl: `http://localhost:${callbackServer.port}/hook`,
+                }));
+                const queue = new JobQueue(store, processor, mapError, silentLog, { callbackRetryDelayMs: 1, callbackPolicy: localPolicy });
+                await queue.start();
+                await queue.onIdle();
+                await queue.stop();
+
+                expect(calls).toBe(3);
+                expect((await store.get(job.id))!.callback).toMatchObject({ status: "failed", statusCode: 503 });
+            } finally {
+                callbackServer.stop(true);
+            }
+        });
+    });
+
+    describe("JobSecrets", () => {
+        const secrets = new JobSecrets(Buffer.alloc(32, 7));
+
+        it("splits credentials off the payload and restores them", () => {
+            const payload = {
+                template_url: "https://templates.example.com/offer.docx",
+                template_auth: { bearer_token: "token-123" },
+                output_format: "pdf",
+                data: { name: "Ada" },
+                options: { strict: true, protection: { user_password: "secret-456" } },
+            };
+
+            const sealed = secrets.seal(payload);
+            expect(JSON.stringify(sealed)).not.toContain("token-123");
+            expect(JSON.stringify(sealed)).not.toContain("secret-456");
+            expect(sealed.payload).toEqual({
+                template_url: payload.template_url,
+                output_format: "pdf",
+                data: { name: "Ada" },
+                options: { strict: true },
+            });
+            expect(secrets.open(sealed.payload, sealed.secrets)).toEqual(payload);
+        });
+
+        it("leaves payloads without credentials alone", () => {
+            const payload = { template: webTemplate, output_format: "html", data: {} };
+            expect(secrets.seal(payload)).toEqual({ payload });
+        });
+
+        it("fails for credentials encrypted with another key", () => {
+            const sealed = secrets.seal({ template_auth: { bearer_token: "token-123" } });
+            expect(() => new JobSecrets(Buffer.alloc(32, 8)).open(sealed.payload, sealed.secrets))
+                .toThrow("Job credentials could not be decrypted");
+        });
+    });
+
+    describe("Job routes", () => {
+        let server: FastifyInstance;
+        let routeDir: string;
+
+        beforeAll(async () => {
+            routeDir = await mkdtemp(join(tmpdir(), "velocidoc-job-routes-"));
+            server = Fastify();
+            server.setValidatorCompiler(validatorCompiler);
+            server.setSerializerCompiler(serializerCompiler);
+            await server.register(jobRoutes, { prefix: "/v1", store: new LocalJobStore(routeDir) });
+        });
+
+        afterAll(async () => {
+            await server.close();
+            await rm(routeDir, { recursive: true, force: true });
+        });
+
+        const waitForJob = async (id: string) => {
+            for (let i = 0; i < 100; i++) {
+                const body = (await server.inject({ method: "GET", url: `/v1/jobs/${id}` })).json();
+                if (body.status === "completed" || body.status === "failed") return body;
+                await Bun.sleep(20);
+            }
+            throw new Error("Job did not finish");
+        };
+
+        it("queues a job and serves its result", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/jobs",
+                payload: { template: webTemplate, output_format: "html", data: { name: "Grace" } },
+            });
+
+            expect(response.statusCode).toBe(202);
+            const { id, status, status_url } = response.json();
+            expect(status).toBe("queued");
+            expect(response.headers.location).toBe(`/v1/jobs/${id}`);
+            expect(status_url).toBe(`/v1/jobs/${id}`);
+
+            const job = await waitForJob(id);
+            expect(job.status).toBe("completed");
+            expect(job.result_url).toEndWith(`/v1/jobs/${id}/result`);
+            expect(job.result.filename).toBe("greeting.html");
+
+            const result = await server.inject({ method: "GET", url: `/v1/jobs/${id}/result` });
+            expect(result.statusCode).toBe(200);
+            expect(result.headers["content-type"]).toContain("text/html");
+            expect(result.body).toBe("<p>Hello Grace</p>");
+        });
+
+        it("reports failed jobs with the same error body as /v1/generate", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/jobs",
+                payload: { template_id: "does-not-exist.docx", output_format: "pdf", data: {} },
+            });
+            const job = await waitForJob(response.json().id);
+
+            expect(job.status).toBe("failed");
+            expect(job.error.error).toBe("Template not found");
+            expect(job.error.code).toBe("TEMPLATE_NOT_FOUND");
+
+            const result = await server.inject({ method: "GET", url: `/v1/jobs/${job.id}/result` });
+            expect(result.statusCode).toBe(409);
+            expect(result.json()).toMatchObject({
+                code: "JOB_NOT_READY",
+                status: "failed",
+                job_error: { code: "TEMPLATE_NOT_FOUND" },
+            });
+        });
+
+        it("refuses callback URLs to private or metadata addresses", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/jobs",
+                payload: {
+                    template: webTemplate,
+                    output_format: "html",
+                    data: {},
+                    callback_url: "http://169.254.169.254/latest/meta-data/",
+                },
+            });
+
+            expect(response.statusCode).toBe(403);
+            expect(response.json().code).toBe("URL_NOT_ALLOWED");
+        });
+
+        it("doesn't write template credentials to the job store", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/jobs",
+                payload: {
+                    template_url: "https://templates.invalid/offer.docx",
+                    template_auth: { bearer_token: "token-789" },
+                    output_format: "pdf",
+                    data: {},
+                },
+            });
+
+            expect(response.statusCode).toBe(202);
+            const { id } = response.json();
+            expect(await readFile(join(routeDir, `${id}.json`), "utf8")).not.toContain("token-789");
+            await waitForJob(id);
+        });
+
+        it("returns 400 for an invalid callback_url", async () => {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/jobs",
+                payload: { template: webTemplate, output_format: "html", data: {}, callback_url: "not a url" },
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it("returns 404 for unknown jobs", async () => {
+            const response = await server.inject({ method: "GET", url: `/v1/jobs/${randomUUID()}` });
+            expect(response.statusCode).toBe(404);
+            expect(response.json().code).toBe("JOB_NOT_FOUND");
+        });
+    });
+});
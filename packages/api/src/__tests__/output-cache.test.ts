@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { OutputCache, OutputCacheOptions, fingerprint } from "../services/output-cache.ts";
+import type { GeneratedDocument } from "../services/generator.ts";
+import { IdempotencyKeyReusedError } from "../errors.ts";
+
+const silentLog = { info() {}, warn() {}, error() {}, child() { return silentLog; } };
+
+function pdf(content: string): GeneratedDocument {
+    return { buffer: Buffer.from(content), contentType: "application/pdf", extension: "pdf", warnings: [] };
+}
+
+describe("OutputCache", () => {
+    let dir: string;
+
+    const createCache = (options: Partial<OutputCacheOptions> = {}) => new OutputCache({
+        dir,
+        outputTtlMs: 60_000,
+        idempotencyTtlMs: 60_000,
+        maxBytes: 1024 * 1024,
+        ...options,
+    });
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "velocidoc-cache-"));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    describe("idempotent", () => {
+        it("replays the stored document for a repeated key", async () => {
+            const cache = createCache();
+            let renders = 0;
+            const produce = async () => pdf(`render ${++renders}`);
+
+            const first = await cache.idempotent("tenant1", "key-1", { data: { a: 1 } }, produce, silentLog);
+            const second = await cache.idempotent("tenant1", "key-1", { data: { a: 1 } }, produce, silentLog);
+
+            expect(first.replayed).toBe(false);
+            expect(second.replayed).toBe(true);
+            expect(second.document.buffer.toString()).toBe("render 1");
+            expect(second.document.contentType).toBe("application/pdf");
+            expect(renders).toBe(1);
+        });
+
+        it("lets a retry wait for the attempt still in flight", async () => {
+            const cache = createCache();
+            let renders = 0;
+            const produce = async () => {
+                renders++;
+                await Bun.sleep(20);
+                return pdf("slow");
+            };
+
+            const [first, retry] = await Promise.all([
+                cache.idempotent("tenant1", "key-1", {}, produce, silentLog),
+                cache.idempotent("tenant1", "key-1", {}, produce, silentLog),
+            ]);
+
+            expect(renders).toBe(1);
+            expect(first.replayed).toBe(false);
+            expect(retry.replayed).toBe(true);
+            expect(retry.document.buffer.toString()).toBe("slow");
+        });
+
+        it("rejects a key reused with a different request", async () => {
+            const cache = createCache();
+            await cache.idempotent("tenant1", "key-1", { data: { a: 1 } }, async () => pdf("a"), silentLog);
+
+            await expect(cache.idempotent("tenant1", "key-1", { data: { a: 2 } }, async () => pdf("b"), silentLog))
+                .rejects.toBeInstanceOf(IdempotencyKeyReusedError);
+        });
+
+        it("scopes keys to the tenant", async () => {
+            const cache = createCache();
+            await cache.idempotent("tenant1", "key-1", {}, async () => pdf("one"), silentLog);
+            const other = await cache.idempotent("tenant2", "key-1", {}, async () => pdf("two"), silentLog);
+
+            expect(other.replayed).toBe(false);
+            expect(other.document.buffer.toString()).toBe("two");
+        });
+
+        it("doesn't store failures, so a retry renders again", async () => {
+            const cache = createCache();
+            await expect(cache.idempotent("tenant1", "key-1", {}, async () => { throw new Error("Gotenberg down"); }, silentLog))
+                .rejects.toThrow("Gotenberg down");
+
+            const retry = await cache.idempotent("tenant1", "key-1", {}, async () => pdf("ok"), silentLog);
+            expect(retry.replayed).toBe(false);
+        });
+    });
+
+    describe("outputs", () => {
+        const template = { buffer: Buffer.from("<p>{{name}}</p>"), name: "letter.html", engine: "web" as const };
+
+        it("keys outputs by template bytes, data and options", () => {
+            const cache = createCache();
+            const key = cache.outputKey(template, { name: "Ada" }, { outputFormat: "pdf" });
+
+            expect(cache.outputKey({ ...template }, { name: "Ada" }, { outputFormat: "pdf" })).toBe(key);
+            expect(cache.outputKey({ ...template, buffer: Buffer.from("<p>{{ name }}</p>") }, { name: "Ada" }, { outputFormat: "pdf" })).not.toBe(key);
+            expect(cache.outputKey(template, { name: "Bob" }, { outputFormat: "pdf" })).not.toBe(key);
+            expect(cache.outputKey(template, { name: "Ada" }, { outputFormat: "html" })).not.toBe(key);
+        });
+
+        it("returns identical bytes until the entry expires", async () => {
+            const cache = createCache({ outputTtlMs: 30 });
+            await cache.putOutput("output:a", pdf("cached"));
+
+            expect((await cache.getOutput("output:a"))!.buffer.toString()).toBe("cached");
+            await Bun.sleep(40);
+            expect(await cache.getOutput("output:a")).toBeNull();
+            expect(await readdir(dir)).toEqual([]);
+        });
+
+        it("stores nothing when output caching is disabled", async () => {
+            const cache = createCache({ outputTtlMs: 0 });
+            await cache.putOutput("output:a", pdf("cached"));
+
+            expect(cache.outputCachingEnabled).toBe(false);
+            expect(await cache.getOutput("output:a")).toBeNull();
+        });
+
+        it("evicts the least recently used entries beyond the size bound", async () => {
+            const cache = createCache({ maxBytes: 25 });
+            await cache.putOutput("output:a", pdf("a".repeat(10)));
+            await Bun.sleep(10);
+            await cache.putOutput("output:b", pdf("b".repeat(10)));
+            await Bun.sleep(10);
+            await cache.getOutput("output:a");
+            await Bun.sleep(10);
+            await cache.putOutput("output:c", pdf("c".repeat(10)));
+            await cache.onIdle();
+
+            expect(await cache.getOutput("output:a")).not.toBeNull();
+            expect(await cache.getOutput("output:b")).toBeNull();
+            expect(await cache.getOutput("output:c")).not.toBeNull();
+        });
+
+        it("prunes in the background every so many writes", async () => {
+            const cache = createCache({ outputTtlMs: 1, pruneEveryWrites: 3 });
+            await cache.putOutput("output:a", pdf("a"));
+            await cache.putOutput("output:b", pdf("b"));
+            await Bun.sleep(5);
+
+            // Expired, but not pruned yet
+            expect(await readdir(dir)).toHaveLength(4);
+
+            await cache.putOutput("output:c", pdf("c"));
+            await cache.onIdle();
+            expect((await readdir(dir)).length).toBeLessThanOrEqual(2);
+        });
+    });
+
+    describe("fingerprint", () => {
+        it("ignores key order and hashes buffers by content", () => {
+            expect(fingerprint({ a: 1, b: { c: [1, 2] } })).toBe(fingerprint({ b: { c: [1, 2] }, a: 1 }));
+            expect(fingerprint({ file: Buffer.from("x") })).toBe(fingerprint({ file: Buffer.from("x") }));
+            expect(fingerprint({ file: Buffer.from("x") })).not.toBe(fingerprint({ file: Buffer.from("y") }));
+        });
+    });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from "bun:test";
+import { PDFDocument, PDFName, PDFDict, PDFRawStream, PDFHexString } from "pdf-lib";
+import { PDFiumLibrary } from "@hyzyla/pdfium";
+import { PdfService, isStandardFontText } from "../services/pdf.ts";
+
+async function createPdf(pageCount: number): Promise<Buffer> {
+    const doc = await PDFDocument.create();
+    for (let i = 0; i < pageCount; i++) {
+        doc.addPage([595, 842]);
+    }
+    return Buffer.from(await doc.save());
+}
+
+describe("PdfService", () => {
+    const service = new PdfService();
+
+    describe("addWatermark", () => {
+        const watermark = { text: "DRAFT", opacity: 0.3, rotation: 45, font_size: 72, color: "#808080" };
+
+        it("stamps every page with a translucent font resource", async () => {
+            const result = await service.addWatermark(await createPdf(3), watermark);
+            const doc = await PDFDocument.load(result);
+
+            expect(doc.getPageCount()).toBe(3);
+            for (const page of doc.getPages()) {
+                const resources = page.node.Resources()!;
+                const fonts = resources.lookup(PDFName.of("Font"), PDFDict);
+                const states = resources.lookup(PDFName.of("ExtGState"), PDFDict);
+
+                expect(fonts.keys().length).toBeGreaterThan(0);
+                const state = states.lookup(states.keys()[0], PDFDict);
+                expect(state.get(PDFName.of("ca"))!.toString()).toBe("0.3");
+            }
+        });
+
+        it("draws any text isStandardFontText accepts", async () => {
+            const text = "Entwurf – Café «ÀÉÎ» „€ 5“ Œuvre™";
+            expect(isStandardFontText(text)).toBe(true);
+            expect(isStandardFontText("草稿")).toBe(false);
+            expect(isStandardFontText("Черновик")).toBe(false);
+
+            await expect(service.addWatermark(await createPdf(1), { ...watermark, text })).resolves.toBeInstanceOf(Buffer);
+        });
+
+        it("rejects input that is not a PDF", async () => {
+            await expect(
+                service.addWatermark(Buffer.from("not a pdf"), watermark)
+            ).rejects.toThrow();
+        });
+    });
+
+    describe("setMetadata", () => {
+        it("writes standard and custom Info entries", async () => {
+            const result = await service.setMetadata(await createPdf(1), {
+                title: "Invoice 42",
+                author: "Finance",
+                subject: "Monthly invoice",
+                keywords: "invoice, 2024",
+                case_id: "C-1",
+            });
+            const doc = await PDFDocument.load(result);
+
+            expect(doc.getTitle()).toBe("Invoice 42");
+            expect(doc.getAuthor()).toBe("Finance");
+            expect(doc.getSubject()).toBe("Monthly invoice");
+            expect(doc.getKeywords()).toBe("invoice 2024");
+
+            const info = doc.context.lookup(doc.context.trailerInfo.Info, PDFDict);
+            expect(info.lookup(PDFName.of("case_id"), PDFHexString).decodeText()).toBe("C-1");
+        });
+
+        it("embeds matching XMP metadata", async () => {
+            const result = await service.setMetadata(await createPdf(1), {
+                title: "Café & Co",
+                "Case ID": "C-1",
+            });
+            const doc = await PDFDocument.load(result);
+
+            const stream = doc.catalog.lookup(PDFName.of("Metadata")) as PDFRawStream;
+            const xmp = new TextDecoder().decode(stream.getContents());
+            expect(xmp).toContain('<rdf:li xml:lang="x-default">Café &amp; Co</rdf:li>');
+            expect(xmp).toContain("<pdfx:Case_ID>C-1</pdfx:Case_ID>");
+        });
+
+        it("keeps the PDF/A and PDF/UA identification", async () => {
+            const doc = await PDFDocument.load(await createPdf(1));
+            // LibreOffice writes the identification as attributes
+            const xmp = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">`
+                + `<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/" pdfaid:part="3" pdfaid:conformance="B"/>`
+                + `<rdf:Description rdf:about="" xmlns:pdfuaid="http://www.aiim.org/pdfua/ns/id/" pdfuaid:part="1"/>`
+                + `</rdf:RDF></x:xmpmeta>`;
+            doc.catalog.set(PDFName.of("Metadata"), doc.context.register(doc.context.flateStream(xmp)));
+            const archival = Buffer.from(await doc.save());
+
+            expect(await service.getConformance(archival)).toEqual({ pdfa: "PDF/A-3b", pdfua: true });
+
+            const result = await service.setMetadata(archival, { title: "Invoice" });
+            expect(await service.getConformance(result)).toEqual({ pdfa: "PDF/A-3b", pdfua: true });
+
+            const stream = (await PDFDocument.load(result)).catalog.lookup(PDFName.of("Metadata")) as PDFRawStream;
+            expect(new TextDecoder().decode(stream.getContents())).toContain("<pdfaSchema:prefix>pdfuaid</pdfaSchema:prefix>");
+        });
+
+        it("reports no conformance for plain PDFs", async () => {
+            expect(await service.getConformance(await createPdf(1))).toEqual({ pdfua: false });
+        });
+    });
+
+    describe("encrypt", () => {
+        const permissionsOf = async (pdf: Buffer) => {
+            const doc = await PDFDocument.load(pdf, { ignoreEncryption: true });
+            const encrypt = doc.context.lookup(doc.context.trailerInfo.Encrypt, PDFDict);
+            return Number(encrypt.get(PDFName.of("P"))!.toString());
+        };
+
+        it("requires the user password to open the document", async () => {
+            const result = await service.encrypt(await createPdf(2), {
+                userPassword: "open-sesame",
+                permissions: { printing: true, copying: true, editing: true },
+            });
+
+            const pdfium = await PDFiumLibrary.init();
+            try {
+                await expect(pdfium.loadDocument(result)).rejects.toThrow();
+                await expect(pdfium.loadDocument(result, "wrong")).rejects.toThrow();
+
+                const doc = await pdfium.loadDocument(result, "open-sesame");
+                expect(doc.getPageCount()).toBe(2);
+                doc.destroy();
+            } finally {
+                pdfium.destroy();
+            }
+        });
+
+        it("clears the permission bits for denied actions", async () => {
+            const result = await service.encrypt(await createPdf(1), {
+                ownerPassword: "owner",
+                permissions: { printing: false, copying: false, editing: true },
+            });
+
+            // ISO 32000 table 22: bit 3 print, bit 4 modify, bit 5 copy
+            const p = await permissionsOf(result);
+            expect(p & 4).toBe(0);
+            expect(p & 16).toBe(0);
+            expect(p & 8).toBe(8);
+        });
+    });
+
+    describe("merge", () => {
+        it("concatenates pages in order", async () => {
+            const result = await service.merge([await createPdf(2), await createPdf(1), await createPdf(3)]);
+            const doc = await PDFDocument.load(result);
+
+            expect(doc.getPageCount()).toBe(6);
+            expect(doc.catalog.get(PDFName.of("Outlines"))).toBeUndefined();
+        });
+
+        it("adds a bookmark at the first page of each source", async () => {
+            const result = await service.merge([await createPdf(2), await createPdf(1)], ["Cover", "Annex – A"]);
+            const doc = await PDFDocument.load(result);
+            const outlines = doc.catalog.lookup(PDFName.of("Outlines"), PDFDict);
+            const first = outlines.lookup(PDFName.of("First"), PDFDict);
+            const last = outlines.lookup(PDFName.of("Last"), PDFDict);
+
+            expect(outlines.get(PDFName.of("Count"))!.toString()).toBe("2");
+            expect(first.lookup(PDFName.of("Title"), PDFHexString).decodeText()).toBe("Cover");
+            expect(last.lookup(PDFName.of("Title"), PDFHexString).decodeText()).toBe("Annex – A");
+            expect(doc.catalog.get(PDFName.of("PageMode"))).toBe(PDFName.of("UseOutlines"));
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "bun:test";
+import { PDFDocument, rgb } from "pdf-lib";
+import JSZip from "jszip";
+import sharp from "sharp";
+import { previewService, parsePageRange } from "../services/preview.ts";
+import { InvalidPageRangeError } from "../errors.ts";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+async function createPdf(pages: number): Promise<Buffer> {
+    const doc = await PDFDocument.create();
+    for (let i = 0; i < pages; i++) {
+        const page = doc.addPage([595, 842]);
+        // Red square in the bottom-left corner
+        page.drawRectangle({ x: 0, y: 0, width: 100, height: 100, color: rgb(1, 0, 0) });
+    }
+    return Buffer.from(await doc.save());
+}
+
+describe("PreviewService", () => {
+    describe("parsePageRange", () => {
+        it("expands ranges in page order without duplicates", () => {
+            expect(parsePageRange("5, 1-3,2", 5)).toEqual([1, 2, 3, 5]);
+        });
+
+        it("rejects malformed and out-of-range selections", () => {
+            expect(() => parsePageRange("0", 3)).toThrow(InvalidPageRangeError);
+            expect(() => parsePageRange("3-1", 3)).toThrow(InvalidPageRangeError);
+            expect(() => parsePageRange("1,a", 3)).toThrow(InvalidPageRangeError);
+            expect(() => parsePageRange("2-4", 3)).toThrow("Page 4 is out of range (document has 3 pages)");
+        });
+    });
+
+    describe("render", () => {
+        it("renders the first page to PNG at the requested DPI", async () => {
+            const { buffer, format } = await previewService.render(await createPdf(2), { dpi: 72 });
+
+            expect(format).toBe("png");
+            expect(buffer.subarray(0, 8)).toEqual(PNG_SIGNATURE);
+
+            const { data, info } = await sharp(buffer).raw().toBuffer({ resolveWithObject: true });
+            expect(info.width).toBe(595);
+            expect(info.height).toBe(842);
+
+            const bottomLeft = ((info.height - 10) * info.width + 10) * info.channels;
+            expect([...data.subarray(bottomLeft, bottomLeft + 3)]).toEqual([255, 0, 0]);
+        });
+
+        it("rejects pages with more pixels than the limit at the requested DPI", async () => {
+            // A 2 × 2 m poster: over 500 megapixels at 300 DPI
+            const doc = await PDFDocument.create();
+            doc.addPage([595, 842]);
+            doc.addPage([5669, 5669]);
+            const pdf = Buffer.from(await doc.save());
+
+            const error = await previewService.render(pdf, { pages: "1-2", dpi: 300 }).catch(e => e);
+            expect(error).toBeInstanceOf(InvalidPageRangeError);
+            expect(error.statusCode).toBe(400);
+            expect(error.message).toBe("Page 2 is too large to preview at 300 DPI: 23621 × 23621 pixels (max 40 megapixels)");
+
+            // Fine at a lower resolution
+            const { format } = await previewService.render(pdf, { pages: "2", dpi: 24 });
+            expect(format).toBe("png");
+        });
+
+        it("returns a ZIP for several pages", async () => {
+            const { buffer, format } = await previewService.render(await createPdf(3), { pages: "1,3", dpi: 36 });
+
+            expect(format).toBe("zip");
+            const zip = await JSZip.loadAsync(buffer);
+            expect(Object.keys(zip.files)).toEqual(["page-1.png", "page-3.png"]);
+        });
+    });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "bun:test";
+import JSZip from "jszip";
+import { toSafeHtml, extractRichText, insertRichText } from "../services/richtext.ts";
+
+const W_NAMESPACE = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+/**
+ * A minimal DOCX whose body is the given paragraphs
+ */
+async function docx(body: string): Promise<Buffer> {
+    const zip = new JSZip();
+    zip.file("[Content_Types].xml", `<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`);
+    zip.file("word/document.xml", `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${W_NAMESPACE}"><w:body>${body}</w:body></w:document>`);
+    return Buffer.from(await zip.generateAsync({ type: "nodebuffer" }));
+}
+
+/**
+ * Render rich values into a document the way DocxService does, with the
+ * tokens placed where docx-templates would have written them
+ */
+async function render(body: (tokens: Record<string, string>) => string, data: Record<string, any>, schemaMap = {}) {
+    const { data: tokens, fragments } = extractRichText(data, schemaMap);
+    const zip = await JSZip.loadAsync(await insertRichText(await docx(body(tokens)), fragments));
+    const read = (path: string) => zip.file(path)?.async("text");
+    return { document: (await read("word/document.xml"))!, read };
+}
+
+describe("toSafeHtml", () => {
+    it("removes scripts, event handlers and unsafe links", () => {
+        const html = toSafeHtml(`<p onclick="steal()">Hi<script>alert(1)</script> <a href="javascript:alert(1)">x</a> <img src="a.png"></p>`, "html");
+
+        expect(html).toBe("<p>Hi <a>x</a> </p>");
+    });
+
+    it("converts markdown, keeping only allowed markup", () => {
+        const html = toSafeHtml("# Terms\n\n**Net** 30 <iframe src=\"https://evil.test\"></iframe>", "markdown");
+
+        expect(html).toContain("<h1>Terms</h1>");
+        expect(html).toContain("<strong>Net</strong> 30");
+        expect(html).not.toContain("iframe");
+    });
+});
+
+describe("extractRichText", () => {
+    it("replaces { $markdown } / { $html } values and schema_map typed strings with tokens", () => {
+        const { data, fragments } = extractRichText(
+            { notes: "**a**", terms: { $html: "<b>b</b>" }, items: [{ $markdown: "c" }, "d"], name: "**plain**", logo: { data: "x" } },
+            { notes: { type: "markdown" } },
+        );
+
+        expect(fragments.size).toBe(3);
+        expect([data.notes, data.terms, data.items[0]].every(token => fragments.has(token))).toBe(true);
+        expect(data.items[1]).toBe("d");
+        expect(data.name).toBe("**plain**");
+        expect(data.logo).toEqual({ data: "x" });
+    });
+
+    it("leaves { markdown } / { html } objects without the marker as data", () => {
+        const data = { notes: { html: "<b>b</b>" }, summary: { markdown: "**c**" } };
+
+        const extracted = extractRichText(data);
+        expect(extracted.fragments.size).toBe(0);
+        expect(extracted.data).toEqual(data);
+    });
+});
+
+describe("insertRichText", () => {
+    it("replaces a placeholder paragraph with headings, paragraphs, lists and tables", async () => {
+        const markdown = "## Scope\n\nWork **as agreed**, see [terms](https://example.com/terms?a=1&b=2).\n\n1. Design\n2. Build\n\n| Item | Price |\n|---|---|\n| Audit | 100 |\n";
+        const { document, read } = await render(
+            tokens => `<w:p><w:pPr><w:jc w:val="both"/></w:pPr><w:r><w:rPr><w:sz w:val="20"/></w:rPr><w:t>${tokens.notes}</w:t></w:r></w:p>`,
+            { notes: markdown },
+            { notes: { type: "markdown" } },
+        );
+
+        expect(document).toContain(`<w:p><w:pPr><w:pStyle w:val="Heading2"/></w:pPr><w:r><w:t xml:space="preserve">Scope</w:t></w:r></w:p>`);
+        // Body paragraphs keep the placeholder's alignment and font size
+        expect(document).toContain(`<w:p><w:pPr><w:jc w:val="both"/></w:pPr><w:r><w:rPr><w:sz w:val="20"/></w:rPr><w:t xml:space="preserve">Work </w:t></w:r>`);
+        expect(document).toContain(`<w:rPr><w:b/><w:bCs/><w:sz w:val="20"/></w:rPr><w:t xml:space="preserve">as agreed</w:t>`);
+        expect(document).toMatch(/<w:hyperlink r:id="(\w+)" w:history="1"><w:r><w:rPr><w:color w:val="0563C1"\/><w:sz w:val="20"\/><w:u w:val="single"\/><\/w:rPr><w:t xml:space="preserve">terms<\/w:t>/);
+        expect(document).toContain(`xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"`);
+        expect(document.match(/<w:numId w:val="1"\/>/g)).toHaveLength(2);
+        expect(document).toContain(`<w:tblGrid><w:gridCol w:w="4500"/><w:gridCol w:w="4500"/></w:tblGrid><w:tr><w:trPr><w:tblHeader/></w:trPr>`);
+
+        expect(await read("word/_rels/document.xml.rels")).toContain(`Target="https://example.com/terms?a=1&amp;b=2" TargetMode="External"`);
+        expect(await read("word/numbering.xml")).toContain(`<w:num w:numId="1"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`);
+        expect(await read("word/styles.xml")).toContain(`w:styleId="Heading2"`);
+        expect(await read("[Content_Types].xml")).toContain(`PartName="/word/numbering.xml"`);
+    });
+
+    it("renders a placeholder within other text as runs", async () => {
+        const { document } = await render(
+            tokens => `<w:p><w:r><w:rPr><w:i/></w:rPr><w:t>Note: ${tokens.note} (end)</w:t></w:r></w:p>`,
+            { note: { $html: "<p>Hi <b>there</b></p><ul><li>one</li></ul>" } },
+        );
+
+        expect(document).toContain(
+            `<w:t xml:space="preserve">Note: </w:t></w:r><w:r><w:rPr><w:i/></w:rPr><w:t xml:space="preserve">Hi </w:t></w:r>`
+            + `<w:r><w:rPr><w:b/><w:bCs/><w:i/></w:rPr><w:t xml:space="preserve">there</w:t></w:r><w:r><w:br/></w:r>`
+            + `<w:r><w:rPr><w:i/></w:rPr><w:t xml:space="preserve">• </w:t></w:r><w:r><w:rPr><w:i/></w:rPr><w:t xml:space="preserve">one</w:t></w:r>`
+            + `<w:r><w:rPr><w:i/></w:rPr><w:t xml:space="preserve"> (end)</w:t></w:r>`,
+        );
+        expect(document).not.toContain("<w:numPr>");
+    });
+
+    it("renders a plain { html } object read as {{notes.html}} as text, unchanged", async () => {
+        const { document } = await render(
+            tokens => `<w:p><w:r><w:t>${Bun.escapeHTML((tokens.notes as any).html)}</w:t></w:r></w:p>`,
+            { notes: { html: "<b>Net</b> 30" } },
+        );
+
+        expect(document).toContain("<w:t>&lt;b&gt;Net&lt;/b&gt; 30</w:t>");
+        expect(document).not.toContain("<w:b/>");
+    });
+
+    it("ends a table cell with a paragraph after a table", async () => {
+        const { document } = await render(
+            tokens => `<w:tbl><w:tr><w:tc><w:p><w:r><w:t>${tokens.cell}</w:t></w:r></w:p>\n</w:tc></w:tr></w:tbl>`,
+            { cell: { $html: "<table><tr><td>a</td></tr></table>" } },
+        );
+
+        expect(document).toContain("</w:tbl><w:p/>\n</w:tc>");
+    });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import forge from "node-forge";
+import { PDFDocument, PDFName, PDFArray, PDFDict } from "pdf-lib";
+import { SigningService } from "../services/signing.ts";
+import { CertificateNotFoundError, InvalidPageRangeError, SigningError } from "../errors.ts";
+
+const SIGNING_CERTIFICATE_V2 = "1.2.840.113549.1.9.16.2.47";
+
+async function createPdf(pageCount: number): Promise<Buffer> {
+    const doc = await PDFDocument.create();
+    for (let i = 0; i < pageCount; i++) {
+        doc.addPage([595, 842]);
+    }
+    return Buffer.from(await doc.save());
+}
+
+/**
+ * Self-signed certificate packed as PKCS#12, like one a tenant would provision
+ */
+function createP12(passphrase: string): { p12: Buffer; certificate: forge.pki.Certificate } {
+    const keys = forge.pki.rsa.generateKeyPair(2048);
+    const certificate = forge.pki.createCertificate();
+    certificate.publicKey = keys.publicKey;
+    certificate.serialNumber = "01";
+    certificate.validity.notBefore = new Date();
+    certificate.validity.notAfter = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const subject = [{ name: "commonName", value: "Acme Signing" }, { name: "organizationName", value: "Acme" }];
+    certificate.setSubject(subject);
+    certificate.setIssuer(subject);
+    certificate.sign(keys.privateKey, forge.md.sha256.create());
+
+    const asn1 = forge.pkcs12.toPkcs12Asn1(keys.privateKey, [certificate], passphrase, { algorithm: "3des" });
+    return { p12: Buffer.from(forge.asn1.toDer(asn1).getBytes(), "binary"), certificate };
+}
+
+/**
+ * Split a signed PDF into the signed byte ranges and the CMS blob
+ */
+function extractSignature(pdf: Buffer) {
+    const text = pdf.toString("latin1");
+    const byteRange = text.match(/\/ByteRange \[(\d+) (\d+) (\d+) (\d+)\]/)!.slice(1).map(Number);
+    const signed = Buffer.concat([
+        pdf.subarray(byteRange[0], byteRange[0] + byteRange[1]),
+        pdf.subarray(byteRange[2], byteRange[2] + byteRange[3]),
+    ]);
+    // /Contents is zero-padded; cut it to the length in the CMS SEQUENCE header
+    const contents = Buffer.from(pdf.subarray(byteRange[1] + 1, byteRange[2] - 1).toString("latin1"), "hex");
+    const lengthBytes = contents[1] & 0x7f;
+    const length = 2 + lengthBytes + contents.subarray(2, 2 + lengthBytes).reduce((n, byte) => n * 256 + byte, 0);
+    return { text, byteRange, signed, cms: forge.asn1.fromDer(contents.subarray(0, length).toString("binary")) };
+}
+
+describe("SigningService", () => {
+    let certsDir: string;
+    let certificate: forge.pki.Certificate;
+    let service: SigningService;
+
+    beforeAll(async () => {
+        certsDir = await mkdtemp(path.join(tmpdir(), "velocidoc-certs-"));
+        const created = createP12("s3cret");
+        certificate = created.certificate;
+
+        await mkdir(path.join(certsDir, "tenant1"));
+        await writeFile(path.join(certsDir, "tenant1", "company.p12"), created.p12);
+        await writeFile(path.join(certsDir, "tenant1", "company.json"), JSON.stringify({ passphrase: "s3cret" }));
+        // Same file without its passphrase sidecar
+        await writeFile(path.join(certsDir, "tenant1", "locked.p12"), created.p12);
+
+        service = new SigningService(certsDir);
+    });
+
+    afterAll(async () => {
+        await rm(certsDir, { recursive: true, force: true });
+    });
+
+    it("produces a PAdES signature covering the whole file except /Contents", async () => {
+        const signed = await service.sign(await createPdf(2), {
+            tenantId: "tenant1",
+            certificate: "company",
+            reason: "Approved",
+            location: "Berlin",
+        });
+        const { text, byteRange, signed: content, cms } = extractSignature(signed);
+
+        expect(text).toContain("/SubFilter /ETSI.CAdES.detached");
+        expect(text).toContain("/Reason (Approved)");
+        expect(text).toContain("/Name (Acme Signing)");
+        expect(byteRange[0]).toBe(0);
+        expect(byteRange[2] + byteRange[3]).toBe(signed.length);
+
+        // ContentInfo -> [0] -> SignedData -> signerInfos -> SignerInfo
+        const signedData = (cms.value as forge.asn1.Asn1[])[1].value[0] as forge.asn1.Asn1;
+        const signedDataFields = signedData.value as forge.asn1.Asn1[];
+        const signerInfo = (signedDataFields[signedDataFields.length - 1].value as forge.asn1.Asn1[])[0];
+        const [, , , attributesTagged, , signatureValue] = signerInfo.value as forge.asn1.Asn1[];
+        const attributes = attributesTagged.value as forge.asn1.Asn1[];
+        const attributeTypes = attributes.map(attr => forge.asn1.derToOid((attr.value as forge.asn1.Asn1[])[0].value as string));
+
+        expect(attributeTypes).toContain(forge.pki.oids.contentType);
+        expect(attributeTypes).toContain(forge.pki.oids.messageDigest);
+        expect(attributeTypes).toContain(SIGNING_CERTIFICATE_V2);
+        // PAdES carries the signing time in /M, not as a CMS attribute
+        expect(attributeTypes).not.toContain(forge.pki.oids.signingTime);
+
+        const messageDigest = attributes[attributeTypes.indexOf(forge.pki.oids.messageDigest)];
+        const digest = ((messageDigest.value as forge.asn1.Asn1[])[1].value as forge.asn1.Asn1[])[0].value as string;
+        expect(forge.util.bytesToHex(digest))
+            .toBe(forge.md.sha256.create().update(content.toString("binary")).digest().toHex());
+
+        const attributesSet = forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.SET, true, attributes);
+        const attributesDigest = forge.md.sha256.create().update(forge.asn1.toDer(attributesSet).getBytes());
+        const publicKey = certificate.publicKey as forge.pki.rsa.PublicKey;
+        expect(publicKey.verify(attributesDigest.digest().getBytes(), signatureValue.value as string)).toBe(true);
+    });
+
+    it("adds a visible signature widget on the last page by default", async () => {
+        const signed = await service.sign(await createPdf(2), {
+            tenantId: "tenant1",
+            certificate: "company",
+            field: { x: 50, y: 50, width: 200, height: 60 },
+        });
+        const doc = await PDFDocument.load(signed);
+
+        const annots = doc.getPage(1).node.lookup(PDFName.of("Annots"), PDFArray);
+        const widget = annots.lookup(0, PDFDict);
+        expect(widget.get(PDFName.of("FT"))!.toString()).toBe("/Sig");
+        expect(widget.lookup(PDFName.of("Rect"), PDFArray).asArray().map(String)).toEqual(["50", "50", "250", "110"]);
+        expect(doc.getPage(0).node.get(PDFName.of("Annots"))).toBeUndefined();
+    });
+
+    it("reports a signer name the signature field can't draw", async () => {
+        const error = await service.sign(await createPdf(1), {
+            tenantId: "tenant1",
+            certificate: "company",
+            name: "山田太郎",
+            field: { x: 50, y: 50, width: 200, height: 60 },
+        }).catch(e => e);
+
+        expect(error).toBeInstanceOf(SigningError);
+        expect(error.message).toStartWith("Failed to draw the signature field: ");
+        expect(error.context.certificate).toBe("company");
+    });
+
+    it("rejects a signature field beyond the last page", async () => {
+        await expect(service.sign(await createPdf(1), {
+            tenantId: "tenant1",
+            certificate: "company",
+            field: { page: 3, x: 0, y: 0, width: 100, height: 40 },
+        })).rejects.toBeInstanceOf(InvalidPageRangeError);
+    });
+
+    it("only finds certificates of the requesting tenant", async () => {
+        await expect(service.sign(await createPdf(1), { tenantId: "tenant2", certificate: "company" }))
+            .rejects.toBeInstanceOf(CertificateNotFoundError);
+        await expect(service.sign(await createPdf(1), { tenantId: "tenant1", certificate: "../tenant1/company" }))
+            .rejects.toBeInstanceOf(CertificateNotFoundError);
+    });
+
+    it("reports a certificate that can't be opened", async () => {
+        const error = await service.sign(await createPdf(1), { tenantId: "tenant1", certificate: "locked" })
+            .catch(e => e);
+
+        expect(error).toBeInstanceOf(SigningError);
+        expect(error.code).toBe("SIGNING_FAILED");
+        expect(error.context.certificate).toBe("locked");
+    });
+});
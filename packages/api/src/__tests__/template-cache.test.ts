@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { TemplateCache, templateCache } from "../services/template-cache.ts";
+import { fetchTemplateFromUrl } from "../services/template-loader.ts";
+import { UrlPolicy } from "../services/url-policy.ts";
+
+const silentLog = { info() {}, warn() {}, error() {}, child() { return silentLog; } };
+// The stand-in origin runs on localhost, which the default policy refuses
+const localPolicy = new UrlPolicy({ schemes: ["http"], allowedHosts: [], deniedHosts: [], privateHosts: ["localhost"], maxRedirects: 0 });
+
+describe("TemplateCache", () => {
+    it("evicts the least recently used templates beyond the size bound", () => {
+        const cache = new TemplateCache({ maxAgeMs: 60_000, maxBytes: 25 });
+        cache.set("https://example.com/a.docx", Buffer.alloc(10), new Headers());
+        cache.set("https://example.com/b.docx", Buffer.alloc(10), new Headers());
+        cache.get("https://example.com/a.docx");
+        cache.set("https://example.com/c.docx", Buffer.alloc(10), new Headers());
+
+        expect(cache.get("https://example.com/a.docx")).toBeDefined();
+        expect(cache.get("https://example.com/b.docx")).toBeUndefined();
+        expect(cache.get("https://example.com/c.docx")).toBeDefined();
+    });
+
+    it("doesn't keep templates the origin marks no-store, or when disabled", () => {
+        const cache = new TemplateCache({ maxAgeMs: 60_000, maxBytes: 1024 });
+        cache.set("https://example.com/a.docx", Buffer.alloc(10), new Headers({ "Cache-Control": "private, no-store" }));
+        expect(cache.get("https://example.com/a.docx")).toBeUndefined();
+
+        const disabled = new TemplateCache({ maxAgeMs: 60_000, maxBytes: 0 });
+        disabled.set("https://example.com/a.docx", Buffer.alloc(10), new Headers());
+        expect(disabled.get("https://example.com/a.docx")).toBeUndefined();
+    });
+
+    describe("fetchTemplateFromUrl", () => {
+        let server: ReturnType<typeof Bun.serve>;
+        let content = "version 1";
+        let etag = '"v1"';
+        const requests: Array<string | null> = [];
+
+        beforeAll(() => {
+            server = Bun.serve({
+                port: 0,
+                fetch(request) {
+                    const ifNoneMatch = request.headers.get("if-none-match");
+                    requests.push(ifNoneMatch);
+                    if (ifNoneMatch === etag) {
+                        return new Response(null, { status: 304, headers: { ETag: etag } });
+                    }
+                    return new Response(content, { headers: { ETag: etag } });
+                },
+            });
+        });
+
+        afterAll(() => {
+            server.stop(true);
+        });
+
+        beforeEach(() => {
+            templateCache.clear();
+            requests.length = 0;
+            content = "version 1";
+            etag = '"v1"';
+        });
+
+        const url = () => `http://localhost:${server.port}/contract.docx`;
+
+        it("serves fresh entries without contacting the origin", async () => {
+            await fetchTemplateFromUrl(url(), silentLog, { policy: localPolicy });
+            const second = await fetchTemplateFromUrl(url(), silentLog, { policy: localPolicy });
+
+            expect(second.toString()).toBe("version 1");
+            expect(requests).toEqual([null]);
+        });
+
+        it("revalidates stale entries with the ETag", async () => {
+            await fetchTemplateFromUrl(url(), silentLog, { policy: localPolicy });
+            templateCache.get(url())!.validatedAt = 0;
+
+            const unchanged = await fetchTemplateFromUrl(url(), silentLog, { policy: localPolicy });
+            expect(unchanged.toString()).toBe("version 1");
+            expect(requests).toEqual([null, '"v1"']);
+            // The 304 makes the entry fresh again
+            await fetchTemplateFromUrl(url(), silentLog, { policy: localPolicy });
+            expect(requests).toHaveLength(2);
+        });
+
+        it("downloads the template again once it has changed", async () => {
+            await fetchTemplateFromUrl(url(), silentLog, { policy: localPolicy });
+            templateCache.get(url())!.validatedAt = 0;
+            content = "version 2";
+            etag = '"v2"';
+
+            const changed = await fetchTemplateFromUrl(url(), silentLog, { policy: localPolicy });
+            expect(changed.toString()).toBe("version 2");
+            expect(templateCache.get(url())!.etag).toBe('"v2"');
+        });
+    });
+});
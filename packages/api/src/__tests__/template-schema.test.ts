@@ -0,0 +1,103 @@
+import { describe, it, expect } from "bun:test";
+import { parseTemplateSchema, validateTemplateData } from "../services/template-schema.ts";
+import { InvalidDataError, InvalidTemplateError } from "../errors.ts";
+
+function validationErrors(schema: string, data: Record<string, any>) {
+    try {
+        validateTemplateData(parseTemplateSchema(schema, "letter.docx"), data, "letter.docx");
+        return [];
+    } catch (error) {
+        expect(error).toBeInstanceOf(InvalidDataError);
+        return (error as InvalidDataError).context.errors;
+    }
+}
+
+describe("Template schemas", () => {
+    const jsonSchema = JSON.stringify({
+        json_schema: {
+            type: "object",
+            required: ["customer"],
+            properties: {
+                customer: {
+                    type: "object",
+                    required: ["name", "email"],
+                    properties: { email: { type: "string", format: "email" } },
+                },
+                items: { type: "array", items: { type: "object", properties: { price: { type: "number" } } } },
+            },
+        },
+    });
+
+    it("accepts matching data", () => {
+        expect(validationErrors(jsonSchema, { customer: { name: "Acme", email: "billing@acme.test" } })).toEqual([]);
+    });
+
+    it("reports every failing field with its path", () => {
+        expect(validationErrors(jsonSchema, {
+            customer: { email: "not-an-email" },
+            items: [{ price: 10 }, { price: "ten" }],
+        })).toEqual([
+            { field: "customer.name", message: "is required" },
+            { field: "customer.email", message: 'must match format "email"' },
+            { field: "items[1].price", message: "must be number" },
+        ]);
+    });
+
+    it("checks schema_map field types and required fields", () => {
+        const schemaMap = JSON.stringify({
+            schema_map: {
+                "customer.logo": { type: "image", required: true },
+                items: { type: "table" },
+                total: { type: "text" },
+            },
+        });
+
+        expect(validationErrors(schemaMap, { customer: { logo: "data:image/png;base64,iVBOR" }, total: 12.5 })).toEqual([]);
+        expect(validationErrors(schemaMap, { customer: {}, items: "none", total: { value: 1 } })).toEqual([
+            { field: "customer.logo", message: "is required" },
+            { field: "items", message: "must be array" },
+            { field: "total", message: "must be string,number,boolean" },
+        ]);
+    });
+
+    it("applies json_schema and schema_map together", () => {
+        const both = JSON.stringify({
+            json_schema: { type: "object", required: ["name"] },
+            schema_map: { photo: { type: "image" } },
+        });
+
+        expect(validationErrors(both, { photo: "photo.png" })).toEqual([
+            { field: "name", message: "is required" },
+            { field: "photo", message: 'must match pattern "^(data:image/|https?://)"' },
+        ]);
+        expect(validationErrors(both, { name: "Ada", photo: { url: "https://example.com/a.png", width: 4 } })).toEqual([]);
+        expect(validationErrors(both, { name: "Ada", photo: { image_url: "https://example.com/a.png" } })).toEqual([]);
+        expect(validationErrors(both, { name: "Ada", photo: { data: "data:image/png;base64,iVBOR", fit: "cover" } })).toEqual([]);
+
+        // Uploaded files (multipart attachments) validate like the data URI they replace
+        const png = Buffer.from("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==", "base64");
+        expect(validationErrors(both, { name: "Ada", photo: png })).toEqual([]);
+        expect(validationErrors(both, { name: "Ada", photo: { data: png, width: 4 } })).toEqual([]);
+        expect(validationErrors(both, { name: "Ada", photo: Buffer.from("%PDF-1.7") })).toEqual([
+            { field: "photo", message: 'must match pattern "^(data:image/|https?://)"' },
+        ]);
+        expect(validationErrors(both, { name: "Ada", photo: { width: 4 } })).not.toEqual([]);
+    });
+
+    it("takes markdown and html fields as strings or { $markdown } / { $html }", () => {
+        const richText = JSON.stringify({ schema_map: { notes: { type: "markdown" }, terms: { type: "html" } } });
+
+        expect(validationErrors(richText, { notes: "**Paid**", terms: { $html: "<p>Net 30</p>" } })).toEqual([]);
+        expect(validationErrors(richText, { notes: { $markdown: "**Paid**" } })).toEqual([]);
+        expect(validationErrors(richText, { notes: 42 })).not.toEqual([]);
+        expect(validationErrors(richText, { terms: { $markdown: "Net 30" } })).not.toEqual([]);
+        expect(validationErrors(richText, { terms: { html: "<p>Net 30</p>" } })).not.toEqual([]);
+    });
+
+    it("rejects unusable schema files", () => {
+        expect(() => parseTemplateSchema("{", "letter.docx")).toThrow(InvalidTemplateError);
+        expect(() => parseTemplateSchema("{}", "letter.docx")).toThrow(InvalidTemplateError);
+        expect(() => parseTemplateSchema(JSON.stringify({ json_schema: { type: "nope" } }), "letter.docx"))
+            .toThrow(InvalidTemplateError);
+    });
+});
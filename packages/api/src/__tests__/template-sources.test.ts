@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { TemplateSourceService } from "../services/template-sources.ts";
+import { UrlPolicy } from "../services/url-policy.ts";
+import { fetchTemplateFromUrl } from "../services/template-loader.ts";
+import { templateCache } from "../services/template-cache.ts";
+import { RemoteFetchError, TemplateSourceError, TemplateSourceNotFoundError, UrlNotAllowedError } from "../errors.ts";
+
+const silentLog = { info() {}, warn() {}, error() {}, child() { return silentLog; } };
+// The stand-in runs on localhost, which the default policy refuses
+const localPolicy = new UrlPolicy({
+    schemes: ["http"],
+    allowedHosts: [],
+    deniedHosts: [],
+    privateHosts: ["127.0.0.1", "localhost"],
+    maxRedirects: 3,
+});
+
+describe("TemplateSourceService", () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let sourcesDir: string;
+    let service: TemplateSourceService;
+    let tokenRequests: URLSearchParams[] = [];
+    let authorizations: Array<string | null> = [];
+
+    const base = () => `http://127.0.0.1:${server.port}`;
+
+    const writeSource = async (name: string, source: unknown, tenant = "tenant1") => {
+        await mkdir(path.join(sourcesDir, tenant), { recursive: true });
+        await writeFile(path.join(sourcesDir, tenant, `${name}.json`), JSON.stringify(source));
+    };
+
+    beforeAll(() => {
+        server = Bun.serve({
+            port: 0,
+            async fetch(request) {
+                const { pathname } = new URL(request.url);
+                if (pathname === "/oauth/token") {
+                    const form = new URLSearchParams(await request.text());
+                    tokenRequests.push(form);
+                    if (form.get("client_secret") !== "s3cret") {
+                        return Response.json({ error: "invalid_client" }, { status: 401 });
+                    }
+                    return Response.json({ access_token: `token-${tokenRequests.length}`, expires_in: 3600 });
+                }
+
+                authorizations.push(request.headers.get("authorization"));
+                if (pathname === "/sites/hr/elsewhere.docx") {
+                    // Same stand-in, different origin
+                    return new Response(null, { status: 302, headers: { Location: `http://localhost:${server.port}/public.docx` } });
+                }
+                if (pathname === "/public.docx") {
+                    return new Response("public template");
+                }
+                if (!request.headers.get("authorization")) {
+                    return new Response("unauthorized", { status: 401 });
+                }
+                return new Response(`template for ${request.headers.get("authorization")}`);
+            },
+        });
+    });
+
+    afterAll(() => {
+        server.stop(true);
+    });
+
+    beforeEach(async () => {
+        sourcesDir = await mkdtemp(path.join(tmpdir(), "velocidoc-sources-"));
+        service = new TemplateSourceService(sourcesDir);
+        templateCache.clear();
+        tokenRequests = [];
+        authorizations = [];
+    });
+
+    afterEach(async () => {
+        await rm(sourcesDir, { recursive: true, force: true });
+    });
+
+    it("fetches templates with an OAuth client credentials token, reusing it until it expires", async () => {
+        await writeSource("sharepoint-hr", {
+            base_url: `${base()}/sites/hr/`,
+            auth: {
+                type: "oauth_client_credentials",
+                token_url: `${base()}/oauth/token`,
+                client_id: "velocidoc",
+                client_secret: "s3cret",
+                scope: "https://graph.microsoft.com/.default",
+            },
+        });
+
+        const url = `${base()}/sites/hr/offer.docx`;
+        const credentials = await service.credentialsFor({ template_url: url, source: "sharepoint-hr" }, "tenant1");
+        const buffer = await fetchTemplateFromUrl(url, silentLog, { policy: localPolicy, credentials });
+        await service.credentialsFor({ template_url: `${base()}/sites/hr/contract.docx`, source: "sharepoint-hr" }, "tenant1");
+
+        expect(buffer.toString()).toBe("template for Bearer token-1");
+        expect(tokenRequests).toHaveLength(1);
+        expect(tokenRequests[0].get("grant_type")).toBe("client_credentials");
+        expect(tokenRequests[0].get("scope")).toBe("https://graph.microsoft.com/.default");
+    });
+
+    it("reports rejected client credentials", async () => {
+        await writeSource("sharepoint-hr", {
+            base_url: `${base()}/sites/hr/`,
+            auth: { type: "oauth_client_credentials", token_url: `${base()}/oauth/token`, client_id: "velocidoc", client_secret: "wrong" },
+        });
+
+        await expect(service.credentialsFor({ template_url: `${base()}/sites/hr/offer.docx`, source: "sharepoint-hr" }, "tenant1"))
+            .rejects.toThrow("HTTP 401 (invalid_client)");
+    });
+
+    it("sends basic auth only to URLs under the source's base_url", async () => {
+        await writeSource("files", { base_url: `${base()}/sites/hr/`, auth: { type: "basic", username: "svc", password: "pw" } });
+
+        const credentials = await service.credentialsFor({ template_url: `${base()}/sites/hr/offer.docx`, source: "files" }, "tenant1");
+        expect(credentials!.headers.Authorization).toBe(`Basic ${Buffer.from("svc:pw").toString("base64")}`);
+
+        await expect(service.credentialsFor({ template_url: `${base()}/sites/finance/offer.docx`, source: "files" }, "tenant1"))
+            .rejects.toBeInstanceOf(UrlNotAllowedError);
+        await expect(service.credentialsFor({ template_url: `http://127.0.0.1.evil.example/sites/hr/offer.docx`, source: "files" }, "tenant1"))
+            .rejects.toBeInstanceOf(UrlNotAllowedError);
+    });
+
+    it("keeps sources per tenant and rejects invalid source files", async () => {
+        await writeSource("files", { base_url: `${base()}/` }, "tenant2");
+        await writeSource("broken", { base_url: `${base()}/`, auth: { type: "basic" } });
+
+        await expect(service.credentialsFor({ template_url: `${base()}/t.docx`, source: "files" }, "tenant1"))
+            .rejects.toBeInstanceOf(TemplateSourceNotFoundError);
+        await expect(service.credentialsFor({ template_url: `${base()}/t.docx`, source: "broken" }, "tenant1"))
+            .rejects.toBeInstanceOf(TemplateSourceError);
+    });
+
+    it("doesn't forward credentials across origins on redirect", async () => {
+        const url = `${base()}/sites/hr/elsewhere.docx`;
+        const credentials = await service.credentialsFor({ template_url: url, template_auth: { bearer_token: "abc" } }, "tenant1");
+        const buffer = await fetchTemplateFromUrl(url, silentLog, { policy: localPolicy, credentials });
+
+        expect(buffer.toString()).toBe("public template");
+        expect(authorizations).toEqual(["Bearer abc", null]);
+    });
+
+    it("doesn't serve templates fetched with credentials to other callers", async () => {
+        const url = `${base()}/sites/hr/offer.docx`;
+        const credentials = await service.credentialsFor({ template_url: url, template_auth: { headers: { Authorization: "Bearer abc" } } }, "tenant1");
+        await fetchTemplateFromUrl(url, silentLog, { policy: localPolicy, credentials });
+
+        await expect(fetchTemplateFromUrl(url, silentLog, { policy: localPolicy })).rejects.toBeInstanceOf(RemoteFetchError);
+    });
+});
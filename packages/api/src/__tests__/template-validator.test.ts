@@ -91,6 +91,8 @@ describe("Template Validator", () => {
                         <w:p><w:r><w:t>- {{this.description}}: {{this.price}}</w:t></w:r></w:p>
                         <w:p><w:r><w:t>{{END-FOR}}</w:t></w:r></w:p>
                         <w:p><w:r><w:t>{{IMAGE signature}}</w:t></w:r></w:p>
+                        <w:p><w:r><w:t>{{IMAGE codes.qr(order.payment_url, { size: 4 })}}</w:t></w:r></w:p>
+                        <w:p><w:r><w:t>Total: {{fmt.currency(order.total, 'EUR')}}</w:t></w:r></w:p>
                     </w:body>
                 </w:document>`);
 
@@ -100,6 +102,9 @@ describe("Template Validator", () => {
             expect(fields).toContain("customer_name");
             expect(fields).toContain("items");
             expect(fields).toContain("signature");
+            expect(fields).toContain("order.payment_url");
+            expect(fields).not.toContain("qr");
+            expect(fields).toContain("order.total");
             // Control keywords should not be included
             expect(fields).not.toContain("FOR");
             expect(fields).not.toContain("END-FOR");
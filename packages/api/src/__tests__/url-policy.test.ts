@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { UrlPolicy, UrlPolicyOptions, isNonPublicAddress } from "../services/url-policy.ts";
+import { fetchTemplateFromUrl } from "../services/template-loader.ts";
+import { RemoteFetchError, UrlNotAllowedError } from "../errors.ts";
+
+const silentLog = { info() {}, warn() {}, error() {}, child() { return silentLog; } };
+
+const createPolicy = (options: Partial<UrlPolicyOptions> = {}) => new UrlPolicy({
+    schemes: ["https", "http"],
+    allowedHosts: [],
+    deniedHosts: [],
+    privateHosts: [],
+    maxRedirects: 5,
+    // Public answers for made-up names, so no test depends on real DNS
+    resolve: async () => ["93.184.216.34"],
+    ...options,
+});
+
+describe("UrlPolicy", () => {
+    it("refuses loopback, private and link-local addresses", async () => {
+        const policy = createPolicy();
+        for (const url of [
+            "http://127.0.0.1/t.docx",
+            "http://169.254.169.254/latest/meta-data/",
+            "http://10.1.2.3/t.docx",
+            "http://[::1]/t.docx",
+            "http://[::ffff:169.254.169.254]/t.docx",
+            "http://2130706433/t.docx",
+        ]) {
+            await expect(policy.check(url)).rejects.toBeInstanceOf(UrlNotAllowedError);
+        }
+        await expect(policy.check("https://example.com/t.docx")).resolves.toBeDefined();
+    });
+
+    it("checks the addresses a hostname resolves to", async () => {
+        const policy = createPolicy({ resolve: async () => ["93.184.216.34", "192.168.0.10"] });
+
+        await expect(policy.check("https://intranet.example.com/t.docx")).rejects.toThrow("non-public address 192.168.0.10");
+    });
+
+    it("applies scheme, allowlist and denylist", async () => {
+        const policy = createPolicy({
+            schemes: ["https"],
+            allowedHosts: ["*.sharepoint.com", "files.example.com"],
+            deniedHosts: ["evil.sharepoint.com"],
+        });
+
+        await expect(policy.check("https://contoso.sharepoint.com/t.docx")).resolves.toBeDefined();
+        await expect(policy.check("https://files.example.com/t.docx")).resolves.toBeDefined();
+        await expect(policy.check("http://contoso.sharepoint.com/t.docx")).rejects.toThrow("Scheme 'http' is not allowed");
+        await expect(policy.check("file:///etc/passwd")).rejects.toThrow("Scheme 'file' is not allowed");
+        await expect(policy.check("https://evil.sharepoint.com/t.docx")).rejects.toThrow("is denied");
+        await expect(policy.check("https://example.com/t.docx")).rejects.toThrow("not in the allowlist");
+    });
+
+    it("reports unresolvable hosts as fetch failures", async () => {
+        const policy = createPolicy({ resolve: async () => { throw new Error("ENOTFOUND"); } });
+
+        await expect(policy.check("https://nowhere.invalid/t.docx")).rejects.toBeInstanceOf(RemoteFetchError);
+    });
+
+    it("classifies addresses", () => {
+        expect(isNonPublicAddress("100.64.0.1")).toBe(true);
+        expect(isNonPublicAddress("172.31.255.255")).toBe(true);
+        expect(isNonPublicAddress("172.32.0.1")).toBe(false);
+        expect(isNonPublicAddress("fd00::1")).toBe(true);
+        expect(isNonPublicAddress("fe80::1")).toBe(true);
+        expect(isNonPublicAddress("2606:4700::1111")).toBe(false);
+        expect(isNonPublicAddress("8.8.8.8")).toBe(false);
+    });
+
+    describe("redirects", () => {
+        let server: ReturnType<typeof Bun.serve>;
+
+        beforeAll(() => {
+            server = Bun.serve({
+                port: 0,
+                fetch(request) {
+                    const { pathname } = new URL(request.url);
+                    const redirect = (location: string) => new Response(null, { status: 302, headers: { Location: location } });
+
+                    if (pathname === "/template.docx") return new Response("template");
+                    if (pathname === "/moved") return redirect("/template.docx");
+                    if (pathname === "/metadata") return redirect("http://169.254.169.254/latest/meta-data/");
+                    if (pathname === "/loopback") return redirect(`http://localhost:${server.port}/template.docx`);
+                    if (pathname === "/loop") return redirect("/loop");
+                    return new Response("not found", { status: 404 });
+                },
+            });
+        });
+
+        afterAll(() => {
+            server.stop(true);
+        });
+
+        // Only the stand-in's own address is exempt from the private address check
+        const policy = () => createPolicy({ privateHosts: ["127.0.0.1"], maxRedirects: 3, resolve: undefined });
+        const url = (path: string) => `http://127.0.0.1:${server.port}${path}`;
+
+        it("follows allowed redirects", async () => {
+            const buffer = await fetchTemplateFromUrl(url("/moved"), silentLog, { policy: policy() });
+
+            expect(buffer.toString()).toBe("template");
+        });
+
+        it("refuses redirects to private addresses", async () => {
+            await expect(fetchTemplateFromUrl(url("/metadata"), silentLog, { policy: policy() }))
+                .rejects.toThrow("non-public address 169.254.169.254");
+            await expect(fetchTemplateFromUrl(url("/loopback"), silentLog, { policy: policy() }))
+                .rejects.toBeInstanceOf(UrlNotAllowedError);
+        });
+
+        it("caps the number of redirects", async () => {
+            await expect(fetchTemplateFromUrl(url("/loop"), silentLog, { policy: policy() }))
+                .rejects.toThrow("More than 3 redirects");
+        });
+    });
+
+    describe("Chromium URL lists", () => {
+        it("denies files, internal hosts and non-public addresses", () => {
+            const denyList = new RegExp(createPolicy({ deniedHosts: ["evil.example.com"] }).chromiumUrlLists().denyList);
+
+            for (const url of [
+                "file:///etc/passwd",
+                "http://169.254.169.254/latest/meta-data/",
+                "http://127.0.0.1:3000/",
+                "http://10.0.0.5/",
+                "https://192.168.1.1/admin",
+                "http://172.20.0.3/",
+                "http://[::1]/",
+                "http://gotenberg:3000/health",
+                "http://localhost/",
+                "http://user@2130706433/",
+                "http://metadata.google.internal/",
+                "https://evil.example.com/a.png",
+            ]) {
+                expect(denyList.test(url)).toBe(true);
+            }
+            for (const url of ["file:///tmp/abc/index.html", "https://cdn.example.com/a.png", "http://172.32.0.1/", "https://10.example.com/"]) {
+                expect(denyList.test(url)).toBe(false);
+            }
+        });
+
+        it("allows anything not denied without a host allowlist", () => {
+            expect(createPolicy().chromiumUrlLists().allowList).toBe("");
+        });
+
+        it("allows only the allowlisted hosts with one", () => {
+            const allowList = new RegExp(createPolicy({ schemes: ["https"], allowedHosts: ["cdn.example.com", "*.sharepoint.com"] }).chromiumUrlLists().allowList);
+
+            for (const url of ["file:///tmp/abc/index.html", "data:image/png;base64,AA==", "https://cdn.example.com/a.png", "https://contoso.sharepoint.com/logo.png"]) {
+                expect(allowList.test(url)).toBe(true);
+            }
+            for (const url of ["http://cdn.example.com/a.png", "https://cdn.example.com.evil.net/", "https://cdnxexample.com/", "https://example.com/"]) {
+                expect(allowList.test(url)).toBe(false);
+            }
+        });
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "bun:test";
+import { WebTemplateService, isWebTemplate } from "../services/web.ts";
+import { resolve } from "path";
+import { TemplateSyntaxError, TemplateRenderError, UnresolvedPlaceholdersError } from "../errors.ts";
+import type { UnresolvedPlaceholder } from "../services/unresolved.ts";
+
+describe("WebTemplateService", () => {
+    const templatesDir = resolve(import.meta.dir, "../../templates");
+    const service = new WebTemplateService(templatesDir);
+
+    describe("isWebTemplate", () => {
+        it("detects HTML templates by extension", () => {
+            expect(isWebTemplate("invoice.html")).toBe(true);
+            expect(isWebTemplate("INVOICE.HTM")).toBe(true);
+            expect(isWebTemplate("invoice.docx")).toBe(false);
+            expect(isWebTemplate("invoice")).toBe(false);
+        });
+    });
+
+    describe("render", () => {
+        it("renders a stored HTML template", async () => {
+            const html = await service.render("invoice.html", {
+                company_name: "Test Corp",
+                items: [{ description: "Widget", price: 10 }],
+            });
+
+            expect(html).toContain("<h1>Test Corp</h1>");
+            expect(html).toContain("<td>Widget</td>");
+        });
+
+        it("throws when template not found", async () => {
+            await expect(
+                service.render("nonexistent.html", {})
+            ).rejects.toThrow();
+        });
+    });
+
+    describe("renderFromString", () => {
+        it("escapes values by default", () => {
+            const html = service.renderFromString("<p>{{name}}</p>", { name: "<b>Acme</b>" });
+            expect(html).toBe("<p>&lt;b&gt;Acme&lt;/b&gt;</p>");
+        });
+
+        it("inserts raw HTML with triple braces", () => {
+            const html = service.renderFromString("<p>{{{name}}}</p>", { name: "<b>Acme</b>" });
+            expect(html).toBe("<p><b>Acme</b></p>");
+        });
+
+        it("reports unbalanced blocks as syntax errors", () => {
+            const render = () => service.renderFromString("<p>{{#if paid}}Paid</p>", { paid: true });
+            expect(render).toThrow(TemplateSyntaxError);
+        });
+
+        it("reports missing helpers as render errors with the placeholder", () => {
+            try {
+                service.renderFromString("<p>{{currency total}}</p>", { total: 10 });
+                throw new Error("expected render to fail");
+            } catch (error) {
+                expect(error).toBeInstanceOf(TemplateRenderError);
+                expect((error as TemplateRenderError).code).toBe("TEMPLATE_RENDER_ERROR");
+                expect((error as TemplateRenderError).context.placeholder).toBe("currency");
+            }
+        });
+    });
+
+    describe("unresolved placeholders", () => {
+        const source = "<h1>{{title}}</h1>\n{{#each items}}<li>{{label}}: {{../currency}}</li>{{/each}}{{#if notes}}{{notes}}{{/if}}";
+
+        it("collects missing values with their location", () => {
+            const unresolved: UnresolvedPlaceholder[] = [];
+            const html = service.renderFromString(source, { title: "Order", items: [{ label: "A" }, {}] }, { unresolved });
+
+            expect(html).toBe("<h1>Order</h1>\n<li>A: </li><li>: </li>");
+            // Reported once per placeholder, not per loop iteration; `{{#if notes}}` is a test, not a placeholder
+            expect(unresolved).toEqual([
+                { placeholder: "currency", reason: "missing", message: "No value for 'currency'", location: { line: 2, column: 33 } },
+                { placeholder: "label", reason: "missing", message: "No value for 'label'", location: { line: 2, column: 22 } },
+            ]);
+        });
+
+        it("treats null as a value", () => {
+            const unresolved: UnresolvedPlaceholder[] = [];
+            service.renderFromString("<p>{{title}}</p>", { title: null }, { unresolved });
+            expect(unresolved).toEqual([]);
+        });
+
+        it("fails in strict mode with every unresolved placeholder", () => {
+            try {
+                service.renderFromString(source, { items: [{}] }, { strict: true });
+                throw new Error("expected render to fail");
+            } catch (error) {
+                expect(error).toBeInstanceOf(UnresolvedPlaceholdersError);
+                expect((error as UnresolvedPlaceholdersError).statusCode).toBe(422);
+                const unresolved = (error as UnresolvedPlaceholdersError).context.unresolved as UnresolvedPlaceholder[];
+                expect(unresolved.map(u => u.placeholder)).toEqual(["title", "label", "currency"]);
+                expect(unresolved[0].location).toEqual({ line: 1, column: 7 });
+            }
+        });
+    });
+});
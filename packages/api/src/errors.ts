@@ -0,0 +1,377 @@
+/**
+ * Error taxonomy
+ *
+ * Services throw these instead of plain Errors so routes can map them to
+ * HTTP responses without inspecting messages. Every error carries a stable
+ * machine-readable `code` that clients can branch on, a fixed human-readable
+ * title, and optional context (e.g. the failing placeholder).
+ *
+ * Response body: { error: <title>, code: <CODE>, details: <message>, ...context }
+ */
+
+import type { UnresolvedPlaceholder } from "./services/unresolved.ts";
+
+export type ErrorCode =
+    | 'VALIDATION_ERROR'
+    | 'UNAUTHORIZED'
+    | 'RATE_LIMITED'
+    | 'INVALID_MULTIPART'
+    | 'TEMPLATE_NOT_FOUND'
+    | 'TEMPLATE_INVALID'
+    | 'TEMPLATE_SYNTAX_ERROR'
+    | 'TEMPLATE_RENDER_ERROR'
+    | 'INVALID_DATA'
+    | 'UNRESOLVED_PLACEHOLDERS'
+    | 'UNSUPPORTED_OUTPUT_FORMAT'
+    | 'INCOMPATIBLE_OPTIONS'
+    | 'INVALID_PAGE_RANGE'
+    | 'CONVERTER_UNAVAILABLE'
+    | 'CONVERSION_FAILED'
+    | 'PDF_STANDARD_NOT_MET'
+    | 'CERTIFICATE_NOT_FOUND'
+    | 'SIGNING_FAILED'
+    | 'REMOTE_FETCH_FAILED'
+    | 'REMOTE_FETCH_TIMEOUT'
+    | 'REMOTE_TEMPLATE_TOO_LARGE'
+    | 'URL_NOT_ALLOWED'
+    | 'TEMPLATE_SOURCE_NOT_FOUND'
+    | 'TEMPLATE_SOURCE_ERROR'
+    | 'IMAGE_FETCH_FAILED'
+    | 'INVALID_IMAGE'
+    | 'STORAGE_ERROR'
+    | 'JOB_NOT_FOUND'
+    | 'JOB_NOT_READY'
+    | 'BATCH_FAILED'
+    | 'IDEMPOTENCY_KEY_REUSED'
+    | 'INTERNAL_ERROR';
+
+export class VelocidocError extends Error {
+    constructor(
+        public readonly code: ErrorCode,
+        public readonly statusCode: number,
+        public readonly title: string,
+        message: string,
+        public readonly context: Record<string, unknown> = {},
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+
+    /**
+     * JSON error body for API responses and job records
+     */
+    toResponse(): Record<string, unknown> {
+        return {
+            error: this.title,
+            code: this.code,
+            details: this.message,
+            ...this.context,
+        };
+    }
+}
+
+/**
+ * Stored template (or storage object) does not exist
+ */
+export class TemplateNotFoundError extends VelocidocError {
+    constructor(templateId: string) {
+        super('TEMPLATE_NOT_FOUND', 404, "Template not found", `Template '${templateId}' does not exist`, {
+            template_id: templateId,
+        });
+    }
+}
+
+/**
+ * Template bytes are not a usable template (e.g. not a DOCX archive)
+ */
+export class InvalidTemplateError extends VelocidocError {
+    constructor(message: string) {
+        super('TEMPLATE_INVALID', 400, "Invalid template file", message);
+    }
+}
+
+/**
+ * Template contains a malformed placeholder or unbalanced block
+ */
+export class TemplateSyntaxError extends VelocidocError {
+    constructor(message: string, context: { placeholder?: string; line?: number; errors?: string[] } = {}) {
+        super('TEMPLATE_SYNTAX_ERROR', 422, "Template syntax error", message, context);
+    }
+}
+
+/**
+ * A placeholder failed while rendering with the supplied data
+ */
+export class TemplateRenderError extends VelocidocError {
+    constructor(message: string, context: { placeholder?: string; line?: number; errors?: string[] } = {}) {
+        super('TEMPLATE_RENDER_ERROR', 422, "Template rendering failed", message, context);
+    }
+}
+
+/**
+ * One field of the request data that doesn't match the template's schema
+ */
+export interface DataFieldError {
+    field: string;      // Path within data, e.g. "items[0].price"
+    message: string;
+}
+
+/**
+ * Request data doesn't match the schema declared for the template
+ */
+export class InvalidDataError extends VelocidocError {
+    constructor(templateName: string, errors: DataFieldError[]) {
+        const summary = errors.slice(0, 5).map(error => `${error.field} ${error.message}`).join("; ");
+        super('INVALID_DATA', 422, "Data does not match the template schema",
+            `${errors.length} field(s) failed validation for '${templateName}': ${summary}${errors.length > 5 ? "; ..." : ""}`,
+            { errors });
+    }
+}
+
+/**
+ * Strict render found placeholders it couldn't resolve from the data
+ */
+export class UnresolvedPlaceholdersError extends VelocidocError {
+    constructor(unresolved: UnresolvedPlaceholder[]) {
+        const names = unresolved.map(entry => entry.placeholder);
+        super('UNRESOLVED_PLACEHOLDERS', 422, "Unresolved placeholders",
+            `${unresolved.length} placeholder(s) could not be resolved: ${names.slice(0, 10).join(", ")}${names.length > 10 ? ", ..." : ""}`,
+            { unresolved });
+    }
+}
+
+/**
+ * The template engine can't produce the requested output format
+ */
+export class UnsupportedOutputFormatError extends VelocidocError {
+    constructor(engine: string, outputFormat: string) {
+        super('UNSUPPORTED_OUTPUT_FORMAT', 400, "Unsupported output format",
+            `${engine} templates cannot be rendered to ${outputFormat}`, {
+                engine,
+                output_format: outputFormat,
+            });
+    }
+}
+
+/**
+ * Options that can't be combined, e.g. a watermark on PDF/A output
+ */
+export class IncompatibleOptionsError extends VelocidocError {
+    constructor(message: string) {
+        super('INCOMPATIBLE_OPTIONS', 400, "Incompatible options", message);
+    }
+}
+
+/**
+ * Preview page selection is malformed or outside the document
+ */
+export class InvalidPageRangeError extends VelocidocError {
+    constructor(message: string, pages: string) {
+        super('INVALID_PAGE_RANGE', 400, "Invalid page range", message, { pages });
+    }
+}
+
+/**
+ * Gotenberg could not be reached
+ */
+export class ConverterUnavailableError extends VelocidocError {
+    constructor(message: string) {
+        super('CONVERTER_UNAVAILABLE', 502, "PDF conversion service unavailable", message);
+    }
+}
+
+/**
+ * Gotenberg was reached but rejected or failed the conversion
+ */
+export class ConversionFailedError extends VelocidocError {
+    constructor(status: number, message: string) {
+        super('CONVERSION_FAILED', 502, "PDF conversion failed", message, { converter_status: status });
+    }
+}
+
+/**
+ * Converted PDF doesn't declare the requested PDF/A or PDF/UA conformance
+ */
+export class PdfStandardNotMetError extends VelocidocError {
+    constructor(standard: string, message: string) {
+        super('PDF_STANDARD_NOT_MET', 502, "PDF does not conform to the requested standard", message, {
+            pdf_standard: standard,
+        });
+    }
+}
+
+/**
+ * Signing certificate isn't configured for the tenant
+ */
+export class CertificateNotFoundError extends VelocidocError {
+    constructor(name: string) {
+        super('CERTIFICATE_NOT_FOUND', 404, "Certificate not found", `Signing certificate '${name}' is not configured`, {
+            certificate: name,
+        });
+    }
+}
+
+/**
+ * Certificate couldn't be read (e.g. wrong passphrase) or the signature couldn't be applied
+ */
+export class SigningError extends VelocidocError {
+    constructor(name: string, message: string) {
+        super('SIGNING_FAILED', 500, "Document signing failed", message, { certificate: name });
+    }
+}
+
+/**
+ * Remote template could not be fetched (network error or non-2xx response)
+ */
+export class RemoteFetchError extends VelocidocError {
+    constructor(url: string, message: string, status?: number) {
+        super('REMOTE_FETCH_FAILED', 502, "Failed to fetch template from URL", message, {
+            url,
+            ...(status !== undefined && { remote_status: status }),
+        });
+    }
+}
+
+/**
+ * Remote template fetch exceeded its time limit
+ */
+export class RemoteFetchTimeoutError extends VelocidocError {
+    constructor(url: string, timeoutMs: number) {
+        super('REMOTE_FETCH_TIMEOUT', 504, "Timed out fetching template from URL",
+            `Request timed out after ${timeoutMs}ms`, { url, timeout_ms: timeoutMs });
+    }
+}
+
+/**
+ * Remote template is larger than the allowed maximum
+ */
+export class RemoteTemplateTooLargeError extends VelocidocError {
+    constructor(url: string, size: number, maxSize: number) {
+        super('REMOTE_TEMPLATE_TOO_LARGE', 422, "Remote template too large",
+            `Template file too large: ${size} bytes (max ${maxSize})`, { url, size, max_size: maxSize });
+    }
+}
+
+/**
+ * URL (or one of its redirects) refused by the URL policy, e.g. a private address
+ */
+export class UrlNotAllowedError extends VelocidocError {
+    constructor(url: string, reason: string) {
+        super('URL_NOT_ALLOWED', 403, "URL not allowed", reason, { url });
+    }
+}
+
+/**
+ * Named template source isn't configured for the tenant
+ */
+export class TemplateSourceNotFoundError extends VelocidocError {
+    constructor(name: string) {
+        super('TEMPLATE_SOURCE_NOT_FOUND', 404, "Template source not found",
+            `Template source '${name}' is not configured`, { source: name });
+    }
+}
+
+/**
+ * Template source is misconfigured or its token endpoint rejected the credentials
+ */
+export class TemplateSourceError extends VelocidocError {
+    constructor(name: string, message: string) {
+        super('TEMPLATE_SOURCE_ERROR', 500, "Template source error", message, { source: name });
+    }
+}
+
+/**
+ * Image URL in the data could not be fetched (network error, timeout or non-2xx response)
+ */
+export class ImageFetchError extends VelocidocError {
+    constructor(url: string, message: string, status?: number) {
+        super('IMAGE_FETCH_FAILED', 502, "Failed to fetch image from URL", message, {
+            url,
+            ...(status !== undefined && { remote_status: status }),
+        });
+    }
+}
+
+/**
+ * Image in the data is too large, not an image, or one too many
+ */
+export class InvalidImageError extends VelocidocError {
+    constructor(message: string, url?: string) {
+        super('INVALID_IMAGE', 422, "Invalid image", message, url ? { url } : {});
+    }
+}
+
+/**
+ * Multipart body can't be mapped to a payload
+ */
+export class InvalidMultipartError extends VelocidocError {
+    constructor(message: string) {
+        super('INVALID_MULTIPART', 400, "Invalid multipart request", message);
+    }
+}
+
+/**
+ * Template storage backend failed
+ */
+export class StorageError extends VelocidocError {
+    constructor(message: string) {
+        super('STORAGE_ERROR', 500, "Template storage error", message);
+    }
+}
+
+export class JobNotFoundError extends VelocidocError {
+    constructor(id: string) {
+        super('JOB_NOT_FOUND', 404, "Job not found", `Job '${id}' does not exist`, { job_id: id });
+    }
+}
+
+/**
+ * Job result requested before the job completed (or after it failed)
+ */
+export class JobNotReadyError extends VelocidocError {
+    constructor(id: string, status: string, jobError?: Record<string, unknown>) {
+        super('JOB_NOT_READY', 409, status === 'failed' ? "Job failed" : "Job has not completed",
+            `Job '${id}' is ${status}`, {
+                status,
+                ...(jobError && { job_error: jobError }),
+            });
+    }
+}
+
+/**
+ * Every item of a batch failed
+ */
+export class BatchFailedError extends VelocidocError {
+    constructor(report: unknown) {
+        super('BATCH_FAILED', 422, "All batch items failed", "No batch item could be generated", { report });
+    }
+}
+
+/**
+ * An Idempotency-Key was sent again with a different request
+ */
+export class IdempotencyKeyReusedError extends VelocidocError {
+    constructor(key: string) {
+        super('IDEMPOTENCY_KEY_REUSED', 422, "Idempotency key reused",
+            `Idempotency-Key '${key}' was already used with a different request`, { idempotency_key: key });
+    }
+}
+
+/**
+ * Wrap anything that isn't a VelocidocError as an internal error
+ */
+export function toVelocidocError(error: unknown): VelocidocError {
+    if (error instanceof VelocidocError) {
+        return error;
+    }
+    return new VelocidocError('INTERNAL_ERROR', 500, "Internal server error during document generation",
+        error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Map any error to an HTTP status and JSON error body
+ */
+export function toErrorResponse(error: unknown): { statusCode: number; body: Record<string, unknown> } {
+    const velocidocError = toVelocidocError(error);
+    return { statusCode: velocidocError.statusCode, body: velocidocError.toResponse() };
+}
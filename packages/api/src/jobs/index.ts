@@ -0,0 +1,43 @@
+/**
+ * Job Store Factory - Creates the job store backend based on configuration
+ */
+
+import { JobStore, JobStoreBackend } from './types';
+import { LocalJobStore } from './local';
+
+// Re-export types
+export * from './types';
+export { LocalJobStore } from './local';
+export { JobQueue } from './queue';
+export { JobSecrets, jobSecrets } from './secrets';
+
+interface JobStoreConfig {
+    backend: JobStoreBackend;
+    // Local store options
+    jobsDir?: string;
+}
+
+/**
+ * Create a job store instance based on environment configuration
+ */
+export function createJobStore(config?: Partial<JobStoreConfig>): JobStore {
+    const backend = config?.backend || (process.env.JOB_STORE as JobStoreBackend) || 'local';
+
+    switch (backend) {
+        case 'local':
+            return new LocalJobStore(config?.jobsDir || process.env.JOBS_DIR || './jobs');
+
+        default:
+            throw new Error(`Unknown job store backend: ${backend}`);
+    }
+}
+
+// Default job store instance (created lazily)
+let defaultJobStore: JobStore | null = null;
+
+export function getJobStore(): JobStore {
+    if (!defaultJobStore) {
+        defaultJobStore = createJobStore();
+    }
+    return defaultJobStore;
+}
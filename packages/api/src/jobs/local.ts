@@ -0,0 +1,110 @@
+/**
+ * LocalJobStore - File system based job store for self-hosted deployments
+ *
+ * Each job is a <id>.json record with its document in <id>.result.
+ * Records are written to a temp file and renamed so a crash never leaves
+ * a half-written record behind.
+ */
+
+import { readdir, readFile, writeFile, rename, unlink, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { Job, JobStore } from './types';
+
+// Job IDs are UUIDs; anything else must not reach the file system
+const JOB_ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+export class LocalJobStore implements JobStore {
+    private baseDir: string;
+
+    constructor(baseDir: string) {
+        this.baseDir = baseDir;
+    }
+
+    private path(id: string, extension: 'json' | 'result'): string {
+        if (!JOB_ID_PATTERN.test(id)) {
+            throw new Error(`Invalid job ID: ${id}`);
+        }
+        return join(this.baseDir, `${id}.${extension}`);
+    }
+
+    private async write(job: Job): Promise<void> {
+        await mkdir(this.baseDir, { recursive: true });
+        const filePath = this.path(job.id, 'json');
+        await writeFile(`${filePath}.tmp`, JSON.stringify(job));
+        await rename(`${filePath}.tmp`, filePath);
+    }
+
+    async create(job: Job): Promise<Job> {
+        await this.write(job);
+        return job;
+    }
+
+    async get(id: string): Promise<Job | null> {
+        if (!JOB_ID_PATTERN.test(id)) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(await readFile(this.path(id, 'json'), 'utf-8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async update(id: string, changes: Partial<Job>): Promise<Job> {
+        const job = await this.get(id);
+        if (!job) {
+            throw new Error(`Job not found: ${id}`);
+        }
+
+        const updated = { ...job, ...changes, id };
+        await this.write(updated);
+        return updated;
+    }
+
+    async list(): Promise<Job[]> {
+        let files: string[];
+        try {
+            files = await readdir(this.baseDir);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const jobs: Job[] = [];
+        for (const file of files) {
+            if (file.endsWith('.json')) {
+                const job = await this.get(file.slice(0, -'.json'.length));
+                if (job) jobs.push(job);
+            }
+        }
+
+        return jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    async putResult(id: string, file: Buffer): Promise<void> {
+        await mkdir(this.baseDir, { recursive: true });
+        await writeFile(this.path(id, 'result'), file);
+    }
+
+    async getResult(id: string): Promise<Buffer> {
+        return readFile(this.path(id, 'result'));
+    }
+
+    async delete(id: string): Promise<void> {
+        for (const extension of ['json', 'result'] as const) {
+            try {
+                await unlink(this.path(id, extension));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    throw error;
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,285 @@
+/**
+ * JobQueue - Runs asynchronous generation jobs from a JobStore
+ *
+ * Jobs are picked up in submission order with bounded concurrency.
+ * The store is the source of truth: on start, jobs left queued or
+ * processing by a previous run are resumed, and finished jobs are
+ * pruned once they are older than the retention period.
+ * When a job has a callback_url, its final status is POSTed there, through
+ * the same URL policy as other server-side fetches (no private hosts).
+ */
+
+import type { Job, JobStore } from './types';
+import type { UnresolvedPlaceholder } from '../services/unresolved.ts';
+import { urlPolicy, UrlPolicy } from '../services/url-policy.ts';
+import { RemoteFetchError, UrlNotAllowedError } from '../errors.ts';
+
+export interface JobOutput {
+    buffer: Buffer;
+    contentType: string;
+    filename: string;
+    warnings?: UnresolvedPlaceholder[];
+}
+
+/** Produces the document for a job; thrown errors fail the job */
+export type JobProcessor = (job: Job, log: any) => Promise<JobOutput>;
+
+/** Maps a processing error to the error body stored on the job */
+export type JobErrorMapper = (error: unknown, job: Job) => Record<string, unknown>;
+
+export interface JobQueueOptions {
+    concurrency?: number;
+    retentionMs?: number;
+    callbackAttempts?: number;
+    callbackRetryDelayMs?: number;
+    callbackTimeoutMs?: number;
+    /** Where callbacks may be sent (defaults to the template_url policy) */
+    callbackPolicy?: UrlPolicy;
+}
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Public representation of a job, used by the API and callbacks
+ */
+export function toJobResponse(job: Job) {
+    return {
+        id: job.id,
+        status: job.status,
+        created_at: job.createdAt,
+        ...(job.startedAt && { started_at: job.startedAt }),
+        ...(job.completedAt && { completed_at: job.completedAt }),
+        ...(job.status === 'completed' && job.result && {
+            result_url: job.resultUrl,
+            result: {
+                filename: job.result.filename,
+                content_type: job.result.contentType,
+                size: job.result.size,
+                ...(job.result.warnings && job.result.warnings.length > 0 && { warnings: job.result.warnings }),
+            },
+        }),
+        ...(job.error && { error: job.error }),
+    };
+}
+
+export class JobQueue {
+    private pending: string[] = [];
+    private active = new Set<Promise<void>>();
+    private running = false;
+    private pruneTimer?: ReturnType<typeof setInterval>;
+    private idleWaiters: Array<() => void> = [];
+    private options: Required<JobQueueOptions>;
+
+    constructor(
+        private store: JobStore,
+        private processor: JobProcessor,
+        private mapError: JobErrorMapper,
+        private log: any,
+        options: JobQueueOptions = {},
+    ) {
+        this.options = {
+            concurrency: options.concurrency ?? parseInt(process.env.JOB_CONCURRENCY || '2', 10),
+            retentionMs: options.retentionMs ?? parseFloat(process.env.JOB_RETENTION_HOURS || '24') * 60 * 60 * 1000,
+            callbackAttempts: options.callbackAttempts ?? 3,
+            callbackRetryDelayMs: options.callbackRetryDelayMs ?? 2000,
+            callbackTimeoutMs: options.callbackTimeoutMs ?? 10000,
+            callbackPolicy: options.callbackPolicy ?? urlPolicy,
+        };
+    }
+
+    /**
+     * Check a callback URL before accepting a job, so a refused one is a client error
+     * @throws UrlNotAllowedError - If the policy refuses the URL or its host doesn't resolve
+     */
+    async checkCallbackUrl(url: string): Promise<void> {
+        try {
+            await this.options.callbackPolicy.check(url);
+        } catch (error) {
+            if (error instanceof RemoteFetchError) {
+                throw new UrlNotAllowedError(url, error.message);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Resume unfinished jobs from the store and start processing
+     */
+    async start(): Promise<void> {
+        this.running = true;
+        await this.prune();
+
+        for (const job of await this.store.list()) {
+            if (job.status === 'queued' || job.status === 'processing') {
+                // A processing job was interrupted by a restart; run it again
+                this.log.info({ jobId: job.id, status: job.status }, 'Resuming job');
+                this.pending.push(job.id);
+            } else if (job.callbackUrl && !job.callback) {
+                // Finished, but stopped before the callback was sent
+                this.track(this.notify(job));
+            }
+        }
+
+        this.pruneTimer = setInterval(() => {
+            this.prune().catch(error => this.log.error({ error }, 'Failed to prune jobs'));
+        }, PRUNE_INTERVAL_MS);
+        this.pruneTimer.unref?.();
+
+        this.drain();
+    }
+
+    /**
+     * Stop taking new jobs and wait for running ones to finish.
+     * Queued jobs stay in the store and are resumed on next start.
+     */
+    async stop(): Promise<void> {
+        this.running = false;
+        clearInterval(this.pruneTimer);
+        await Promise.all(this.active);
+    }
+
+    /**
+     * Queue a job that has been persisted to the store
+     */
+    enqueue(id: string): void {
+        this.pending.push(id);
+        this.drain();
+    }
+
+    /**
+     * Resolve once no jobs are queued or running
+     */
+    onIdle(): Promise<void> {
+        if (this.pending.length === 0 && this.active.size === 0) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.idleWaiters.push(resolve));
+    }
+
+    private drain(): void {
+        while (this.running && this.pending.length > 0 && this.active.size < this.options.concurrency) {
+            this.track(this.run(this.pending.shift()!));
+        }
+
+        if (this.pending.length === 0 && this.active.size === 0) {
+            this.idleWaiters.splice(0).forEach(resolve => resolve());
+        }
+    }
+
+    private track(task: Promise<void>): void {
+        const tracked = task
+            .catch(error => this.log.error({ error }, 'Job queue task failed'))
+            .finally(() => {
+                this.active.delete(tracked);
+                this.drain();
+            });
+        this.active.add(tracked);
+    }
+
+    private async run(id: string): Promise<void> {
+        let job = await this.store.get(id);
+        if (!job || job.status === 'completed' || job.status === 'failed') {
+            return;
+        }
+
+        const log = this.log.child({ jobId: id });
+        job = await this.store.update(id, { status: 'processing', startedAt: new Date().toISOString() });
+        log.info('Job started');
+
+        try {
+            const output = await this.processor(job, log);
+            await this.store.putResult(id, output.buffer);
+            job = await this.store.update(id, {
+                status: 'completed',
+                completedAt: new Date().toISOString(),
+                result: {
+                    filename: output.filename,
+                    contentType: output.contentType,
+                    size: output.buffer.length,
+                    warnings: output.warnings,
+                },
+                payload: undefined,
+                secrets: undefined,
+            });
+            log.info({ size: output.buffer.length }, 'Job completed');
+        } catch (error) {
+            log.error({ error }, 'Job failed');
+            job = await this.store.update(id, {
+                status: 'failed',
+                completedAt: new Date().toISOString(),
+                error: this.mapError(error, job),
+                payload: undefined,
+                secrets: undefined,
+            });
+        }
+
+        if (job.callbackUrl) {
+            await this.notify(job);
+        }
+    }
+
+    /**
+     * POST the job status to its callback URL, retrying with backoff
+     */
+    private async notify(job: Job): Promise<void> {
+        const { callbackAttempts, callbackRetryDelayMs, callbackTimeoutMs, callbackPolicy } = this.options;
+        const log = this.log.child({ jobId: job.id });
+        let lastError = '';
+        let statusCode: number | undefined;
+        let attempts = 0;
+
+        for (let attempt = 1; attempt <= callbackAttempts; attempt++) {
+            attempts = attempt;
+            try {
+                const response = await callbackPolicy.fetch(job.callbackUrl!, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'User-Agent': 'Velocidoc-PDFGen/1.0',
+                    },
+                    body: JSON.stringify(toJobResponse(job)),
+                    signal: AbortSignal.timeout(callbackTimeoutMs),
+                });
+                statusCode = response.status;
+
+                if (response.ok) {
+                    await this.store.update(job.id, { callback: { status: 'delivered', attempts: attempt, statusCode } });
+                    log.info({ attempts: attempt }, 'Job callback delivered');
+                    return;
+                }
+                lastError = `HTTP ${response.status} ${response.statusText}`;
+            } catch (error) {
+                lastError = error instanceof Error ? error.message : String(error);
+                // The URL policy refused the callback URL or a redirect; retrying won't change that
+                if (error instanceof UrlNotAllowedError) {
+                    log.warn({ attempt, error: lastError }, 'Job callback refused');
+                    break;
+                }
+            }
+
+            log.warn({ attempt, error: lastError }, 'Job callback failed');
+            if (attempt < callbackAttempts) {
+                await new Promise(resolve => setTimeout(resolve, callbackRetryDelayMs * 2 ** (attempt - 1)));
+            }
+        }
+
+        await this.store.update(job.id, {
+            callback: { status: 'failed', attempts, lastError, statusCode },
+        });
+    }
+
+    /**
+     * Delete finished jobs older than the retention period
+     */
+    private async prune(): Promise<void> {
+        const cutoff = Date.now() - this.options.retentionMs;
+
+        for (const job of await this.store.list()) {
+            const finished = job.status === 'completed' || job.status === 'failed';
+            if (finished && job.completedAt && Date.parse(job.completedAt) < cutoff) {
+                await this.store.delete(job.id);
+                this.log.info({ jobId: job.id }, 'Pruned expired job');
+            }
+        }
+    }
+}
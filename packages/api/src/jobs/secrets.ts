@@ -0,0 +1,89 @@
+/**
+ * JobSecrets - Credentials kept out of the persisted job payload
+ *
+ * Queued jobs are written to the job store as JSON, so the credentials in a
+ * payload (template_auth and options.protection) are split off and stored
+ * encrypted with AES-256-GCM until the job finishes.
+ *
+ * The key comes from JOB_SECRETS_KEY (32 bytes, base64 or hex). Without it
+ * a random key is generated per process: a job holding credentials that a
+ * restart interrupts then fails instead of resuming.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface PayloadSecrets {
+    template_auth?: unknown;
+    protection?: unknown;
+}
+
+export class JobSecrets {
+    constructor(private key: Buffer) {
+        if (key.length !== 32) {
+            throw new Error(`JOB_SECRETS_KEY must be 32 bytes, got ${key.length}`);
+        }
+    }
+
+    /**
+     * Split the credentials off a payload
+     * @returns The payload to persist, and the encrypted credentials if it had any
+     */
+    seal(payload: Record<string, any>): { payload: Record<string, any>; secrets?: string } {
+        const { template_auth, options, ...rest } = payload;
+        const { protection, ...otherOptions } = options ?? {};
+        if (template_auth === undefined && protection === undefined) {
+            return { payload };
+        }
+
+        const stored = { ...rest, ...(options !== undefined && { options: otherOptions }) };
+        const secrets: PayloadSecrets = { template_auth, protection };
+        return { payload: stored, secrets: this.encrypt(JSON.stringify(secrets)) };
+    }
+
+    /**
+     * Put the credentials back into a persisted payload
+     * @throws Error - If the credentials were encrypted with another key
+     */
+    open(payload: Record<string, any>, secrets?: string): Record<string, any> {
+        if (!secrets) return payload;
+
+        let decrypted: PayloadSecrets;
+        try {
+            decrypted = JSON.parse(this.decrypt(secrets));
+        } catch {
+            throw new Error('Job credentials could not be decrypted (the server restarted without JOB_SECRETS_KEY, or the key changed); submit the job again');
+        }
+
+        const { template_auth, protection } = decrypted;
+        return {
+            ...payload,
+            ...(template_auth !== undefined && { template_auth }),
+            ...(protection !== undefined && { options: { ...payload.options, protection } }),
+        };
+    }
+
+    private encrypt(text: string): string {
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv(ALGORITHM, this.key, iv);
+        const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+        return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+    }
+
+    private decrypt(sealed: string): string {
+        const data = Buffer.from(sealed, 'base64');
+        const decipher = createDecipheriv(ALGORITHM, this.key, data.subarray(0, IV_LENGTH));
+        decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+        return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+    }
+}
+
+function keyFromEnv(value: string | undefined): Buffer {
+    if (!value) return randomBytes(32);
+    return /^[0-9a-fA-F]{64}$/.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+}
+
+export const jobSecrets = new JobSecrets(keyFromEnv(process.env.JOB_SECRETS_KEY));
@@ -0,0 +1,85 @@
+/**
+ * JobStore - Abstract interface for asynchronous job persistence
+ *
+ * Jobs must survive a restart, so queued work and finished results are kept
+ * in a store rather than in memory:
+ * - Local: JSON records and result files on disk (default)
+ * - Redis/S3 backends can implement the same interface for multi-instance deployments
+ */
+
+import type { UnresolvedPlaceholder } from '../services/unresolved.ts';
+
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface JobResult {
+    filename: string;
+    contentType: string;
+    size: number;
+    /** Placeholders the render left unresolved */
+    warnings?: UnresolvedPlaceholder[];
+}
+
+export interface JobCallback {
+    status: 'delivered' | 'failed';
+    attempts: number;
+    lastError?: string;
+    statusCode?: number;
+}
+
+export interface Job {
+    id: string;
+    tenantId: string;
+    status: JobStatus;
+    /** Validated request payload, without credentials; dropped once the job has finished */
+    payload?: Record<string, any>;
+    /** The payload's credentials, encrypted (see secrets.ts); dropped once the job has finished */
+    secrets?: string;
+    callbackUrl?: string;
+    /** Absolute URL of the result, sent to the callback */
+    resultUrl: string;
+    createdAt: string;
+    startedAt?: string;
+    completedAt?: string;
+    result?: JobResult;
+    error?: Record<string, unknown>;
+    callback?: JobCallback;
+}
+
+export interface JobStore {
+    /**
+     * Persist a new job
+     */
+    create(job: Job): Promise<Job>;
+
+    /**
+     * Get a job by ID (null if it doesn't exist)
+     */
+    get(id: string): Promise<Job | null>;
+
+    /**
+     * Apply changes to a job and return the updated record
+     */
+    update(id: string, changes: Partial<Job>): Promise<Job>;
+
+    /**
+     * List all jobs, oldest first
+     */
+    list(): Promise<Job[]>;
+
+    /**
+     * Store the generated document for a job
+     */
+    putResult(id: string, file: Buffer): Promise<void>;
+
+    /**
+     * Get the generated document for a job
+     */
+    getResult(id: string): Promise<Buffer>;
+
+    /**
+     * Delete a job and its result
+     */
+    delete(id: string): Promise<void>;
+}
+
+export type JobStoreBackend = 'local';
@@ -45,6 +45,13 @@ export function getTenantFromKey(apiKey: string): string {
     return apiKey.substring(0, 8);
 }
 
+/**
+ * Tenant of an authenticated request ('default' when auth is disabled)
+ */
+export function getTenantId(request: FastifyRequest): string {
+    return (request as any).tenantId || 'default';
+}
+
 /**
  * Register API key authentication hook
  */
@@ -64,8 +71,9 @@ export async function registerAuth(server: FastifyInstance) {
     // Add request decorator for tenant ID
     server.decorateRequest('tenantId', null);
 
-    // Pre-handler hook for authentication
-    server.addHook('preHandler', async (request: FastifyRequest, reply: FastifyReply) => {
+    // Authenticate in onRequest, before the body is read, so unauthenticated
+    // clients can't make the server buffer large (multipart) uploads
+    server.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
         // Skip auth for health check
         if (request.url === '/health') {
             return undefined;
@@ -81,6 +89,7 @@ export async function registerAuth(server: FastifyInstance) {
         if (!apiKey) {
             reply.status(401).send({
                 error: 'Unauthorized',
+                code: 'UNAUTHORIZED',
                 message: `Missing ${config.headerName} header`,
             });
             return reply;
@@ -90,6 +99,7 @@ export async function registerAuth(server: FastifyInstance) {
             request.log.warn({ apiKey: apiKey.substring(0, 4) + '...' }, 'Invalid API key');
             reply.status(401).send({
                 error: 'Unauthorized',
+                code: 'UNAUTHORIZED',
                 message: 'Invalid API key',
             });
             return reply;
@@ -0,0 +1,40 @@
+/**
+ * Error responses
+ *
+ * Every error response carries a stable `code` (see errors.ts), whether it
+ * comes from a route's catch block, a thrown VelocidocError or request
+ * validation.
+ */
+
+import { FastifyError, FastifyReply, FastifyRequest } from "fastify";
+import { VelocidocError, toErrorResponse } from "../errors.ts";
+
+/**
+ * Send the error response for a failed request: the error's status and
+ * stable code, or INTERNAL_ERROR for anything unexpected
+ */
+export function sendError(reply: FastifyReply, error: unknown) {
+    const { statusCode, body } = toErrorResponse(error);
+    return reply.status(statusCode).send(body);
+}
+
+/**
+ * Server error handler for errors thrown outside route catch blocks
+ * (hooks, schema validation, plugins)
+ */
+export function errorHandler(error: FastifyError, request: FastifyRequest, reply: FastifyReply) {
+    if (error instanceof VelocidocError) {
+        return sendError(reply, error);
+    }
+
+    if (error.validation) {
+        return reply.status(400).send({
+            error: "Invalid request payload",
+            code: "VALIDATION_ERROR",
+            details: error.message,
+        });
+    }
+
+    // Anything else (rate limiting, upload limits, ...) keeps Fastify's default response
+    return reply.send(error);
+}
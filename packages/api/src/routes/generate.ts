@@ -1,43 +1,96 @@
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply } from "fastify";
 import { z } from "zod";
 import { ZodTypeProvider } from "fastify-type-provider-zod";
-import { docxService } from "../services/docx.ts";
-import { gotenbergService } from "../services/gotenberg.ts";
+import { pdfService } from "../services/pdf.ts";
 import { validateDocx, extractFields } from "../services/template-validator.ts";
+import { loadTemplate, loadSampleData, getTemplateName, toTemplateBuffer } from "../services/template-loader.ts";
+import { documentGenerator, supportsOutputFormat, checkOutputOptions } from "../services/generator.ts";
+import { generateBatch, buildBatchReport, bundleZip } from "../services/batch.ts";
+import { assembleDocument } from "../services/assembly.ts";
+import { outputCache } from "../services/output-cache.ts";
+import { imageFetcher } from "../services/image-fetcher.ts";
+import type { UnresolvedPlaceholder } from "../services/unresolved.ts";
+import {
+    BatchFailedError,
+    StorageError,
+    UnsupportedOutputFormatError,
+    VelocidocError,
+} from "../errors.ts";
+import { sendError } from "../middleware/error-handler.ts";
+import {
+    GenerateOptionsSchema,
+    OutputFormatSchema,
+    PreviewOptionsSchema,
+    TemplateReferenceSchema,
+    TemplateContentSchema,
+    UniversalPayloadSchema,
+    withTemplateSource,
+    toGenerateOptions,
+    toOutputFilename,
+    documentHeaders,
+} from "./schemas.ts";
+import { multipartPayload } from "./multipart.ts";
+import { getTenantId } from "../middleware/auth.ts";
+
+const BATCH_MAX_ITEMS = parseInt(process.env.BATCH_MAX_ITEMS || "500", 10);
+const ASSEMBLY_MAX_PARTS = 50;
+// Keeps X-Template-Warnings and X-Batch-Errors well below common proxy header size limits
+const MAX_HEADER_WARNINGS = 20;
+const MAX_HEADER_JSON_LENGTH = 4096;
+
+// Batch payload: one template, many data items
+const BatchPayloadSchema = withTemplateSource(TemplateReferenceSchema.extend({
+    output_format: OutputFormatSchema,
+    data: z.array(z.record(z.any()))
+        .min(1, "At least one data item is required")
+        .max(BATCH_MAX_ITEMS, `At most ${BATCH_MAX_ITEMS} data items per batch`),
+    filename_pattern: z.string().min(1).default("document-{{index}}"),
+    bundle: z.enum(["zip", "merged_pdf"]).default("zip"),
+    options: GenerateOptionsSchema.optional(),
+})).refine(
+    (data) => data.bundle !== "merged_pdf" || data.output_format === "pdf",
+    { message: "bundle 'merged_pdf' requires output_format 'pdf'" }
+).refine(
+    // Merging drops the PDF/A output intent and PDF/UA structure tree
+    (data) => data.bundle !== "merged_pdf" || !data.options?.pdf_standard,
+    { message: "bundle 'merged_pdf' cannot be combined with pdf_standard" }
+).refine(
+    // Encrypted documents can't be merged; protect the items of a ZIP instead
+    (data) => data.bundle !== "merged_pdf" || !data.options?.protection,
+    { message: "bundle 'merged_pdf' cannot be combined with protection" }
+).refine(
+    // Merging rewrites the items, invalidating their signatures
+    (data) => data.bundle !== "merged_pdf" || !data.options?.sign,
+    { message: "bundle 'merged_pdf' cannot be combined with sign" }
+);
 
-// Inline template schema for BYOT (Bring Your Own Template)
-const InlineTemplateSchema = z.object({
-    content: z.string().min(1, "Template content is required"),
-    filename: z.string().min(1, "Filename is required"),
-});
-
-// Zod schema matching UniversalPayload interface
-// Supports three modes: template_id (server-stored), template (BYOT), or template_url (remote)
-const UniversalPayloadSchema = z.object({
-    template_id: z.string().optional(),
-    template: InlineTemplateSchema.optional(),
-    template_url: z.string().url("Invalid URL format").optional(),
-    output_format: z.enum(["pdf", "docx", "html"]),
-    data: z.record(z.any()),
-    options: z.object({
-        header_text: z.string().optional(),
-        watermark: z.boolean().optional(),
-        metadata: z.record(z.string()).optional(),
-    }).optional(),
+// Assembly payload: ordered parts, each with its own template and optional data
+const AssemblyPartSchema = withTemplateSource(TemplateReferenceSchema.extend({
+    data: z.record(z.any()).optional(),
+    title: z.string().min(1).max(200).optional(),
+}));
+
+const AssemblyPayloadSchema = z.object({
+    parts: z.array(AssemblyPartSchema)
+        .min(1, "At least one part is required")
+        .max(ASSEMBLY_MAX_PARTS, `At most ${ASSEMBLY_MAX_PARTS} parts per assembly`),
+    output_format: z.literal("pdf").default("pdf"),
+    data: z.record(z.any()).default({}),
+    filename: z.string().min(1).optional(),
+    options: GenerateOptionsSchema.optional(),
 }).refine(
-    (data) => data.template_id || data.template || data.template_url,
-    { message: "One of template_id, template, or template_url must be provided" }
-).refine(
-    (data) => {
-        const count = [data.template_id, data.template, data.template_url].filter(Boolean).length;
-        return count === 1;
-    },
-    { message: "Provide exactly one of: template_id, template, or template_url" }
+    (data) => !data.options?.pdf_standard,
+    { message: "pdf_standard is not supported for assemblies" }
 );
 
+// Idempotency-Key: any client-chosen string, typically a UUID
+const IdempotencyHeadersSchema = z.object({
+    "idempotency-key": z.string().min(1).max(255).optional(),
+}).passthrough();
+
 // Schema for template validation endpoint
 const ValidateTemplateSchema = z.object({
-    content: z.string().min(1, "Template content is required"),
+    content: TemplateContentSchema,
     data: z.record(z.any()).optional(),
 });
 
@@ -48,22 +101,32 @@ export const generateRoutes = async (fastify: FastifyInstance) => {
      * POST /v1/generate
      * 
      * Flow: 
-     * 1. Receive payload with template_id and data
-     * 2. Render DOCX template with data using DocxService
-     * 3. Convert rendered DOCX to PDF using GotenbergService
+     * 1. Receive payload with a template reference and data, load the template
+     * 2. Render the template with data: DOCX via DocxService (word engine),
+     *    or .html via WebTemplateService (web engine)
+     * 3. Convert to PDF using GotenbergService (LibreOffice for word, Chromium for web)
+     *    (or to standalone HTML when output_format is "html")
      * 4. Return PDF binary stream
+     *
+     * Also accepts multipart/form-data: a `template` file part, a `data` JSON
+     * part and image file parts referenced from data as "attachment:<name>".
+     *
+     * With an Idempotency-Key header, a repeat of the request returns the
+     * first response's document instead of generating again. With the output
+     * cache enabled, identical template, data and options skip rendering.
      */
     f.post("/generate", {
         schema: {
             body: UniversalPayloadSchema,
+            headers: IdempotencyHeadersSchema,
         },
+        preValidation: multipartPayload("template"),
     }, async (request, reply) => {
         const payload = request.body;
 
         // Determine template mode and name
         const mode = payload.template ? 'BYOT' : payload.template_url ? 'URL' : 'stored';
-        const templateName = payload.template?.filename
-            || (payload.template_url ? extractFilenameFromUrl(payload.template_url) : payload.template_id!);
+        const templateName = getTemplateName(payload);
 
         request.log.info({
             template: templateName,
@@ -71,94 +134,183 @@ export const generateRoutes = async (fastify: FastifyInstance) => {
             ...(payload.template_url && { url: payload.template_url })
         }, "Received generation request");
 
-        try {
-            let renderedDocx: Buffer;
-            let templateBuffer: Buffer;
-
-            if (payload.template) {
-                // BYOT Mode: Decode base64
-                templateBuffer = Buffer.from(payload.template.content, 'base64');
-            } else if (payload.template_url) {
-                // URL Mode: Fetch template from remote URL
-                templateBuffer = await fetchTemplateFromUrl(payload.template_url, request.log);
-            } else {
-                // Stored template mode: Render from file directly
-                renderedDocx = await docxService.render(payload.template_id!, payload.data);
-            }
+        const outputFilename = toOutputFilename(templateName);
+        const tenantId = getTenantId(request);
+        const idempotencyKey = request.headers["idempotency-key"];
 
-            // For BYOT and URL modes, validate and render from buffer
-            if (payload.template || payload.template_url) {
-                // Validate it's a valid DOCX before processing
-                const validation = await validateDocx(templateBuffer!);
-                if (!validation.valid) {
-                    return reply.status(400).send({
-                        error: "Invalid template file",
-                        details: validation.errors?.join(', ') || "Not a valid DOCX file",
-                    });
-                }
+        const generate = async () => {
+            const template = await loadTemplate(payload, request.log, tenantId);
 
-                renderedDocx = await docxService.renderFromBuffer(templateBuffer!, payload.data);
+            if (!supportsOutputFormat(template.engine, payload.output_format)) {
+                throw new UnsupportedOutputFormatError(template.engine, payload.output_format);
             }
 
-            request.log.info("Template rendered successfully");
+            const options = toGenerateOptions(payload.output_format, payload.options, tenantId);
+            // The key holds image URLs, not the images, which can change behind the same URL
+            if (!outputCache.outputCachingEnabled || imageFetcher.findUrls(payload.data, template.schema?.schema_map).size > 0) {
+                return documentGenerator.generate(template, payload.data, options, request.log);
+            }
 
-            // If output is DOCX, return it directly
-            if (payload.output_format === "docx") {
-                const outputFilename = templateName.replace(/\.docx$/i, '').replace(/\//g, "_");
-                return reply
-                    .header("Content-Type", "application/vnd.openxmlformats-officedocument.wordprocessingml.document")
-                    .header("Content-Disposition", `attachment; filename="${outputFilename}.docx"`)
-                    .send(renderedDocx);
+            const cacheKey = outputCache.outputKey(template, payload.data, options);
+            const cached = await outputCache.getOutput(cacheKey).catch(error => {
+                request.log.warn({ error }, "Output cache read failed");
+                return null;
+            });
+            reply.header("X-Cache", cached ? "HIT" : "MISS");
+            if (cached) {
+                request.log.info("Served from output cache");
+                return cached;
             }
 
-            // Convert to PDF via Gotenberg
-            const pdfBuffer = await gotenbergService.convert(renderedDocx, `${templateName}.docx`);
-            request.log.info("PDF conversion completed");
+            const document = await documentGenerator.generate(template, payload.data, options, request.log);
+            await outputCache.putOutput(cacheKey, document).catch(error => {
+                request.log.warn({ error }, "Output cache write failed");
+            });
+            return document;
+        };
+
+        try {
+            let document;
+            if (idempotencyKey) {
+                const result = await outputCache.idempotent(tenantId, idempotencyKey, payload, generate, request.log);
+                document = result.document;
+                if (result.replayed) {
+                    request.log.info({ idempotencyKey }, "Replaying idempotent request");
+                    reply.header("Idempotent-Replayed", "true");
+                }
+            } else {
+                document = await generate();
+            }
 
-            // Return PDF
-            const outputFilename = templateName.replace(/\.docx$/i, '').replace(/\//g, "_");
+            setWarningHeaders(reply, document.warnings);
             return reply
-                .header("Content-Type", "application/pdf")
-                .header("Content-Disposition", `attachment; filename="${outputFilename}.pdf"`)
-                .send(pdfBuffer);
+                .headers(documentHeaders(document.contentType, `${outputFilename}.${document.extension}`))
+                .send(document.buffer);
 
         } catch (error) {
             request.log.error({ error }, "Generation failed");
+            return sendError(reply, error);
+        }
+    });
 
-            if (error instanceof Error) {
-                // Check for common errors
-                if (error.message.includes("ENOENT") || error.message.includes("no such file")) {
-                    return reply.status(404).send({
-                        error: "Template not found",
-                        template_id: payload.template_id,
-                    });
-                }
-                if (error.message.includes("Gotenberg")) {
-                    return reply.status(502).send({
-                        error: "PDF conversion service unavailable",
-                        details: error.message,
-                    });
-                }
-                // Handle invalid base64 or corrupt files
-                if (error.message.includes("base64") || error.message.includes("Invalid")) {
-                    return reply.status(400).send({
-                        error: "Invalid template content",
-                        details: error.message,
-                    });
-                }
-                // Handle URL fetch errors
-                if (error.message.includes("Failed to fetch template") || error.message.includes("fetch")) {
-                    return reply.status(502).send({
-                        error: "Failed to fetch template from URL",
-                        details: error.message,
-                    });
+    /**
+     * POST /v1/generate/batch
+     *
+     * Generates one document per data item from a single template, which is
+     * loaded once. Returns a ZIP (with report.json) or one merged PDF.
+     * Per-item failures don't abort the batch; they are reported in
+     * report.json and the X-Batch-* response headers.
+     */
+    f.post("/generate/batch", {
+        schema: {
+            body: BatchPayloadSchema,
+        },
+    }, async (request, reply) => {
+        const payload = request.body;
+        const templateName = getTemplateName(payload);
+
+        request.log.info({
+            template: templateName,
+            items: payload.data.length,
+            bundle: payload.bundle,
+        }, "Received batch generation request");
+
+        try {
+            const tenantId = getTenantId(request);
+            const template = await loadTemplate(payload, request.log, tenantId);
+
+            if (!supportsOutputFormat(template.engine, payload.output_format)) {
+                throw new UnsupportedOutputFormatError(template.engine, payload.output_format);
+            }
+
+            // Fail once up front rather than once per item
+            const options = toGenerateOptions(payload.output_format, payload.options, tenantId);
+            checkOutputOptions(options);
+
+            const results = await generateBatch(
+                template,
+                payload.data,
+                payload.filename_pattern,
+                options,
+                request.log,
+            );
+            const report = buildBatchReport(results);
+
+            request.log.info({ succeeded: report.succeeded, failed: report.failed }, "Batch generation completed");
+
+            if (report.succeeded === 0) {
+                throw new BatchFailedError(report);
+            }
+
+            reply
+                .header("X-Batch-Total", String(report.total))
+                .header("X-Batch-Succeeded", String(report.succeeded))
+                .header("X-Batch-Failed", String(report.failed));
+
+            const batchName = toOutputFilename(templateName);
+
+            if (payload.bundle === "merged_pdf") {
+                const merged = await pdfService.merge(
+                    results.filter(r => r.document).map(r => r.document!.buffer)
+                );
+                if (report.failed > 0) {
+                    // Merged output has nowhere else to carry the per-item report
+                    const failures = report.items
+                        .filter(item => item.status === "error")
+                        .map(({ index, error }) => ({ index, error: error?.slice(0, 200) }));
+                    reply.header("X-Batch-Errors", headerJson(failures));
                 }
+                return reply
+                    .header("Content-Type", "application/pdf")
+                    .header("Content-Disposition", `attachment; filename="${batchName}.pdf"`)
+                    .send(merged);
             }
 
-            return reply.status(500).send({
-                error: "Internal server error during document generation",
-                details: error instanceof Error ? error.message : String(error),
-            });
+            return reply
+                .header("Content-Type", "application/zip")
+                .header("Content-Disposition", `attachment; filename="${batchName}.zip"`)
+                .send(await bundleZip(results));
+
+        } catch (error) {
+            request.log.error({ error }, "Batch generation failed");
+            return sendError(reply, error);
+        }
+    });
+
+    /**
+     * POST /v1/generate/assembly
+     *
+     * Renders an ordered list of parts (cover page, agreement, annexes...),
+     * each from its own template, and merges them into one PDF with a
+     * bookmark per part. Part data is merged over the shared `data`.
+     */
+    f.post("/generate/assembly", {
+        schema: {
+            body: AssemblyPayloadSchema,
+        },
+    }, async (request, reply) => {
+        const payload = request.body;
+
+        request.log.info({
+            parts: payload.parts.map(part => getTemplateName(part)),
+        }, "Received assembly request");
+
+        try {
+            const tenantId = getTenantId(request);
+            const { outputFormat, ...options } = toGenerateOptions("pdf", payload.options, tenantId);
+            const warnings: UnresolvedPlaceholder[] = [];
+            const pdf = await assembleDocument(payload.parts, payload.data, { ...options, tenantId, unresolved: warnings }, request.log);
+            const filename = toOutputFilename(payload.filename || "assembly");
+
+            setWarningHeaders(reply, warnings);
+            return reply
+                .header("Content-Type", "application/pdf")
+                .header("Content-Disposition", `attachment; filename="${filename}.pdf"`)
+                .send(pdf);
+
+        } catch (error) {
+            request.log.error({ error }, "Assembly failed");
+            return sendError(reply, error);
         }
     });
 
@@ -174,16 +326,20 @@ export const generateRoutes = async (fastify: FastifyInstance) => {
      * - Verifying template is valid before using
      * - Discovering required fields for data mapping
      * - Checking for syntax errors in placeholders
+     *
+     * Also accepts multipart/form-data with a `template` file part
+     * and an optional `data` JSON part.
      */
     f.post("/templates/validate", {
         schema: {
             body: ValidateTemplateSchema,
         },
+        preValidation: multipartPayload("content"),
     }, async (request, reply) => {
         const { content, data } = request.body;
 
         try {
-            const templateBuffer = Buffer.from(content, 'base64');
+            const templateBuffer = toTemplateBuffer(content);
 
             // Validate DOCX structure
             const validation = await validateDocx(templateBuffer);
@@ -242,11 +398,76 @@ export const generateRoutes = async (fastify: FastifyInstance) => {
             })));
         } catch (error) {
             request.log.error({ error }, "Failed to list templates");
-            return reply.status(500).send({ error: "Failed to list templates" });
+            return sendError(reply, error instanceof VelocidocError
+                ? error
+                : new StorageError(`Failed to list templates: ${error instanceof Error ? error.message : String(error)}`));
+        }
+    });
+
+    /**
+     * GET /v1/templates/:id/preview
+     *
+     * Renders a stored template with its sample data (`<id>.sample.json`)
+     * to PNG: one image for a single page, a ZIP for several.
+     * Query: pages (e.g. "1-3,5", default "1"), dpi (default 96)
+     */
+    f.get("/templates/:id/preview", {
+        schema: {
+            params: z.object({ id: z.string().min(1) }),
+            querystring: PreviewOptionsSchema,
+        },
+    }, async (request, reply) => {
+        const { id } = request.params;
+
+        try {
+            const template = await loadTemplate({ template_id: id }, request.log, getTenantId(request));
+            const document = await documentGenerator.generate(
+                template,
+                await loadSampleData(id),
+                { outputFormat: "png", preview: request.query },
+                request.log,
+            );
+
+            setWarningHeaders(reply, document.warnings);
+            return reply
+                .headers(documentHeaders(document.contentType, `${toOutputFilename(id)}-preview.${document.extension}`))
+                .send(document.buffer);
+        } catch (error) {
+            request.log.error({ error }, "Template preview failed");
+            return sendError(reply, error);
         }
     });
 };
 
+/**
+ * Report unresolved placeholders of a non-strict render: X-Template-Warnings
+ * holds the first entries as JSON, X-Template-Warnings-Count the total
+ */
+function setWarningHeaders(reply: FastifyReply, warnings: UnresolvedPlaceholder[]): void {
+    if (warnings.length === 0) return;
+
+    reply
+        .header("X-Template-Warnings", headerJson(warnings.slice(0, MAX_HEADER_WARNINGS)))
+        .header("X-Template-Warnings-Count", String(warnings.length));
+}
+
+/**
+ * A JSON array for a response header: as many leading entries as fit in
+ * MAX_HEADER_JSON_LENGTH, escaped to ASCII as header values must be
+ */
+function headerJson(entries: unknown[]): string {
+    const fitting: string[] = [];
+    let length = 2;
+    for (const entry of entries) {
+        const json = JSON.stringify(entry)
+            .replace(/[\u007f-\uffff]/g, c => `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`);
+        if (length + json.length + 1 > MAX_HEADER_JSON_LENGTH) break;
+        fitting.push(json);
+        length += json.length + 1;
+    }
+    return `[${fitting.join(",")}]`;
+}
+
 /**
  * Flatten object keys for field comparison
  * { a: { b: 1 }, c: [{ d: 2 }] } => ['a', 'a.b', 'c', 'c.d']
@@ -265,96 +486,3 @@ function flattenKeys(obj: Record<string, any>, prefix = ''): string[] {
     }
     return keys;
 }
-
-/**
- * Extract filename from URL, handling various URL formats
- * - SharePoint: .../Documents/invoice.docx?share=...
- * - OneDrive: .../download.aspx?file=invoice.docx
- * - S3: .../bucket/path/invoice.docx?X-Amz-...
- * - Direct: .../invoice.docx
- */
-function extractFilenameFromUrl(url: string): string {
-    try {
-        const urlObj = new URL(url);
-        const pathname = urlObj.pathname;
-
-        // Try to extract filename from pathname
-        const pathParts = pathname.split('/').filter(Boolean);
-        const lastPart = pathParts[pathParts.length - 1];
-
-        // Check if last part looks like a filename
-        if (lastPart && lastPart.includes('.')) {
-            // Decode URI component and remove any query-like suffixes
-            return decodeURIComponent(lastPart.split('?')[0]);
-        }
-
-        // Check query params for file parameter (OneDrive style)
-        const fileParam = urlObj.searchParams.get('file') || urlObj.searchParams.get('filename');
-        if (fileParam) {
-            return decodeURIComponent(fileParam);
-        }
-
-        // Fallback to generic name
-        return 'template.docx';
-    } catch {
-        return 'template.docx';
-    }
-}
-
-/**
- * Fetch template from a remote URL
- * Supports: SharePoint sharing links, OneDrive, S3 pre-signed URLs, public URLs
- */
-async function fetchTemplateFromUrl(url: string, log: any): Promise<Buffer> {
-    const TIMEOUT_MS = 30000; // 30 second timeout
-    const MAX_SIZE = 50 * 1024 * 1024; // 50MB max template size
-
-    log.info({ url }, "Fetching template from URL");
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
-
-    try {
-        const response = await fetch(url, {
-            method: 'GET',
-            signal: controller.signal,
-            headers: {
-                'Accept': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document, application/octet-stream, */*',
-                'User-Agent': 'Velocidoc-PDFGen/1.0',
-            },
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-            throw new Error(`Failed to fetch template: HTTP ${response.status} ${response.statusText}`);
-        }
-
-        // Check content length if available
-        const contentLength = response.headers.get('content-length');
-        if (contentLength && parseInt(contentLength) > MAX_SIZE) {
-            throw new Error(`Template file too large: ${contentLength} bytes (max ${MAX_SIZE})`);
-        }
-
-        const arrayBuffer = await response.arrayBuffer();
-
-        if (arrayBuffer.byteLength > MAX_SIZE) {
-            throw new Error(`Template file too large: ${arrayBuffer.byteLength} bytes (max ${MAX_SIZE})`);
-        }
-
-        log.info({ size: arrayBuffer.byteLength }, "Template fetched successfully");
-
-        return Buffer.from(arrayBuffer);
-
-    } catch (error) {
-        clearTimeout(timeoutId);
-
-        if (error instanceof Error) {
-            if (error.name === 'AbortError') {
-                throw new Error(`Failed to fetch template: Request timed out after ${TIMEOUT_MS}ms`);
-            }
-            throw new Error(`Failed to fetch template from URL: ${error.message}`);
-        }
-        throw new Error(`Failed to fetch template from URL: ${String(error)}`);
-    }
-}
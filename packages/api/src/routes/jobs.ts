@@ -0,0 +1,173 @@
+import { FastifyInstance, FastifyRequest } from "fastify";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import { loadTemplate, getTemplateName } from "../services/template-loader.ts";
+import { documentGenerator } from "../services/generator.ts";
+import { getJobStore, jobSecrets, JobQueue, JobStore } from "../jobs/index.ts";
+import type { JobProcessor, JobQueueOptions } from "../jobs/queue.ts";
+import { toJobResponse } from "../jobs/queue.ts";
+import { JobNotFoundError, JobNotReadyError, toErrorResponse } from "../errors.ts";
+import { sendError } from "../middleware/error-handler.ts";
+import { getTenantId } from "../middleware/auth.ts";
+import {
+    UniversalPayloadFields,
+    UniversalPayloadSchema,
+    withTemplateSource,
+    toGenerateOptions,
+    toOutputFilename,
+    documentHeaders,
+} from "./schemas.ts";
+
+// Same payload as /v1/generate, plus an optional completion callback
+const JobPayloadSchema = withTemplateSource(UniversalPayloadFields.extend({
+    callback_url: z.string().url("Invalid callback URL").optional(),
+}));
+
+const JobParamsSchema = z.object({
+    id: z.string(),
+});
+
+export interface JobRoutesOptions {
+    store?: JobStore;
+    queue?: JobQueueOptions;
+}
+
+/**
+ * Render a job's payload exactly as /v1/generate would
+ */
+const processJob: JobProcessor = async (job, log) => {
+    const payload = UniversalPayloadSchema.parse(jobSecrets.open(job.payload!, job.secrets));
+    const template = await loadTemplate(payload, log, job.tenantId);
+    const document = await documentGenerator.generate(
+        template,
+        payload.data,
+        toGenerateOptions(payload.output_format, payload.options, job.tenantId),
+        log,
+    );
+
+    return {
+        buffer: document.buffer,
+        contentType: document.contentType,
+        filename: `${toOutputFilename(getTemplateName(payload))}.${document.extension}`,
+        warnings: document.warnings,
+    };
+};
+
+export const jobRoutes = async (fastify: FastifyInstance, opts: JobRoutesOptions) => {
+    const f = fastify.withTypeProvider<ZodTypeProvider>();
+    const store = opts.store || getJobStore();
+    const queue = new JobQueue(
+        store,
+        processJob,
+        (error) => toErrorResponse(error).body,
+        fastify.log,
+        opts.queue,
+    );
+
+    fastify.addHook("onReady", async () => {
+        await queue.start();
+    });
+
+    fastify.addHook("onClose", async () => {
+        await queue.stop();
+    });
+
+    // Jobs are only visible to the tenant that created them
+    const findJob = async (request: FastifyRequest, id: string) => {
+        const job = await store.get(id);
+        return job && job.tenantId === getTenantId(request) ? job : null;
+    };
+
+    /**
+     * POST /v1/jobs
+     *
+     * Queues a generation job and returns immediately with its ID.
+     * Accepts the /v1/generate payload plus an optional callback_url,
+     * which receives the job status as JSON when the job finishes; it must
+     * pass the URL policy (403 URL_NOT_ALLOWED otherwise).
+     */
+    f.post("/jobs", {
+        schema: {
+            body: JobPayloadSchema,
+        },
+    }, async (request, reply) => {
+        const { callback_url, ...payload } = request.body;
+        const id = randomUUID();
+        const statusPath = `${fastify.prefix}/jobs/${id}`;
+
+        if (callback_url) {
+            try {
+                await queue.checkCallbackUrl(callback_url);
+            } catch (error) {
+                return sendError(reply, error);
+            }
+        }
+
+        // Credentials are encrypted rather than written to the job store as they are
+        const sealed = jobSecrets.seal(payload);
+        const job = await store.create({
+            id,
+            tenantId: getTenantId(request),
+            status: 'queued',
+            payload: sealed.payload,
+            secrets: sealed.secrets,
+            callbackUrl: callback_url,
+            resultUrl: `${request.protocol}://${request.host}${statusPath}/result`,
+            createdAt: new Date().toISOString(),
+        });
+        queue.enqueue(id);
+
+        request.log.info({ jobId: id, template: getTemplateName(payload) }, "Job queued");
+
+        return reply
+            .status(202)
+            .header("Location", statusPath)
+            .send({
+                ...toJobResponse(job),
+                status_url: statusPath,
+            });
+    });
+
+    /**
+     * GET /v1/jobs/:id
+     *
+     * Returns the job status; result_url is included once completed
+     */
+    f.get("/jobs/:id", {
+        schema: {
+            params: JobParamsSchema,
+        },
+    }, async (request, reply) => {
+        const job = await findJob(request, request.params.id);
+        if (!job) {
+            return sendError(reply, new JobNotFoundError(request.params.id));
+        }
+
+        return reply.status(200).send(toJobResponse(job));
+    });
+
+    /**
+     * GET /v1/jobs/:id/result
+     *
+     * Downloads the generated document of a completed job
+     */
+    f.get("/jobs/:id/result", {
+        schema: {
+            params: JobParamsSchema,
+        },
+    }, async (request, reply) => {
+        const job = await findJob(request, request.params.id);
+        if (!job) {
+            return sendError(reply, new JobNotFoundError(request.params.id));
+        }
+
+        if (job.status !== 'completed' || !job.result) {
+            return sendError(reply, new JobNotReadyError(job.id, job.status, job.error));
+        }
+
+        return reply
+            .headers(documentHeaders(job.result.contentType, job.result.filename))
+            .send(await store.getResult(job.id));
+    });
+};
@@ -0,0 +1,121 @@
+/**
+ * Multipart request support
+ *
+ * Lets clients upload templates and images as binary file parts instead of
+ * base64 inside JSON. A preValidation hook turns the multipart body into the
+ * payload shape the route's JSON schema expects:
+ * - `template` file part → the template (Buffer content, original filename)
+ * - `data`, `options` and `template_auth` parts → parsed as JSON
+ * - other text parts (output_format, template_id, ...) → strings
+ * - other file parts → attachments, referenced from data as "attachment:<part name>"
+ *   and passed on as Buffers (images are read from the bytes, not re-encoded as base64)
+ */
+
+import { FastifyRequest } from "fastify";
+import { InvalidMultipartError } from "../errors.ts";
+
+export const ATTACHMENT_PREFIX = "attachment:";
+
+// Text parts that carry JSON rather than plain strings
+const JSON_FIELDS = new Set(["data", "options", "template_auth"]);
+
+export interface UploadedFile {
+    filename: string;
+    mimetype: string;
+    buffer: Buffer;
+}
+
+/**
+ * Read every part of a multipart request, buffering file parts
+ */
+export async function readMultipart(request: FastifyRequest): Promise<{
+    fields: Record<string, unknown>;
+    files: Map<string, UploadedFile>;
+}> {
+    const fields: Record<string, unknown> = {};
+    const files = new Map<string, UploadedFile>();
+
+    for await (const part of request.parts()) {
+        if (fields[part.fieldname] !== undefined || files.has(part.fieldname)) {
+            throw new InvalidMultipartError(`Duplicate part '${part.fieldname}'`);
+        }
+
+        if (part.type === "file") {
+            files.set(part.fieldname, {
+                filename: part.filename,
+                mimetype: part.mimetype,
+                buffer: await part.toBuffer(),
+            });
+        } else if (JSON_FIELDS.has(part.fieldname)) {
+            try {
+                fields[part.fieldname] = JSON.parse(String(part.value));
+            } catch {
+                throw new InvalidMultipartError(`Part '${part.fieldname}' must be valid JSON`);
+            }
+        } else {
+            fields[part.fieldname] = part.value;
+        }
+    }
+
+    return { fields, files };
+}
+
+/**
+ * Replace "attachment:<part name>" strings in data with the uploaded file's
+ * bytes, which the image pipeline handles like an inline data URI
+ */
+export function resolveAttachments(data: unknown, files: Map<string, UploadedFile>): unknown {
+    if (typeof data === "string") {
+        if (!data.startsWith(ATTACHMENT_PREFIX)) return data;
+
+        const name = data.slice(ATTACHMENT_PREFIX.length);
+        const file = files.get(name);
+        if (!file) {
+            throw new InvalidMultipartError(`Data references unknown attachment '${name}'`);
+        }
+        return file.buffer;
+    }
+
+    if (Array.isArray(data)) {
+        return data.map(item => resolveAttachments(item, files));
+    }
+
+    if (data && typeof data === "object") {
+        const resolved: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(data)) {
+            resolved[key] = resolveAttachments(value, files);
+        }
+        return resolved;
+    }
+
+    return data;
+}
+
+/**
+ * preValidation hook mapping a multipart body onto a JSON payload.
+ * JSON requests pass through untouched; InvalidMultipartError is
+ * answered by the server's error handler.
+ * @param templateField - Where the `template` file part goes: `template`
+ *                        (an inline template) or `content` (raw bytes, for validation)
+ */
+export function multipartPayload(templateField: "template" | "content") {
+    return async (request: FastifyRequest) => {
+        if (!request.isMultipart()) return;
+
+        const { fields, files } = await readMultipart(request);
+
+        const template = files.get("template");
+        if (template) {
+            files.delete("template");
+            fields[templateField] = templateField === "template"
+                ? { content: template.buffer, filename: template.filename }
+                : template.buffer;
+        }
+
+        if (fields.data !== undefined) {
+            fields.data = resolveAttachments(fields.data, files);
+        }
+
+        request.body = fields;
+    };
+}
@@ -0,0 +1,252 @@
+/**
+ * Request schemas shared by the generation routes
+ *
+ * /v1/generate, /v1/generate/batch and /v1/jobs all accept the same
+ * template reference and document options, so they are defined once here.
+ */
+
+import { z } from "zod";
+import type { GenerateOptions, OutputFormat } from "../services/generator.ts";
+import type { PdfALevel, PdfStandard } from "../services/gotenberg.ts";
+import { isStandardFontText, type PdfProtection } from "../services/pdf.ts";
+import type { SignatureOptions } from "../services/signing.ts";
+import { MAX_PREVIEW_DPI } from "../services/preview.ts";
+import { isValidLocale, isValidTimezone } from "../services/formatting.ts";
+
+export const OutputFormatSchema = z.enum(["pdf", "docx", "html", "png"]);
+
+// Template bytes: base64 in JSON bodies, a Buffer for multipart file uploads
+export const TemplateContentSchema = z.union([
+    z.string().min(1, "Template content is required"),
+    z.instanceof(Buffer),
+]);
+
+// Inline template schema for BYOT (Bring Your Own Template)
+export const InlineTemplateSchema = z.object({
+    content: TemplateContentSchema,
+    filename: z.string().min(1, "Filename is required"),
+});
+
+// Watermarks and signature stamps are drawn with the standard PDF fonts
+const standardFontMessage = (text: string) => ({
+    message: `Unsupported character '${[...text].find(c => !isStandardFontText(c))}': only Latin (Windows-1252) characters can be drawn`,
+});
+
+// Watermark options; `watermark: true` applies these defaults
+export const WatermarkSchema = z.object({
+    text: z.string().min(1).max(100).refine(isStandardFontText, standardFontMessage).default("DRAFT"),
+    opacity: z.number().min(0).max(1).default(0.2),
+    rotation: z.number().min(-360).max(360).default(45),
+    font_size: z.number().positive().max(500).default(72),
+    color: z.string().regex(/^#?[0-9a-fA-F]{6}$/, "Color must be a hex value like #808080").default("#808080"),
+});
+
+// Page selection and resolution for PNG previews
+export const PreviewOptionsSchema = z.object({
+    pages: z.string().regex(/^\s*\d+(-\d+)?(\s*,\s*\d+(-\d+)?)*\s*$/, "Pages must be a range like 1-3,5").optional(),
+    dpi: z.coerce.number().int().min(24).max(MAX_PREVIEW_DPI).optional(),
+});
+
+// Archival / accessibility conformance: one value, or a PDF/A level plus PDF/UA
+const PdfStandardValueSchema = z.enum(["PDF/A-2b", "PDF/A-3b", "PDF/UA"]);
+
+export const PdfStandardSchema = z.union([
+    PdfStandardValueSchema,
+    z.array(PdfStandardValueSchema).min(1).max(2),
+]).refine(
+    (value) => [value].flat().filter(standard => standard !== "PDF/UA").length <= 1,
+    { message: "pdf_standard can include at most one PDF/A level" }
+);
+
+// Password protection; permissions default to allowed
+export const ProtectionSchema = z.object({
+    user_password: z.string().min(1).max(127).optional(),
+    owner_password: z.string().min(1).max(127).optional(),
+    permissions: z.object({
+        printing: z.boolean().default(true),
+        copying: z.boolean().default(true),
+        editing: z.boolean().default(true),
+    }).default({}),
+}).refine(
+    (protection) => protection.user_password || protection.owner_password,
+    { message: "protection requires user_password and/or owner_password" }
+);
+
+// Digital signature with a server-side certificate; invisible unless `field` is given
+export const SignSchema = z.object({
+    certificate: z.string().regex(/^[A-Za-z0-9_-]+$/, "Certificate name may only contain letters, digits, '-' and '_'"),
+    reason: z.string().max(200).optional(),
+    location: z.string().max(200).optional(),
+    contact_info: z.string().max(200).optional(),
+    name: z.string().max(200).optional(),
+    field: z.object({
+        page: z.number().int().positive().optional(),
+        x: z.number().min(0),
+        y: z.number().min(0),
+        width: z.number().positive(),
+        height: z.number().positive(),
+    }).optional(),
+}).superRefine((sign, ctx) => {
+    // The visible field shows the signer name, reason and location
+    if (!sign.field) return;
+    for (const key of ["name", "reason", "location"] as const) {
+        const text = sign[key];
+        if (text !== undefined && !isStandardFontText(text)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], ...standardFontMessage(text) });
+        }
+    }
+});
+
+// Document options shared by single and batch generation
+export const GenerateOptionsSchema = PreviewOptionsSchema.extend({
+    header_text: z.string().optional(),
+    watermark: z.union([z.boolean(), WatermarkSchema]).optional(),
+    metadata: z.record(z.string()).optional(),
+    pdf_standard: PdfStandardSchema.optional(),
+    protection: ProtectionSchema.optional(),
+    sign: SignSchema.optional(),
+    strict: z.boolean().optional(),
+    locale: z.string().refine(isValidLocale, { message: "locale must be a BCP 47 tag like de-DE" }).optional(),
+    timezone: z.string().refine(isValidTimezone, { message: "timezone must be an IANA zone like Europe/Berlin" }).optional(),
+});
+
+// Per-request credentials for template_url
+export const TemplateAuthSchema = z.object({
+    bearer_token: z.string().min(1).optional(),
+    headers: z.record(
+        z.string().regex(/^[A-Za-z0-9-]+$/, "Header names may only contain letters, digits and '-'"),
+        z.string(),
+    ).optional(),
+}).refine(
+    (auth) => auth.bearer_token || auth.headers,
+    { message: "template_auth requires bearer_token and/or headers" }
+);
+
+// Template source fields: exactly one of template_id, template or template_url,
+// plus optional credentials for template_url
+export const TemplateReferenceSchema = z.object({
+    template_id: z.string().optional(),
+    template: InlineTemplateSchema.optional(),
+    template_url: z.string().url("Invalid URL format").optional(),
+    source: z.string().regex(/^[A-Za-z0-9_-]+$/, "Source name may only contain letters, digits, '-' and '_'").optional(),
+    template_auth: TemplateAuthSchema.optional(),
+});
+
+const hasTemplateSource = (data: z.infer<typeof TemplateReferenceSchema>) =>
+    Boolean(data.template_id || data.template || data.template_url);
+
+const hasSingleTemplateSource = (data: z.infer<typeof TemplateReferenceSchema>) =>
+    [data.template_id, data.template, data.template_url].filter(Boolean).length === 1;
+
+const hasValidCredentials = (data: z.infer<typeof TemplateReferenceSchema>) =>
+    !(data.source || data.template_auth) || Boolean(data.template_url && !(data.source && data.template_auth));
+
+/**
+ * Add the "exactly one template source" checks to a payload schema
+ */
+export function withTemplateSource<T extends z.ZodTypeAny>(schema: T): z.ZodEffects<z.ZodEffects<z.ZodEffects<T>>> {
+    return schema.refine(
+        hasTemplateSource,
+        { message: "One of template_id, template, or template_url must be provided" }
+    ).refine(
+        hasSingleTemplateSource,
+        { message: "Provide exactly one of: template_id, template, or template_url" }
+    ).refine(
+        hasValidCredentials,
+        { message: "source and template_auth require template_url and can't be combined" }
+    ) as z.ZodEffects<z.ZodEffects<z.ZodEffects<T>>>;
+}
+
+// Fields of UniversalPayload, before the template source checks
+export const UniversalPayloadFields = TemplateReferenceSchema.extend({
+    output_format: OutputFormatSchema,
+    data: z.record(z.any()),
+    options: GenerateOptionsSchema.optional(),
+});
+
+// Zod schema matching UniversalPayload interface
+// Supports three modes: template_id (server-stored), template (BYOT), or template_url (remote)
+export const UniversalPayloadSchema = withTemplateSource(UniversalPayloadFields);
+
+/**
+ * Map request options (snake_case payload) to generator options.
+ * `watermark: true` expands to the default watermark; signing certificates
+ * are looked up for `tenantId`.
+ */
+export function toGenerateOptions(
+    outputFormat: OutputFormat,
+    options: z.infer<typeof GenerateOptionsSchema> | undefined,
+    tenantId: string,
+): GenerateOptions {
+    const watermark = options?.watermark === true
+        ? WatermarkSchema.parse({})
+        : options?.watermark || undefined;
+
+    return {
+        outputFormat,
+        watermark,
+        headerText: options?.header_text,
+        metadata: options?.metadata,
+        preview: outputFormat === "png" ? { pages: options?.pages, dpi: options?.dpi } : undefined,
+        pdfStandard: options?.pdf_standard ? toPdfStandard(options.pdf_standard) : undefined,
+        protection: options?.protection ? toPdfProtection(options.protection) : undefined,
+        signature: options?.sign ? toSignatureOptions(options.sign, tenantId) : undefined,
+        strict: options?.strict,
+        locale: options?.locale,
+        timezone: options?.timezone,
+    };
+}
+
+function toPdfProtection(protection: z.infer<typeof ProtectionSchema>): PdfProtection {
+    return {
+        userPassword: protection.user_password,
+        ownerPassword: protection.owner_password,
+        permissions: protection.permissions,
+    };
+}
+
+function toSignatureOptions(sign: z.infer<typeof SignSchema>, tenantId: string): SignatureOptions {
+    return {
+        tenantId,
+        certificate: sign.certificate,
+        reason: sign.reason,
+        location: sign.location,
+        contactInfo: sign.contact_info,
+        name: sign.name,
+        field: sign.field,
+    };
+}
+
+/**
+ * Map pdf_standard ("PDF/A-2b", ["PDF/A-3b", "PDF/UA"], ...) to converter settings
+ */
+export function toPdfStandard(value: z.infer<typeof PdfStandardSchema>): PdfStandard {
+    const standards = [value].flat();
+    return {
+        pdfa: standards.find((standard): standard is PdfALevel => standard !== "PDF/UA"),
+        pdfua: standards.includes("PDF/UA"),
+    };
+}
+
+/**
+ * Output filename (without extension) for a template name
+ */
+export function toOutputFilename(templateName: string): string {
+    return templateName.replace(/\.(docx|html?)$/i, '').replace(/\//g, "_");
+}
+
+/**
+ * Response headers for a generated document. HTML and PNG are meant for
+ * in-browser previews, everything else is a download. HTML can carry
+ * request data (e.g. triple-stash web template fields) and is served from
+ * the API origin, so it is sandboxed: no scripts, forms or same-origin access.
+ */
+export function documentHeaders(contentType: string, filename: string): Record<string, string> {
+    const html = contentType.startsWith("text/html");
+    const disposition = html || contentType === "image/png" ? "inline" : "attachment";
+    return {
+        "Content-Type": contentType,
+        "Content-Disposition": `${disposition}; filename="${filename}"`,
+        ...(html && { "Content-Security-Policy": "sandbox" }),
+    };
+}
@@ -1,22 +1,31 @@
-import Fastify from "fastify";
+import Fastify, { FastifyServerOptions } from "fastify";
 import { serializerCompiler, validatorCompiler, ZodTypeProvider } from "fastify-type-provider-zod";
 import helmet from "@fastify/helmet";
 import cors from "@fastify/cors";
 import rateLimit from "@fastify/rate-limit";
+import multipart from "@fastify/multipart";
 import { generateRoutes } from "./routes/generate.ts";
+import { jobRoutes } from "./routes/jobs.ts";
 import { registerAuth } from "./middleware/auth.ts";
+import { errorHandler } from "./middleware/error-handler.ts";
 
-export const buildServer = async () => {
+export interface BuildServerOptions {
+    /** Logger configuration (defaults to JSON logs on stdout) */
+    logger?: FastifyServerOptions["logger"];
+}
+
+export const buildServer = async (options: BuildServerOptions = {}) => {
     const server = Fastify({
-        logger: true,
+        logger: options.logger ?? true,
     }).withTypeProvider<ZodTypeProvider>();
 
     server.setValidatorCompiler(validatorCompiler);
     server.setSerializerCompiler(serializerCompiler);
+    server.setErrorHandler(errorHandler);
 
     // Security headers (OWASP recommended)
     await server.register(helmet, {
-        contentSecurityPolicy: false, // Disable CSP for API (no HTML responses)
+        contentSecurityPolicy: false, // JSON API; HTML output gets a sandbox CSP per response (see documentHeaders)
     });
 
     // CORS configuration
@@ -34,16 +43,27 @@ export const buildServer = async () => {
         errorResponseBuilder: (request, context) => ({
             statusCode: 429,
             error: 'Too Many Requests',
+            code: 'RATE_LIMITED',
             message: `Rate limit exceeded. You have made ${context.max} requests in ${context.after}. Please try again later.`,
             retryAfter: context.after,
         }),
     });
 
+    // Multipart uploads (binary templates and images instead of base64 JSON)
+    await server.register(multipart, {
+        limits: {
+            fileSize: parseInt(process.env.MULTIPART_MAX_FILE_SIZE || String(50 * 1024 * 1024), 10),
+            files: parseInt(process.env.MULTIPART_MAX_FILES || '100', 10),
+            fieldSize: 10 * 1024 * 1024, // `data` JSON part
+        },
+    });
+
     // API Key authentication
     await registerAuth(server);
 
     // Register routes
     await server.register(generateRoutes, { prefix: "/v1" });
+    await server.register(jobRoutes, { prefix: "/v1" });
 
     server.get("/health", async () => {
         return { status: "ok", timestamp: new Date().toISOString() };
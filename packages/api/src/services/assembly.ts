@@ -0,0 +1,113 @@
+/**
+ * Document Assembly Service
+ *
+ * Builds one PDF from an ordered list of parts (e.g. cover page, main
+ * agreement, annexes), each with its own template and optional data.
+ * Every part is rendered and converted separately, then merged with a
+ * bookmark per part. Watermarks, metadata, password protection and the
+ * signature apply to the assembled PDF; strict mode, locale and timezone
+ * apply to every part.
+ */
+
+import { documentGenerator, checkOutputOptions, GenerateOptions } from "./generator.ts";
+import { pdfService } from "./pdf.ts";
+import { signingService } from "./signing.ts";
+import { mapConcurrent } from "./batch.ts";
+import type { RenderOptions } from "./unresolved.ts";
+import { loadTemplate, getTemplateName, TemplateReference } from "./template-loader.ts";
+import { VelocidocError, toVelocidocError } from "../errors.ts";
+
+export interface AssemblyPart extends TemplateReference {
+    /** Part-specific data, merged over the shared data */
+    data?: Record<string, any>;
+    /** Bookmark title (defaults to the template name) */
+    title?: string;
+}
+
+/**
+ * Thrown when one part of an assembly fails. Keeps the code and status of
+ * the part's own error, adding which part failed to the context.
+ */
+export class AssemblyPartError extends VelocidocError {
+    constructor(
+        public readonly part: number,       // 1-based position in the request
+        public readonly partTitle: string,
+        public readonly cause: VelocidocError,
+    ) {
+        super(cause.code, cause.statusCode, cause.title, `Part ${part} (${partTitle}) failed: ${cause.message}`, {
+            ...cause.context,
+            part,
+            part_title: partTitle,
+        });
+    }
+}
+
+/**
+ * Bookmark title for a part
+ */
+export function getPartTitle(part: AssemblyPart): string {
+    return part.title || getTemplateName(part).replace(/\.(docx|html?)$/i, '');
+}
+
+/**
+ * Render every part to PDF and merge them in order, with one bookmark per part
+ * @param parts - Ordered parts, each with its own template reference
+ * @param sharedData - Data available to every part
+ * @param options - Document options; the output format is always PDF.
+ *                  `unresolved` receives the unresolved placeholders of every part,
+ *                  and `tenantId` selects the template sources parts may use.
+ * @param log - Request logger
+ * @returns Promise<Buffer> - The assembled PDF
+ */
+export async function assembleDocument(
+    parts: AssemblyPart[],
+    sharedData: Record<string, any>,
+    options: Omit<GenerateOptions, 'outputFormat'> & Pick<RenderOptions, 'unresolved'> & { tenantId?: string },
+    log: any,
+): Promise<Buffer> {
+    const { watermark, metadata, headerText, protection, signature, strict, locale, timezone, unresolved, tenantId, ...rest } = options;
+    checkOutputOptions({ outputFormat: "pdf", watermark, metadata, headerText, protection, signature, ...rest });
+
+    // Parts are independent, so render them concurrently (bounded like a batch); the merge keeps request order
+    const rendered = await mapConcurrent(parts, async (part, i) => {
+        const title = getPartTitle(part);
+        const partLog = log.child({ assemblyPart: i + 1 });
+
+        try {
+            const template = await loadTemplate(part, partLog, tenantId);
+            const document = await documentGenerator.generate(
+                template,
+                { ...sharedData, ...part.data },
+                { outputFormat: "pdf", headerText, strict, locale, timezone },
+                partLog,
+            );
+            const warnings = document.warnings.map(warning => ({
+                ...warning,
+                message: `Part ${i + 1} (${title}): ${warning.message}`,
+            }));
+            return { buffer: document.buffer, warnings };
+        } catch (error) {
+            throw new AssemblyPartError(i + 1, title, toVelocidocError(error));
+        }
+    });
+
+    unresolved?.push(...rendered.flatMap(part => part.warnings));
+
+    let pdf = await pdfService.merge(rendered.map(part => part.buffer), parts.map(getPartTitle));
+    log.info({ parts: parts.length }, "Assembly merged");
+
+    if (watermark) {
+        pdf = await pdfService.addWatermark(pdf, watermark);
+    }
+    if (metadata) {
+        pdf = await pdfService.setMetadata(pdf, metadata);
+    }
+    if (protection) {
+        pdf = await pdfService.encrypt(pdf, protection);
+    }
+    if (signature) {
+        pdf = await signingService.sign(pdf, signature);
+    }
+
+    return pdf;
+}
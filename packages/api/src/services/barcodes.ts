@@ -0,0 +1,116 @@
+/**
+ * Barcodes - QR codes and barcodes drawn while a Word template renders
+ *
+ * `codes.qr` and `codes.barcode` are available in template commands, so
+ * labels and invoices don't need the images generated beforehand:
+ *
+ *   {{IMAGE codes.qr(order.payment_url, { size: 4, errorCorrection: 'H' })}}
+ *   {{IMAGE codes.barcode(item.sku, 'code128', { width: 6, height: 1.5 })}}
+ *
+ * Symbols are drawn as SVG by bwip-js and rasterized at the document's
+ * image resolution (see images.ts), so bars and modules stay crisp.
+ * Sizes are in cm, above 0 and at most 100 like other images. A missing
+ * value renders as a missing placeholder; a value the symbology can't
+ * encode, or a size out of range, fails the command with the reason.
+ */
+
+import bwipjs from "bwip-js/node";
+import { prepareImage, imageSizeProblem, DocxImage } from "./images.ts";
+
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export interface QrOptions {
+    /** Side in cm (default 3) */
+    size?: number;
+    /** Share of the code that can be damaged and still read: L 7%, M 15% (default), Q 25%, H 30% */
+    errorCorrection?: ErrorCorrectionLevel;
+}
+
+export interface BarcodeOptions {
+    /** Width in cm (default 5 for linear barcodes, 3 for 2D ones) */
+    width?: number;
+    /** Bar height in cm for linear barcodes (default 1.5); the box 2D symbols fit in */
+    height?: number;
+    /** Print the value under linear barcodes (default true) */
+    text?: boolean;
+}
+
+// bwip-js symbologies templates may use
+const LINEAR_TYPES = new Set(["code128", "code39", "ean13", "ean8", "upca", "itf14"]);
+const MATRIX_TYPES = new Set(["qrcode", "datamatrix", "pdf417"]);
+
+const ERROR_CORRECTION_LEVELS = new Set(["L", "M", "Q", "H"]);
+
+/**
+ * QR code image for a text or URL
+ */
+export async function qr(value: unknown, options: QrOptions = {}): Promise<DocxImage | undefined> {
+    if (isMissing(value)) return undefined;
+    const { size = 3, errorCorrection = "M" } = options;
+    if (!ERROR_CORRECTION_LEVELS.has(errorCorrection)) {
+        throw new Error(`Invalid QR error correction '${errorCorrection}' (use L, M, Q or H)`);
+    }
+    checkSizes({ "QR size": size });
+
+    const svg = draw("qrcode", value, { eclevel: errorCorrection });
+    return prepareImage(svgDataUri(svg), { width: size, height: size });
+}
+
+/**
+ * Barcode image of the given symbology
+ */
+export async function barcode(value: unknown, type = "code128", options: BarcodeOptions = {}): Promise<DocxImage | undefined> {
+    if (isMissing(value)) return undefined;
+
+    if (LINEAR_TYPES.has(type)) {
+        const { width = 5, height = 1.5, text = true } = options;
+        checkSizes({ "Barcode width": width, "Barcode height": height });
+        // bwip-js sizes in mm; the printed value adds to the height
+        const svg = draw(type, value, { width: width * 10, height: height * 10, includetext: text, textxalign: "center" });
+        return prepareImage(svgDataUri(svg), { width });
+    }
+
+    if (MATRIX_TYPES.has(type)) {
+        const { width = 3, height = width } = options;
+        checkSizes({ "Barcode width": width, "Barcode height": height });
+        return prepareImage(svgDataUri(draw(type, value, {})), { width, height });
+    }
+
+    throw new Error(`Unsupported barcode type '${type}' (use ${[...LINEAR_TYPES, ...MATRIX_TYPES].join(", ")})`);
+}
+
+/**
+ * Helpers added to the JS context of Word template commands, as `codes`
+ */
+export const barcodeHelpers = { qr, barcode };
+
+function draw(bcid: string, value: unknown, options: Record<string, unknown>): string {
+    const text = String(value);
+    try {
+        return bwipjs.toSVG({ bcid, text, backgroundcolor: "FFFFFF", paddingwidth: 2, paddingheight: 2, ...options });
+    } catch (error) {
+        // bwip-js messages start with an internal code, e.g. "bwipp.ean13badCheckDigit#6915: ..."
+        const reason = String((error as Error).message ?? error).replace(/^[\w.]+#\d+:\s*/, "");
+        throw new Error(`Can't encode '${text}' as ${bcid}: ${reason}`);
+    }
+}
+
+/**
+ * Fail the command before drawing when a size isn't usable
+ */
+function checkSizes(sizes: Record<string, unknown>): void {
+    for (const [name, value] of Object.entries(sizes)) {
+        const problem = imageSizeProblem(name, value);
+        if (problem) {
+            throw new Error(problem);
+        }
+    }
+}
+
+function svgDataUri(svg: string): string {
+    return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
+
+function isMissing(value: unknown): boolean {
+    return value === undefined || value === null || value === "";
+}
@@ -0,0 +1,158 @@
+/**
+ * Batch Generation Service
+ *
+ * Generates many documents from one template (loaded and parsed once),
+ * with bounded concurrency so Gotenberg isn't flooded, and bundles the
+ * results as a ZIP archive or a single merged PDF.
+ */
+
+import JSZip from "jszip";
+import { documentGenerator, GenerateOptions, GeneratedDocument } from "./generator.ts";
+import type { LoadedTemplate } from "./template-loader.ts";
+import type { UnresolvedPlaceholder } from "./unresolved.ts";
+import { toVelocidocError, ErrorCode } from "../errors.ts";
+
+const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || "4", 10);
+
+export interface BatchItemResult {
+    index: number;          // 1-based position in the request
+    filename: string;
+    status: "ok" | "error";
+    document?: GeneratedDocument;
+    error?: string;
+    code?: ErrorCode;
+}
+
+export interface BatchReport {
+    total: number;
+    succeeded: number;
+    failed: number;
+    items: Array<{
+        index: number;
+        filename: string;
+        status: "ok" | "error";
+        error?: string;
+        code?: ErrorCode;
+        warnings?: UnresolvedPlaceholder[];
+    }>;
+}
+
+/**
+ * Build an output filename from a pattern such as "letter-{{index}}-{{customer.name}}".
+ * {{index}} is the 1-based item number; other placeholders are looked up in the item data.
+ */
+export function formatFilename(pattern: string, data: Record<string, any>, index: number): string {
+    const name = pattern.replace(/\{\{\s*([\w.$]+)\s*\}\}/g, (_, path: string) => {
+        if (path === "index") return String(index);
+        const value = path.split(".").reduce<any>((obj, key) => obj?.[key], data);
+        return value === undefined || value === null ? "" : String(value);
+    });
+
+    // Strip path separators and characters that are invalid in filenames
+    const safe = name.replace(/[\/\\?%*:|"<>\x00-\x1f]/g, "_").trim();
+    return safe || `document-${index}`;
+}
+
+/**
+ * Map items with at most `concurrency` calls of `fn` running at once (BATCH_CONCURRENCY
+ * by default), so many documents don't flood Gotenberg. Results keep the item order;
+ * the first error stops new calls from starting and is rethrown.
+ */
+export async function mapConcurrent<T, R>(
+    items: T[],
+    fn: (item: T, index: number) => Promise<R>,
+    concurrency = BATCH_CONCURRENCY,
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    let failed = false;
+
+    const worker = async () => {
+        while (!failed && next < items.length) {
+            const i = next++;
+            try {
+                results[i] = await fn(items[i], i);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+    return results;
+}
+
+/**
+ * Render every data item with the same template.
+ * Failures are recorded per item; they don't abort the batch.
+ */
+export async function generateBatch(
+    template: LoadedTemplate,
+    items: Record<string, any>[],
+    filenamePattern: string,
+    options: GenerateOptions,
+    log: any,
+): Promise<BatchItemResult[]> {
+    const usedNames = new Map<string, number>();
+
+    // Assign unique filenames up front so they don't depend on completion order
+    const filenames = items.map((data, i) => {
+        const base = formatFilename(filenamePattern, data, i + 1);
+        const count = (usedNames.get(base) || 0) + 1;
+        usedNames.set(base, count);
+        return count > 1 ? `${base}-${count}` : base;
+    });
+
+    return mapConcurrent(items, async (data, i): Promise<BatchItemResult> => {
+        const filename = filenames[i];
+        try {
+            const document = await documentGenerator.generate(template, data, options, log.child({ batchItem: i + 1 }));
+            return { index: i + 1, filename: `${filename}.${document.extension}`, status: "ok", document };
+        } catch (error) {
+            log.warn({ batchItem: i + 1, error }, "Batch item failed");
+            const { code, message } = toVelocidocError(error);
+            return {
+                index: i + 1,
+                filename: `${filename}.${options.outputFormat}`,
+                status: "error",
+                error: message,
+                code,
+            };
+        }
+    });
+}
+
+/**
+ * Summarise batch results for the per-item error report
+ */
+export function buildBatchReport(results: BatchItemResult[]): BatchReport {
+    const succeeded = results.filter(r => r.status === "ok").length;
+    return {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        items: results.map(({ index, filename, status, error, code, document }) => ({
+            index,
+            filename,
+            status,
+            ...(error && { error, code }),
+            ...(document && document.warnings.length > 0 && { warnings: document.warnings }),
+        })),
+    };
+}
+
+/**
+ * Bundle successful documents into a ZIP, with the report as report.json
+ */
+export async function bundleZip(results: BatchItemResult[]): Promise<Buffer> {
+    const zip = new JSZip();
+    for (const result of results) {
+        if (result.document) {
+            zip.file(result.filename, result.document.buffer);
+        }
+    }
+    zip.file("report.json", JSON.stringify(buildBatchReport(results), null, 2));
+
+    return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
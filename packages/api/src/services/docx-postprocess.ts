@@ -0,0 +1,319 @@
+/**
+ * DOCX Post-processing Service
+ *
+ * Edits applied to an already rendered DOCX with JSZip, for document-wide
+ * additions that templates don't need to know about:
+ * - Watermarks and header text in the header of every section
+ * - Document properties (title, author, ... and custom properties)
+ */
+
+import JSZip from "jszip";
+import type { WatermarkOptions } from "@velocidoc/shared";
+
+const DOCUMENT_PATH = "word/document.xml";
+const DOCUMENT_RELS_PATH = "word/_rels/document.xml.rels";
+const SETTINGS_PATH = "word/settings.xml";
+const CONTENT_TYPES_PATH = "[Content_Types].xml";
+const PACKAGE_RELS_PATH = "_rels/.rels";
+const CORE_PROPS_PATH = "docProps/core.xml";
+const CUSTOM_PROPS_PATH = "docProps/custom.xml";
+
+const HEADER_REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/header";
+const HEADER_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml";
+const CORE_PROPS_REL_TYPE = "http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties";
+const CORE_PROPS_CONTENT_TYPE = "application/vnd.openxmlformats-package.core-properties+xml";
+const CUSTOM_PROPS_REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/custom-properties";
+const CUSTOM_PROPS_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.custom-properties+xml";
+// Format ID Word uses for all user-defined custom properties
+const CUSTOM_PROPS_FMTID = "{D5CDD505-2E9C-101B-9397-08002B2CF9AE}";
+
+const NAMESPACES: Record<string, string> = {
+    w: "http://schemas.openxmlformats.org/wordprocessingml/2006/main",
+    r: "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+    v: "urn:schemas-microsoft-com:vml",
+    o: "urn:schemas-microsoft-com:office:office",
+};
+
+type HeaderType = "default" | "first" | "even";
+
+/**
+ * Add a watermark to the header of every section.
+ * Uses the same VML text shape as Word's built-in watermark feature,
+ * so it can still be edited or removed from Word.
+ */
+export async function addDocxWatermark(docx: Buffer, watermark: WatermarkOptions): Promise<Buffer> {
+    const zip = await JSZip.loadAsync(docx);
+    const headerPaths = await ensureSectionHeaders(zip);
+
+    let index = 0;
+    for (const path of headerPaths) {
+        index++;
+        const xml = await zip.file(path)!.async("text");
+        const withNamespaces = declareNamespaces(xml, "w:hdr", ["w", "v", "o"]);
+        zip.file(path, insertRunIntoFirstParagraph(withNamespaces, watermarkRunXml(watermark, index)));
+    }
+
+    return Buffer.from(await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }));
+}
+
+/**
+ * Add a line of text to the header of every section (below any existing
+ * header content)
+ */
+export async function addDocxHeaderText(docx: Buffer, text: string): Promise<Buffer> {
+    const zip = await JSZip.loadAsync(docx);
+    const headerPaths = await ensureSectionHeaders(zip);
+
+    const paragraph = `<w:p><w:pPr><w:pStyle w:val="Header"/><w:jc w:val="center"/></w:pPr>`
+        + `<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+
+    for (const path of headerPaths) {
+        const xml = await zip.file(path)!.async("text");
+        // A lone empty paragraph is the placeholder from a freshly created header
+        const content = xml.includes("<w:p/></w:hdr>")
+            ? xml.replace("<w:p/></w:hdr>", () => `${paragraph}</w:hdr>`)
+            : xml.replace("</w:hdr>", () => `${paragraph}</w:hdr>`);
+        zip.file(path, declareNamespaces(content, "w:hdr", ["w"]));
+    }
+
+    return Buffer.from(await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }));
+}
+
+/**
+ * Write document metadata into the DOCX package.
+ * title, author, subject and keywords go into the core properties;
+ * any other key becomes a custom property (File > Properties > Custom in Word).
+ */
+export async function setDocxProperties(docx: Buffer, metadata: Record<string, string>): Promise<Buffer> {
+    const zip = await JSZip.loadAsync(docx);
+    const { title, author, subject, keywords, ...custom } = metadata;
+
+    let contentTypesXml = await zip.file(CONTENT_TYPES_PATH)!.async("text");
+    let packageRelsXml = await zip.file(PACKAGE_RELS_PATH)?.async("text")
+        ?? `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>`;
+
+    const ensurePart = (path: string, relType: string, contentType: string) => {
+        if (!packageRelsXml.includes(`Type="${relType}"`)) {
+            packageRelsXml = packageRelsXml.replace("</Relationships>",
+                `<Relationship Id="rIdVelocidoc${relType.split("/").pop()}" Type="${relType}" Target="${path}"/></Relationships>`);
+        }
+        if (!contentTypesXml.includes(`PartName="/${path}"`)) {
+            contentTypesXml = contentTypesXml.replace("</Types>",
+                `<Override PartName="/${path}" ContentType="${contentType}"/></Types>`);
+        }
+    };
+
+    // Core properties
+    const coreValues: Array<[string, string | undefined]> = [
+        ["dc:title", title],
+        ["dc:creator", author],
+        ["dc:subject", subject],
+        ["cp:keywords", keywords],
+    ];
+    if (coreValues.some(([, value]) => value !== undefined)) {
+        let coreXml = await zip.file(CORE_PROPS_PATH)?.async("text")
+            ?? `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:dcmitype="http://purl.org/dc/dcmitype/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"></cp:coreProperties>`;
+
+        for (const [tag, value] of coreValues) {
+            if (value === undefined) continue;
+            const element = `<${tag}>${escapeXml(value)}</${tag}>`;
+            const existing = new RegExp(`<${tag}\\b[^>]*?(?:\\/>|>[\\s\\S]*?<\\/${tag}>)`);
+            coreXml = existing.test(coreXml)
+                ? coreXml.replace(existing, () => element)
+                : coreXml.replace("</cp:coreProperties>", () => `${element}</cp:coreProperties>`);
+        }
+
+        zip.file(CORE_PROPS_PATH, coreXml);
+        ensurePart(CORE_PROPS_PATH, CORE_PROPS_REL_TYPE, CORE_PROPS_CONTENT_TYPE);
+    }
+
+    // Custom properties
+    if (Object.keys(custom).length > 0) {
+        let customXml = await zip.file(CUSTOM_PROPS_PATH)?.async("text")
+            ?? `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes"></Properties>`;
+
+        // Property ids start at 2 and must be unique
+        const pids = Array.from(customXml.matchAll(/\spid="(\d+)"/g), m => parseInt(m[1], 10));
+        let nextPid = Math.max(1, ...pids) + 1;
+
+        for (const [name, value] of Object.entries(custom)) {
+            const existing = new RegExp(`<property\\b[^>]*\\sname="${escapeRegExp(escapeXml(name))}"[^>]*>[\\s\\S]*?<\\/property>`);
+            const match = customXml.match(existing);
+            const pid = match ? getAttribute(match[0], "pid") : String(nextPid++);
+            const property = `<property fmtid="${CUSTOM_PROPS_FMTID}" pid="${pid}" name="${escapeXml(name)}"><vt:lpwstr>${escapeXml(value)}</vt:lpwstr></property>`;
+            customXml = match
+                ? customXml.replace(existing, () => property)
+                : customXml.replace("</Properties>", () => `${property}</Properties>`);
+        }
+
+        zip.file(CUSTOM_PROPS_PATH, customXml);
+        ensurePart(CUSTOM_PROPS_PATH, CUSTOM_PROPS_REL_TYPE, CUSTOM_PROPS_CONTENT_TYPE);
+    }
+
+    zip.file(PACKAGE_RELS_PATH, packageRelsXml);
+    zip.file(CONTENT_TYPES_PATH, contentTypesXml);
+
+    return Buffer.from(await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }));
+}
+
+/**
+ * Make sure every section has a header of each type it displays, creating
+ * empty header parts where needed. Sections without their own header
+ * reference inherit the previous section's, so only the first section
+ * missing a type gets a new part.
+ * @returns Paths of all header parts used by the document
+ */
+async function ensureSectionHeaders(zip: JSZip): Promise<string[]> {
+    let documentXml = await zip.file(DOCUMENT_PATH)!.async("text");
+    let relsXml = await zip.file(DOCUMENT_RELS_PATH)?.async("text")
+        ?? `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>`;
+    let contentTypesXml = await zip.file(CONTENT_TYPES_PATH)!.async("text");
+    const settingsXml = await zip.file(SETTINGS_PATH)?.async("text") ?? "";
+
+    const relTargets = new Map<string, string>();
+    for (const rel of relsXml.match(/<Relationship\b[^>]*>/g) ?? []) {
+        const id = getAttribute(rel, "Id");
+        const target = getAttribute(rel, "Target");
+        if (id && target && getAttribute(rel, "Type") === HEADER_REL_TYPE) {
+            relTargets.set(id, `word/${target.replace(/^\/?word\//, "")}`);
+        }
+    }
+
+    const evenAndOdd = isOn(settingsXml, "w:evenAndOddHeaders");
+    const headerPaths = new Set<string>();
+    const inherited = new Set<HeaderType>();
+    let nextHeader = 1;
+
+    const sectPrRegex = /<w:sectPr\b[^>]*?(?:\/>|>[\s\S]*?<\/w:sectPr>)/g;
+    documentXml = documentXml.replace(sectPrRegex, (sectPr) => {
+        const present = new Set<HeaderType>();
+        for (const ref of sectPr.match(/<w:headerReference\b[^>]*>/g) ?? []) {
+            const type = (getAttribute(ref, "w:type") ?? "default") as HeaderType;
+            const path = relTargets.get(getAttribute(ref, "r:id") ?? "");
+            if (path) {
+                present.add(type);
+                inherited.add(type);
+                headerPaths.add(path);
+            }
+        }
+
+        const required: HeaderType[] = ["default"];
+        if (isOn(sectPr, "w:titlePg")) required.push("first");
+        if (evenAndOdd) required.push("even");
+
+        const references: string[] = [];
+        for (const type of required) {
+            if (present.has(type) || inherited.has(type)) continue;
+
+            while (zip.file(`word/header${nextHeader}.xml`)) nextHeader++;
+            const path = `word/header${nextHeader}.xml`;
+            const relId = `rIdVelocidocHeader${nextHeader}`;
+            nextHeader++;
+
+            zip.file(path, `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:hdr xmlns:w="${NAMESPACES.w}" xmlns:r="${NAMESPACES.r}"><w:p/></w:hdr>`);
+            relsXml = relsXml.replace("</Relationships>",
+                `<Relationship Id="${relId}" Type="${HEADER_REL_TYPE}" Target="${path.replace(/^word\//, "")}"/></Relationships>`);
+            contentTypesXml = contentTypesXml.replace("</Types>",
+                `<Override PartName="/${path}" ContentType="${HEADER_CONTENT_TYPE}"/></Types>`);
+
+            references.push(`<w:headerReference w:type="${type}" r:id="${relId}"/>`);
+            inherited.add(type);
+            headerPaths.add(path);
+        }
+
+        if (references.length === 0) return sectPr;
+
+        // Header references must be the first children of sectPr
+        if (sectPr.endsWith("/>")) {
+            return `${sectPr.slice(0, -2)}>${references.join("")}</w:sectPr>`;
+        }
+        return sectPr.replace(/^<w:sectPr\b[^>]*>/, (open) => open + references.join(""));
+    });
+
+    zip.file(DOCUMENT_PATH, declareNamespaces(documentXml, "w:document", ["r"]));
+    zip.file(DOCUMENT_RELS_PATH, relsXml);
+    zip.file(CONTENT_TYPES_PATH, contentTypesXml);
+
+    return Array.from(headerPaths);
+}
+
+/**
+ * Build a run holding a Word-style VML text watermark, centred on the page
+ */
+function watermarkRunXml(watermark: WatermarkOptions, index: number): string {
+    // VML rotation is clockwise, ours is counter-clockwise (matching the PDF watermark)
+    const rotation = ((360 - (watermark.rotation % 360)) % 360);
+    // Approximate the text box from the font size (Word scales the text to fit the shape)
+    const width = Math.round(watermark.font_size * 0.6 * watermark.text.length);
+    const height = Math.round(watermark.font_size);
+    const color = `#${watermark.color.replace(/^#/, "")}`;
+
+    return `<w:r><w:rPr><w:noProof/></w:rPr><w:pict>`
+        + `<v:shapetype id="_x0000_t136" coordsize="21600,21600" o:spt="136" adj="10800" path="m@7,l@8,m@5,21600l@6,21600e">`
+        + `<v:formulas><v:f eqn="sum #0 0 10800"/><v:f eqn="prod #0 2 1"/><v:f eqn="sum 21600 0 @1"/><v:f eqn="sum 0 0 @2"/><v:f eqn="sum 21600 0 @3"/><v:f eqn="if @0 @3 0"/><v:f eqn="if @0 21600 @1"/><v:f eqn="if @0 0 @2"/><v:f eqn="if @0 @4 21600"/><v:f eqn="mid @5 @6"/><v:f eqn="mid @8 @5"/><v:f eqn="mid @7 @8"/><v:f eqn="mid @6 @7"/><v:f eqn="sum @6 0 @5"/></v:formulas>`
+        + `<v:path textpathok="t" o:connecttype="custom" o:connectlocs="@9,0;@10,10800;@11,21600;@12,10800" o:connectangles="270,180,90,0"/>`
+        + `<v:textpath on="t" fitshape="t"/><o:lock v:ext="edit" text="t" shapetype="t"/></v:shapetype>`
+        + `<v:shape id="PowerPlusWaterMarkObject${index}" o:spid="_x0000_s${2048 + index}" type="#_x0000_t136" `
+        + `style="position:absolute;margin-left:0;margin-top:0;width:${width}pt;height:${height}pt;rotation:${rotation};z-index:-251657216;`
+        + `mso-position-horizontal:center;mso-position-horizontal-relative:margin;mso-position-vertical:center;mso-position-vertical-relative:margin" `
+        + `o:allowincell="f" fillcolor="${color}" stroked="f">`
+        + `<v:fill opacity="${watermark.opacity}"/>`
+        + `<v:textpath style="font-family:&quot;Calibri&quot;;font-size:1pt" string="${escapeXml(watermark.text)}"/>`
+        + `</v:shape></w:pict></w:r>`;
+}
+
+/**
+ * Insert a run at the end of the first paragraph of a header part
+ * (adding a paragraph if the header has none)
+ */
+function insertRunIntoFirstParagraph(xml: string, run: string): string {
+    const paragraph = xml.match(/<w:p\b[^>]*?(\/?)>/);
+    if (!paragraph) {
+        return xml.replace("</w:hdr>", () => `<w:p>${run}</w:p></w:hdr>`);
+    }
+    if (paragraph[1] === "/") {
+        return xml.replace(paragraph[0], () => `${paragraph[0].slice(0, -2)}>${run}</w:p>`);
+    }
+    const closeIndex = xml.indexOf("</w:p>", paragraph.index!);
+    return xml.slice(0, closeIndex) + run + xml.slice(closeIndex);
+}
+
+/**
+ * Add missing xmlns declarations to a part's root element
+ */
+function declareNamespaces(xml: string, rootTag: string, prefixes: string[]): string {
+    return xml.replace(new RegExp(`<${rootTag}\\b[^>]*>`), (root) => {
+        const missing = prefixes
+            .filter(prefix => !root.includes(`xmlns:${prefix}=`))
+            .map(prefix => ` xmlns:${prefix}="${NAMESPACES[prefix]}"`)
+            .join("");
+        return root.replace(/\s*(\/?)>$/, `${missing}$1>`);
+    });
+}
+
+function getAttribute(element: string, name: string): string | undefined {
+    return element.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+}
+
+/**
+ * Check an OOXML on/off property, e.g. <w:titlePg/> or <w:titlePg w:val="true"/>
+ */
+function isOn(xml: string, tag: string): boolean {
+    const element = xml.match(new RegExp(`<${tag}\\b[^>]*>`))?.[0];
+    if (!element) return false;
+    const val = getAttribute(element, "w:val");
+    return val === undefined || !["0", "false", "off"].includes(val);
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
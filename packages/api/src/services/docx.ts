@@ -1,17 +1,44 @@
 /**
  * DocxService - Template rendering using docx-templates
  * 
- * Renders DOCX templates with JSON data using Handlebars-style syntax
+ * Renders DOCX templates with JSON data using Handlebars-style syntax.
+ * Placeholders that resolve to nothing are collected with their location
+ * (see unresolved.ts) instead of silently rendering as empty text.
  */
 
 import * as docxTemplates from "docx-templates";
+import {
+    CommandSyntaxError,
+    InvalidCommandError,
+    IncompleteConditionalStatementError,
+    UnterminatedForLoopError,
+    CommandExecutionError,
+    ObjectCommandResultError,
+    NullishCommandResultError,
+    InternalError,
+    ImageError,
+    TemplateParseError,
+} from "docx-templates";
 import { readFile } from "fs/promises";
 import { resolve, dirname } from "path";
 import { fileURLToPath } from "url";
+import JSZip from "jszip";
+import { InvalidTemplateError, TemplateRenderError, TemplateSyntaxError } from "../errors.ts";
+import type { SchemaMapField } from "@velocidoc/shared";
+import { UnresolvedCollector, RenderOptions, PlaceholderLocation } from "./unresolved.ts";
+import { prepareImage, isImageData, isImageDataUri, ImageSizing } from "./images.ts";
+import { barcodeHelpers } from "./barcodes.ts";
+import { createFormatters, FormattingOptions } from "./formatting.ts";
+import { extractRichText, insertRichText } from "./richtext.ts";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+export interface DocxRenderOptions extends RenderOptions, FormattingOptions {
+    /** Template field types; sizes `image` fields and marks `markdown` and `html` fields */
+    schemaMap?: Record<string, SchemaMapField>;
+}
+
 export class DocxService {
     private templatesDir: string;
     private createReport: any;
@@ -38,43 +65,49 @@ export class DocxService {
     }
 
     /**
-     * Recursive function to detect Base64 image strings and convert them
-     * to docx-templates compatible Image objects.
+     * Recursive function to detect Base64 image strings and uploaded image
+     * files and convert them to docx-templates compatible Image objects, sized by (in order) a
+     * `{ data, width, height, fit }` value, the field's schema_map entry,
+     * or a 6cm box, always keeping the aspect ratio.
+     * @param path - Dotted path of the value, or null inside arrays (schema_map fields aren't in arrays)
      */
-    private processDataForImages(data: any): any {
+    private async processDataForImages(data: any, schemaMap: Record<string, SchemaMapField> = {}, path: string | null = ""): Promise<any> {
         if (!data) return data;
 
         // specific check for base64 data URI
         if (typeof data === "string") {
-            // Regex matches: data:image/png;base64,.....
-            const match = data.match(/^data:image\/(png|jpg|jpeg);base64,(.*)$/);
-            if (match) {
-                const extension = `.${match[1]}`;
-                const base64Data = match[2];
-                return {
-                    width: 6, // Default to 6cm, can be adjusted or made configurable later
-                    height: 6,
-                    data: base64Data,
-                    extension: extension,
-                };
-            }
-            return data;
+            return isImageDataUri(data) ? prepareImage(data, fieldSizing(schemaMap, path)) : data;
         }
 
         if (Array.isArray(data)) {
-            return data.map((item) => this.processDataForImages(item));
+            return Promise.all(data.map((item) => this.processDataForImages(item, schemaMap, null)));
+        }
+
+        // Uploaded files (multipart attachments) arrive as bytes; images among them are embedded
+        if (Buffer.isBuffer(data)) {
+            return isImageData(data) ? prepareImage(data, fieldSizing(schemaMap, path)) : data;
         }
 
-        // Fix for Issue #3: Preserve Date and Buffer objects
-        if (data instanceof Date || (typeof Buffer !== 'undefined' && Buffer.isBuffer(data))) {
+        // Fix for Issue #3: Preserve Date objects
+        if (data instanceof Date) {
             return data;
         }
 
         if (typeof data === "object") {
-            const newData: any = {};
-            for (const key in data) {
-                newData[key] = this.processDataForImages(data[key]);
+            if (isSizedImage(data)) {
+                const { data: image, ...sizing } = data;
+                const fieldDefaults = fieldSizing(schemaMap, path);
+                // A width or height on the value replaces the field's size rather than mixing with it
+                const size = sizing.width !== undefined || sizing.height !== undefined
+                    ? { fit: fieldDefaults.fit, ...sizing }
+                    : { ...fieldDefaults, ...sizing };
+                return prepareImage(image, size);
             }
+            const newData: any = {};
+            await Promise.all(Object.keys(data).map(async (key) => {
+                const childPath = path === null ? null : path ? `${path}.${key}` : key;
+                newData[key] = await this.processDataForImages(data[key], schemaMap, childPath);
+            }));
             return newData;
         }
 
@@ -85,9 +118,10 @@ export class DocxService {
      * Render a DOCX template with the provided data
      * @param templatePath - Path to the template file (relative to templates dir or absolute)
      * @param data - JSON data to inject into the template
+     * @param options - Strict mode, where to collect unresolved placeholders, image sizes, locale and timezone
      * @returns Promise<Buffer> - The rendered DOCX as a Buffer
      */
-    async render(templatePath: string, data: Record<string, any>): Promise<Buffer> {
+    async render(templatePath: string, data: Record<string, any>, options: DocxRenderOptions = {}): Promise<Buffer> {
         // Resolve template path
         const fullPath = templatePath.startsWith("/") || templatePath.includes(":")
             ? templatePath
@@ -96,40 +130,233 @@ export class DocxService {
         // Read template file
         const template = await readFile(fullPath);
 
-        // Pre-process data to handle images
-        const processedData = this.processDataForImages(data);
-
-        // Render the template with data
-        const result = await this.createReport({
-            template,
-            data: processedData,
-            cmdDelimiter: ["{{", "}}"],
-            failFast: false,
-        });
-
-        return Buffer.from(result);
+        return this.renderFromBuffer(template, data, options);
     }
 
     /**
      * Render from a template buffer directly (useful when template is uploaded)
      * @param templateBuffer - The template file as a Buffer
      * @param data - JSON data to inject
+     * @param options - Strict mode, where to collect unresolved placeholders, image sizes, locale and timezone
      * @returns Promise<Buffer> - The rendered DOCX as a Buffer
+     * @throws UnresolvedPlaceholdersError - In strict mode, listing every unresolved placeholder
+     * @throws InvalidImageError - If an image in the data can't be read, or its width, height or fit isn't usable
      */
-    async renderFromBuffer(templateBuffer: Buffer, data: Record<string, any>): Promise<Buffer> {
+    async renderFromBuffer(templateBuffer: Buffer, data: Record<string, any>, options: DocxRenderOptions = {}): Promise<Buffer> {
+        // Rich text is swapped for tokens and inserted into the rendered document
+        const richText = extractRichText(data, options.schemaMap);
         // Pre-process data to handle images
-        const processedData = this.processDataForImages(data);
+        const processedData = await this.processDataForImages(richText.data, options.schemaMap);
+        const collector = new UnresolvedCollector();
+        const commands = await indexCommands(templateBuffer);
 
         const result = await this.createReport({
             template: templateBuffer,
             data: processedData,
             cmdDelimiter: ["{{", "}}"],
             failFast: false,
-        });
+            rejectNullish: true,
+            errorHandler: unresolvedHandler(collector, commands, Boolean(options.strict)),
+            additionalJsContext: templateHelpers(options),
+        }).catch(toTemplateError);
 
+        collector.finish(options);
+        if (richText.fragments.size > 0) {
+            return insertRichText(Buffer.from(result), richText.fragments);
+        }
         return Buffer.from(result);
     }
 }
 
+/**
+ * Helpers for template commands, namespaced so data fields named like one
+ * (`date`, `currency`, ...) keep their values: `fmt.currency(total, 'EUR')`,
+ * `IMAGE codes.qr(url)`. The context shadows data, so `fmt` and `codes`
+ * are reserved: data fields with those names aren't visible to templates.
+ */
+function templateHelpers(options: FormattingOptions): Record<string, unknown> {
+    return { fmt: createFormatters(options), codes: barcodeHelpers };
+}
+
+/**
+ * `{ data, width?, height?, fit? }` holding an image data URI or uploaded image
+ */
+function isSizedImage(value: Record<string, any>): value is { data: string | Buffer } & ImageSizing {
+    return isImageData(value.data) && Object.keys(value).every(key => SIZED_IMAGE_KEYS.has(key));
+}
+
+const SIZED_IMAGE_KEYS = new Set(["data", "width", "height", "fit"]);
+
+/**
+ * Size settings of the schema_map image field at a path
+ */
+function fieldSizing(schemaMap: Record<string, SchemaMapField>, path: string | null): ImageSizing {
+    const field = path ? schemaMap[path] : undefined;
+    if (field?.type !== "image") return {};
+    return {
+        ...(field.width !== undefined && { width: field.width }),
+        ...(field.height !== undefined && { height: field.height }),
+        ...(field.fit && { fit: field.fit }),
+    };
+}
+
+// Parts of a DOCX that can hold placeholders, body first
+const TEMPLATE_PARTS = /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/;
+
+const BUILT_IN_COMMANDS = ["QUERY", "CMD_NODE", "ALIAS", "FOR", "END-FOR", "IF", "END-IF", "INS", "EXEC", "IMAGE", "LINK", "HTML"];
+
+interface CommandIndex {
+    /** First location of each command's code */
+    locations: Map<string, PlaceholderLocation>;
+    /** IF conditions: a missing value there just skips the section */
+    conditions: Set<string>;
+    /** FOR sources: a missing array renders as an empty loop */
+    loops: Set<string>;
+}
+
+/**
+ * Find every command in the template and where it is, keyed by the code
+ * docx-templates evaluates (e.g. `items` for `{{FOR item IN items}}`)
+ */
+async function indexCommands(template: Buffer): Promise<CommandIndex> {
+    const index: CommandIndex = { locations: new Map(), conditions: new Set(), loops: new Set() };
+
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(template);
+    } catch {
+        return index; // createReport reports the broken file
+    }
+
+    const parts = zip.file(TEMPLATE_PARTS).sort((a, b) => Number(b.name === "word/document.xml") - Number(a.name === "word/document.xml"));
+    for (const file of parts) {
+        const part = file.name.replace(/^word\/|\.xml$/g, "");
+        const paragraphs = (await file.async("string")).match(/<w:p(?:\s[^>]*)?(?:\/>|>[\s\S]*?<\/w:p>)/g) || [];
+
+        paragraphs.forEach((paragraph, i) => {
+            // Word often splits a placeholder across runs, so join the paragraph's text first
+            const text = decodeXml((paragraph.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>/g) || [])
+                .map(run => run.replace(/<[^>]+>/g, ""))
+                .join(""));
+
+            for (const [, command] of text.matchAll(/\{\{([\s\S]*?)\}\}/g)) {
+                const { name, code } = splitCommand(command);
+                // FOR evaluates only the array after IN
+                const key = name === "FOR" ? code.match(/^\S+\s+IN\s+([\s\S]+)$/i)?.[1].trim() ?? code : code;
+                if (name === "IF") index.conditions.add(key);
+                if (name === "FOR") index.loops.add(key);
+                if (!index.locations.has(key)) {
+                    index.locations.set(key, { part, paragraph: i + 1 });
+                }
+            }
+        });
+    }
+
+    return index;
+}
+
+/**
+ * Split a command into its keyword and code the way docx-templates does:
+ * `{{= x}}` is INS, `{{! x}}` is EXEC and a bare expression is an implicit INS
+ */
+function splitCommand(command: string): { name: string; code: string } {
+    let cmd = command.trim();
+    if (cmd.startsWith("=")) cmd = `INS ${cmd.slice(1).trim()}`;
+    else if (cmd.startsWith("!")) cmd = `EXEC ${cmd.slice(1).trim()}`;
+
+    const match = cmd.match(/^(\S+)\s*([\s\S]*)$/);
+    const name = match?.[1].toUpperCase() ?? "";
+    return BUILT_IN_COMMANDS.includes(name) ? { name, code: match![2].trim() } : { name: "INS", code: cmd };
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&");
+}
+
+/**
+ * docx-templates errorHandler. It is called twice for a failing command: with
+ * the raw exception while evaluating (its return value replaces the result)
+ * and again with whatever the command then threw (its return value is
+ * collected like any failFast:false error).
+ * - A nullish result is recorded and skipped (IF conditions are exempt)
+ * - A throwing expression is recorded in strict mode, and otherwise fails
+ *   the render as before
+ * - Template syntax errors always fail the render
+ */
+function unresolvedHandler(collector: UnresolvedCollector, commands: CommandIndex, strict: boolean) {
+    const rethrown = new WeakSet<object>();
+
+    return (error: Error, code: string) => {
+        if (rethrown.has(error)) {
+            return error;
+        }
+
+        const placeholder = code.trim();
+        const location = commands.locations.get(placeholder);
+        // A loop over nothing is an empty loop; anything else renders as nothing
+        const skipped = commands.loops.has(placeholder) ? [] : undefined;
+
+        if (error instanceof NullishCommandResultError) {
+            if (!commands.conditions.has(placeholder)) {
+                collector.add({ placeholder, reason: "missing", message: `No value for '${placeholder}'`, location });
+            }
+            return skipped;
+        }
+
+        const isTemplateError = TEMPLATE_ERRORS.some(cls => error instanceof cls);
+        if (isTemplateError && !(error instanceof ObjectCommandResultError)) {
+            return error;
+        }
+
+        // The expression threw, or produced an object that can't be inserted
+        if (strict) {
+            collector.add({ placeholder, reason: "error", message: error.message, location });
+            return skipped;
+        }
+        const failure = isTemplateError ? error : new CommandExecutionError(error, code);
+        rethrown.add(failure);
+        throw failure;
+    };
+}
+
+const SYNTAX_ERRORS = [CommandSyntaxError, InvalidCommandError, IncompleteConditionalStatementError, UnterminatedForLoopError];
+const RENDER_ERRORS = [CommandExecutionError, ObjectCommandResultError, NullishCommandResultError, InternalError];
+const TEMPLATE_ERRORS = [...SYNTAX_ERRORS, ...RENDER_ERRORS, ImageError, TemplateParseError];
+
+/**
+ * Convert docx-templates failures into typed errors.
+ * With failFast disabled, docx-templates throws an array of every error it hit.
+ */
+function toTemplateError(thrown: unknown): never {
+    const errors = Array.isArray(thrown) ? thrown : [thrown];
+    const isA = (classes: Function[]) => (e: unknown) => classes.some(cls => e instanceof cls);
+
+    if (errors[0] instanceof TemplateParseError) {
+        throw new InvalidTemplateError(errors[0].message);
+    }
+
+    // A malformed template is reported as such even if data errors came first
+    const syntaxError = errors.find(isA(SYNTAX_ERRORS));
+    const primary = syntaxError || errors.find(isA(RENDER_ERRORS));
+    if (!primary) {
+        throw thrown;
+    }
+
+    const placeholder = (primary as { command?: string }).command?.trim();
+    const context = {
+        ...(placeholder && { placeholder }),
+        ...(errors.length > 1 && { errors: errors.map((e: Error) => e.message) }),
+    };
+
+    throw syntaxError
+        ? new TemplateSyntaxError(primary.message, context)
+        : new TemplateRenderError(primary.message, context);
+}
+
 // Export singleton for convenience
 export const docxService = new DocxService();
@@ -0,0 +1,162 @@
+/**
+ * Formatting - Locale-aware helpers for Word template commands
+ *
+ * Data arrives as raw numbers and ISO dates; these helpers format them in
+ * the request's locale and timezone, so one template serves every entity.
+ * They live under `fmt`, so data fields named `date` or `currency` stay usable:
+ *
+ *   {{fmt.currency(total, 'EUR')}}          1.234,50 € (de-DE) / €1,234.50 (en-US)
+ *   {{fmt.number(weight, 2)}}  {{fmt.percent(vat_rate)}}
+ *   {{fmt.date(invoice_date, 'long')}}  {{fmt.time(created_at)}}  {{fmt.datetime(created_at)}}
+ *   {{fmt.plural(items.length, '# item', '# items')}}
+ *   {{fmt.words(total)}}
+ *
+ * `options.locale` and `options.timezone` on the request set the defaults
+ * (DEFAULT_LOCALE / DEFAULT_TIMEZONE otherwise); every helper also takes
+ * Intl options as its last argument. A missing value renders as a missing
+ * placeholder; a value that isn't a number or date fails the command.
+ */
+
+import { numberToWords } from "./number-words.ts";
+
+export interface FormattingOptions {
+    /** BCP 47 tag, e.g. "de-DE" */
+    locale?: string;
+    /** IANA zone, e.g. "Europe/Berlin" */
+    timezone?: string;
+}
+
+type DateStyle = "short" | "medium" | "long" | "full";
+
+export const DEFAULT_LOCALE = process.env.DEFAULT_LOCALE || "en-US";
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || "UTC";
+
+/**
+ * Whether a string is a locale Intl accepts
+ */
+export function isValidLocale(locale: string): boolean {
+    try {
+        return Intl.getCanonicalLocales(locale).length === 1;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Whether a string is an IANA timezone Intl knows
+ */
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Helpers added to the JS context of Word template commands, bound to a locale and timezone
+ */
+export function createFormatters(options: FormattingOptions = {}) {
+    const locale = options.locale || DEFAULT_LOCALE;
+    const timeZone = options.timezone || DEFAULT_TIMEZONE;
+
+    const formatDate = (value: unknown, format: Intl.DateTimeFormatOptions) => {
+        if (isMissing(value)) return undefined;
+        const date = toDate(value);
+        // A calendar date ("2024-03-01") is the same day everywhere
+        const zone = typeof value === "string" && DATE_ONLY.test(value.trim()) ? "UTC" : timeZone;
+        return new Intl.DateTimeFormat(locale, { timeZone: zone, ...format }).format(date);
+    };
+
+    return {
+        /** Amount in a currency, e.g. fmt.currency(total, 'EUR') */
+        currency(value: unknown, currency: string, format: Intl.NumberFormatOptions = {}): string | undefined {
+            if (isMissing(value)) return undefined;
+            if (typeof currency !== "string" || !/^[A-Za-z]{3}$/.test(currency)) {
+                throw new Error(`fmt.currency() needs an ISO 4217 code, e.g. fmt.currency(total, 'EUR')`);
+            }
+            return new Intl.NumberFormat(locale, { style: "currency", currency, ...format }).format(toNumber(value));
+        },
+
+        /** Number with grouping; a number of decimals or Intl options */
+        number(value: unknown, decimals?: number | Intl.NumberFormatOptions): string | undefined {
+            if (isMissing(value)) return undefined;
+            return new Intl.NumberFormat(locale, fractionDigits(decimals)).format(toNumber(value));
+        },
+
+        /** Fraction as a percentage: percent(0.155, 1) is 15.5% */
+        percent(value: unknown, decimals?: number | Intl.NumberFormatOptions): string | undefined {
+            if (isMissing(value)) return undefined;
+            return new Intl.NumberFormat(locale, { style: "percent", ...fractionDigits(decimals) }).format(toNumber(value));
+        },
+
+        /** Date in a style ('short', 'medium' (default), 'long', 'full') or with Intl options */
+        date(value: unknown, style: DateStyle | Intl.DateTimeFormatOptions = "medium"): string | undefined {
+            return formatDate(value, typeof style === "string" ? { dateStyle: style } : style);
+        },
+
+        /** Time of day in a style ('short' (default), 'medium', 'long', 'full') */
+        time(value: unknown, style: DateStyle | Intl.DateTimeFormatOptions = "short"): string | undefined {
+            return formatDate(value, typeof style === "string" ? { timeStyle: style } : style);
+        },
+
+        /** Date and time, e.g. fmt.datetime(created_at, 'long', 'short') */
+        datetime(value: unknown, dateStyle: DateStyle = "medium", timeStyle: DateStyle = "short"): string | undefined {
+            return formatDate(value, { dateStyle, timeStyle });
+        },
+
+        /**
+         * The form for a count, with # replaced by the formatted count:
+         * fmt.plural(n, '# item', '# items'), or fmt.plural(n, { one, few, many, other }) for the locale's categories
+         */
+        plural(count: unknown, forms: string | Partial<Record<Intl.LDMLPluralRule, string>>, other?: string): string | undefined {
+            if (isMissing(count)) return undefined;
+            const n = toNumber(count);
+            const byCategory = typeof forms === "string" ? { one: forms, other: other ?? forms } : forms;
+            const form = byCategory[new Intl.PluralRules(locale).select(n)] ?? byCategory.other;
+            if (form === undefined) {
+                throw new Error(`fmt.plural() needs an 'other' form`);
+            }
+            return form.replace(/#/g, new Intl.NumberFormat(locale).format(n));
+        },
+
+        /** Whole number spelled out, e.g. words(42) is "forty-two" (en, de, fr, es) */
+        words(value: unknown): string | undefined {
+            if (isMissing(value)) return undefined;
+            return numberToWords(toNumber(value), locale);
+        },
+    };
+}
+
+export type Formatters = ReturnType<typeof createFormatters>;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function fractionDigits(decimals: number | Intl.NumberFormatOptions | undefined): Intl.NumberFormatOptions {
+    if (typeof decimals === "number") {
+        return { minimumFractionDigits: decimals, maximumFractionDigits: decimals };
+    }
+    return decimals || {};
+}
+
+function toNumber(value: unknown): number {
+    const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    if (typeof number !== "number" || Number.isNaN(number)) {
+        throw new Error(`'${value}' is not a number`);
+    }
+    return number;
+}
+
+// Dates, ISO strings and epoch milliseconds
+function toDate(value: unknown): Date {
+    const date = value instanceof Date ? value : typeof value === "string" || typeof value === "number" ? new Date(value) : undefined;
+    if (!date || Number.isNaN(date.getTime())) {
+        throw new Error(`'${value}' is not a date`);
+    }
+    return date;
+}
+
+function isMissing(value: unknown): boolean {
+    return value === undefined || value === null || value === "";
+}
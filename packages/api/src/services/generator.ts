@@ -0,0 +1,311 @@
+/**
+ * DocumentGenerator - The render → convert → post-process pipeline
+ *
+ * Turns a loaded template plus data into a finished document:
+ * - word engine: DocxService, then Gotenberg LibreOffice (pdf) or HtmlService (html)
+ * - web engine: WebTemplateService, then Gotenberg Chromium (pdf)
+ * PNG previews are rendered from the finished PDF. Watermarks, header text
+ * and metadata are applied along the way; encryption or signing comes last.
+ * Data is checked against the template's schema first, if it has one.
+ * Placeholders the data couldn't fill are returned as warnings, or fail the
+ * render in strict mode.
+ * PDF/A and PDF/UA output is produced by Gotenberg and checked before it is
+ * returned.
+ */
+
+import type { WatermarkOptions } from "@velocidoc/shared";
+import { docxService } from "./docx.ts";
+import { imageFetcher } from "./image-fetcher.ts";
+import { imageMimeType, replaceUploads } from "./images.ts";
+import { gotenbergService, PdfStandard } from "./gotenberg.ts";
+import { htmlService } from "./html.ts";
+import { webTemplateService } from "./web.ts";
+import { pdfService, PdfProtection } from "./pdf.ts";
+import { previewService, PreviewOptions } from "./preview.ts";
+import { signingService, SignatureOptions } from "./signing.ts";
+import type { UnresolvedPlaceholder } from "./unresolved.ts";
+import { validateTemplateData } from "./template-schema.ts";
+import { addDocxWatermark, addDocxHeaderText, setDocxProperties } from "./docx-postprocess.ts";
+import type { LoadedTemplate } from "./template-loader.ts";
+import { IncompatibleOptionsError, PdfStandardNotMetError, UnsupportedOutputFormatError } from "../errors.ts";
+
+export type OutputFormat = "pdf" | "docx" | "html" | "png";
+
+// Multi-page PNG previews come back as a ZIP
+export type DocumentExtension = OutputFormat | "zip";
+
+export interface GenerateOptions {
+    outputFormat: OutputFormat;
+    watermark?: WatermarkOptions;
+    headerText?: string;
+    metadata?: Record<string, string>;
+    /** Pages and resolution for `png` output */
+    preview?: PreviewOptions;
+    /** Archival / accessibility conformance for `pdf` output */
+    pdfStandard?: PdfStandard;
+    /** Passwords and permissions for `pdf` output */
+    protection?: PdfProtection;
+    /** Digital signature for `pdf` output */
+    signature?: SignatureOptions;
+    /** Fail instead of warning when a placeholder can't be resolved */
+    strict?: boolean;
+    /** Default locale of the template formatting helpers, e.g. "de-DE" */
+    locale?: string;
+    /** Default timezone of the template date/time helpers, e.g. "Europe/Berlin" */
+    timezone?: string;
+}
+
+export interface GeneratedDocument {
+    buffer: Buffer;
+    contentType: string;
+    extension: DocumentExtension;
+    /** Placeholders left unresolved by a non-strict render */
+    warnings: UnresolvedPlaceholder[];
+}
+
+const CONTENT_TYPES: Record<DocumentExtension, string> = {
+    pdf: "application/pdf",
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    html: "text/html; charset=utf-8",
+    png: "image/png",
+    zip: "application/zip",
+};
+
+// Metadata keys with standard Info/XMP entries; anything else needs an XMP extension schema under PDF/A
+const STANDARD_METADATA_KEYS = new Set(["title", "author", "subject", "keywords"]);
+
+/**
+ * Check whether an engine can produce the requested output format
+ */
+export function supportsOutputFormat(engine: LoadedTemplate['engine'], format: OutputFormat): boolean {
+    // Web templates have no Word representation
+    return !(engine === 'web' && format === 'docx');
+}
+
+/**
+ * Human-readable name of a PDF standard, e.g. "PDF/A-2b + PDF/UA"
+ */
+export function describePdfStandard(standard: PdfStandard): string {
+    return [standard.pdfa, standard.pdfua && "PDF/UA"].filter(Boolean).join(" + ");
+}
+
+/**
+ * Reject option combinations that can't be honoured: PDF-only options on
+ * other formats, page decorations and metadata on HTML, and post-processing
+ * that would break PDF/A or PDF/UA conformance
+ * @throws IncompatibleOptionsError
+ */
+export function checkOutputOptions(options: GenerateOptions): void {
+    const { pdfStandard, protection, signature, outputFormat, watermark, metadata, headerText } = options;
+
+    // HTML has no pages or document properties: mammoth drops Word headers, and web templates are returned as rendered
+    if (outputFormat === "html") {
+        const unsupported = [headerText && "header_text", watermark && "watermark", metadata && "metadata"].filter(Boolean);
+        if (unsupported.length > 0) {
+            throw new IncompatibleOptionsError(`${unsupported.join(", ")} cannot be combined with output_format 'html'`);
+        }
+    }
+    if (protection && outputFormat !== "pdf") {
+        throw new IncompatibleOptionsError(`protection requires output_format 'pdf'`);
+    }
+    if (signature && outputFormat !== "pdf") {
+        throw new IncompatibleOptionsError(`sign requires output_format 'pdf'`);
+    }
+    // Encrypting rewrites every string and stream, which would invalidate the signature
+    if (signature && protection) {
+        throw new IncompatibleOptionsError(`Signed PDFs cannot be password protected`);
+    }
+    if (!pdfStandard) return;
+
+    const standard = describePdfStandard(pdfStandard);
+    if (outputFormat !== "pdf") {
+        throw new IncompatibleOptionsError(`pdf_standard ${standard} requires output_format 'pdf'`);
+    }
+    // Watermarks use non-embedded standard fonts and untagged content
+    if (watermark) {
+        throw new IncompatibleOptionsError(`Watermarks cannot be added to ${standard} output`);
+    }
+    // ...and so does the visible part of a signature
+    if (signature?.field) {
+        throw new IncompatibleOptionsError(`Visible signatures cannot be added to ${standard} output (omit sign.field)`);
+    }
+    // PDF/A forbids encryption; PDF/UA allows it since screen reader access stays enabled
+    if (pdfStandard.pdfa && protection) {
+        throw new IncompatibleOptionsError(`${standard} output cannot be password protected`);
+    }
+    const customKeys = Object.keys(metadata || {}).filter(key => !STANDARD_METADATA_KEYS.has(key));
+    if (pdfStandard.pdfa && customKeys.length > 0) {
+        throw new IncompatibleOptionsError(
+            `Custom metadata keys are not allowed with ${standard}: ${customKeys.join(", ")} (use title, author, subject or keywords)`
+        );
+    }
+}
+
+export class DocumentGenerator {
+    /**
+     * Render a template with data and produce the requested output
+     * @param template - Template loaded once via loadTemplate (can be reused across calls)
+     * @param data - JSON data to inject
+     * @param options - Output format and document options
+     * @param log - Request logger
+     * @returns Promise<GeneratedDocument> - The finished document and its content type
+     */
+    async generate(
+        template: LoadedTemplate,
+        data: Record<string, any>,
+        options: GenerateOptions,
+        log: any,
+    ): Promise<GeneratedDocument> {
+        const { outputFormat, watermark, headerText, metadata, preview, pdfStandard, protection, signature, strict, locale, timezone } = options;
+        const title = template.name.replace(/\.(docx|html?)$/i, '');
+        const warnings: UnresolvedPlaceholder[] = [];
+        const renderOptions = { strict, unresolved: warnings };
+
+        if (!supportsOutputFormat(template.engine, outputFormat)) {
+            throw new UnsupportedOutputFormatError(template.engine, outputFormat);
+        }
+        checkOutputOptions(options);
+
+        if (template.schema) {
+            validateTemplateData(template.schema, data, template.name);
+        }
+
+        let pdfBuffer: Buffer;
+
+        if (template.engine === 'web') {
+            // HTML can only reference uploaded files inline, as data URIs
+            const webData = replaceUploads(data, buffer => `data:${imageMimeType(buffer)};base64,${buffer.toString("base64")}`);
+            const html = webTemplateService.renderFromString(template.buffer.toString('utf-8'), webData, renderOptions);
+            logRendered(log, warnings);
+
+            if (outputFormat === "html") {
+                return this.document(Buffer.from(html), "html", warnings);
+            }
+
+            pdfBuffer = await gotenbergService.convertHtml(html, {
+                headerHtml: headerText ? buildHeaderHtml(headerText) : undefined,
+                pdfStandard,
+            });
+        } else {
+            const imageData = await imageFetcher.resolve(data, template.schema?.schema_map, log);
+            let renderedDocx = await docxService.renderFromBuffer(template.buffer, imageData, {
+                ...renderOptions,
+                schemaMap: template.schema?.schema_map,
+                locale,
+                timezone,
+            });
+            logRendered(log, warnings);
+
+            // Header text is part of the document, so add it before any conversion
+            if (headerText) {
+                renderedDocx = await addDocxHeaderText(renderedDocx, headerText);
+            }
+
+            // If output is DOCX, return it directly
+            if (outputFormat === "docx") {
+                if (watermark) {
+                    renderedDocx = await addDocxWatermark(renderedDocx, watermark);
+                }
+                if (metadata) {
+                    renderedDocx = await setDocxProperties(renderedDocx, metadata);
+                }
+                return this.document(renderedDocx, "docx", warnings);
+            }
+
+            // If output is HTML, convert in-process (no Gotenberg round-trip)
+            if (outputFormat === "html") {
+                const { html, warnings: conversionWarnings } = await htmlService.convert(renderedDocx, title);
+                if (conversionWarnings.length > 0) {
+                    log.warn({ warnings: conversionWarnings }, "HTML conversion produced warnings");
+                }
+                log.info("HTML conversion completed");
+                return this.document(Buffer.from(html), "html", warnings);
+            }
+
+            // Convert to PDF via Gotenberg
+            pdfBuffer = await gotenbergService.convert(renderedDocx, `${title}.docx`, pdfStandard);
+        }
+
+        log.info("PDF conversion completed");
+
+        if (pdfStandard) {
+            await verifyPdfStandard(pdfBuffer, pdfStandard);
+            log.info({ pdfStandard: describePdfStandard(pdfStandard) }, "PDF standard verified");
+        }
+
+        if (watermark) {
+            pdfBuffer = await pdfService.addWatermark(pdfBuffer, watermark);
+        }
+        if (metadata) {
+            pdfBuffer = await pdfService.setMetadata(pdfBuffer, metadata);
+        }
+
+        if (outputFormat === "png") {
+            const { buffer, format } = await previewService.render(pdfBuffer, preview);
+            log.info({ format }, "Preview rendered");
+            return this.document(buffer, format, warnings);
+        }
+
+        if (protection) {
+            pdfBuffer = await pdfService.encrypt(pdfBuffer, protection);
+            log.info("PDF encrypted");
+        }
+        if (signature) {
+            pdfBuffer = await signingService.sign(pdfBuffer, signature);
+            log.info({ certificate: signature.certificate }, "PDF signed");
+        }
+
+        return this.document(pdfBuffer, "pdf", warnings);
+    }
+
+    private document(buffer: Buffer, extension: DocumentExtension, warnings: UnresolvedPlaceholder[]): GeneratedDocument {
+        return { buffer, contentType: CONTENT_TYPES[extension], extension, warnings };
+    }
+}
+
+function logRendered(log: any, warnings: UnresolvedPlaceholder[]): void {
+    if (warnings.length > 0) {
+        log.warn({ unresolved: warnings.map(w => w.placeholder) }, "Template rendered with unresolved placeholders");
+    } else {
+        log.info("Template rendered successfully");
+    }
+}
+
+/**
+ * Check the converter declared the requested conformance in the PDF's XMP
+ * metadata (an older Gotenberg, or a failed PDF/A pass, silently omits it)
+ * @throws PdfStandardNotMetError
+ */
+async function verifyPdfStandard(pdf: Buffer, standard: PdfStandard): Promise<void> {
+    const declared = await pdfService.getConformance(pdf);
+    const missing: string[] = [];
+
+    if (standard.pdfa && declared.pdfa !== standard.pdfa) {
+        missing.push(declared.pdfa ? `${standard.pdfa} (declares ${declared.pdfa})` : standard.pdfa);
+    }
+    if (standard.pdfua && !declared.pdfua) {
+        missing.push("PDF/UA");
+    }
+
+    if (missing.length > 0) {
+        throw new PdfStandardNotMetError(
+            describePdfStandard(standard),
+            `Converted PDF does not declare conformance to ${missing.join(", ")}`,
+        );
+    }
+}
+
+/**
+ * Build the Chromium header template for web engine PDFs.
+ * Header templates don't inherit page styles, so the font size must be set explicitly.
+ */
+function buildHeaderHtml(text: string): string {
+    const escaped = text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;");
+    return `<!DOCTYPE html><html><head><style>body { font-family: Helvetica, Arial, sans-serif; font-size: 9pt; text-align: center; width: 100%; margin: 0 10mm; }</style></head><body>${escaped}</body></html>`;
+}
+
+// Export singleton for convenience
+export const documentGenerator = new DocumentGenerator();
@@ -1,11 +1,34 @@
 /**
  * GotenbergService - HTTP wrapper for Gotenberg PDF conversion
  * 
- * Uses the LibreOffice convert endpoint to transform DOCX to PDF
+ * Uses the LibreOffice convert endpoint to transform DOCX to PDF,
+ * and the Chromium endpoint to render HTML (web engine) templates.
+ * Both can produce archival (PDF/A) and accessible (PDF/UA) output.
+ *
+ * Chromium fetches whatever the HTML references, so Gotenberg has to run with
+ * the URL lists from UrlPolicy.chromiumUrlLists() (see docker-compose.yml).
  */
 
+import { ConversionFailedError, ConverterUnavailableError } from "../errors.ts";
+
 const GOTENBERG_URL = process.env.GOTENBERG_URL || "http://gotenberg:3000";
 
+export type PdfALevel = "PDF/A-2b" | "PDF/A-3b";
+
+/**
+ * Conformance requested from Gotenberg (`pdfa` and `pdfua` form fields)
+ */
+export interface PdfStandard {
+    pdfa?: PdfALevel;
+    pdfua?: boolean;
+}
+
+export interface HtmlConversionOptions {
+    /** Complete HTML document repeated at the top of every page */
+    headerHtml?: string;
+    pdfStandard?: PdfStandard;
+}
+
 export class GotenbergService {
     private baseUrl: string;
 
@@ -17,9 +40,10 @@ export class GotenbergService {
      * Convert a document buffer to PDF using Gotenberg's LibreOffice engine
      * @param buffer - The source document (DOCX) as a Buffer
      * @param filename - Original filename (used for form-data)
+     * @param pdfStandard - Optional PDF/A level and/or PDF/UA
      * @returns Promise<Buffer> - The converted PDF as a Buffer
      */
-    async convert(buffer: Buffer, filename: string = "document.docx"): Promise<Buffer> {
+    async convert(buffer: Buffer, filename: string = "document.docx", pdfStandard?: PdfStandard): Promise<Buffer> {
         const formData = new FormData();
 
         // Gotenberg expects a file in the 'files' field
@@ -27,15 +51,58 @@ export class GotenbergService {
             type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
         });
         formData.append("files", blob, filename);
+        appendPdfStandard(formData, pdfStandard);
 
-        const response = await fetch(`${this.baseUrl}/forms/libreoffice/convert`, {
-            method: "POST",
-            body: formData,
-        });
+        return this.post("/forms/libreoffice/convert", formData);
+    }
+
+    /**
+     * Convert an HTML document to PDF using Gotenberg's Chromium engine
+     * @param html - The complete HTML document
+     * @param options - Optional header and PDF standard
+     * @returns Promise<Buffer> - The converted PDF as a Buffer
+     */
+    async convertHtml(html: string, options: HtmlConversionOptions = {}): Promise<Buffer> {
+        const formData = new FormData();
+
+        // Chromium route requires the entry file to be named index.html
+        const blob = new Blob([html], { type: "text/html" });
+        formData.append("files", blob, "index.html");
 
+        if (options.headerHtml) {
+            formData.append("files", new Blob([options.headerHtml], { type: "text/html" }), "header.html");
+        }
+
+        // Honour CSS backgrounds and @page rules for pixel-precise layouts
+        formData.append("printBackground", "true");
+        formData.append("preferCssPageSize", "true");
+        appendPdfStandard(formData, options.pdfStandard);
+
+        return this.post("/forms/chromium/convert/html", formData);
+    }
+
+    /**
+     * POST a conversion form to Gotenberg and return the resulting PDF
+     */
+    private async post(route: string, formData: FormData): Promise<Buffer> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}${route}`, {
+                method: "POST",
+                body: formData,
+            });
+        } catch (error) {
+            throw new ConverterUnavailableError(
+                `Gotenberg unreachable at ${this.baseUrl}: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+
+        if (response.status === 503) {
+            throw new ConverterUnavailableError(`Gotenberg unavailable: ${await response.text()}`);
+        }
         if (!response.ok) {
             const errorText = await response.text();
-            throw new Error(`Gotenberg conversion failed: ${response.status} - ${errorText}`);
+            throw new ConversionFailedError(response.status, `Gotenberg conversion failed: ${response.status} - ${errorText}`);
         }
 
         const arrayBuffer = await response.arrayBuffer();
@@ -55,5 +122,14 @@ export class GotenbergService {
     }
 }
 
+function appendPdfStandard(formData: FormData, pdfStandard?: PdfStandard) {
+    if (pdfStandard?.pdfa) {
+        formData.append("pdfa", pdfStandard.pdfa);
+    }
+    if (pdfStandard?.pdfua) {
+        formData.append("pdfua", "true");
+    }
+}
+
 // Export singleton for convenience
 export const gotenbergService = new GotenbergService();
@@ -0,0 +1,78 @@
+/**
+ * HtmlService - DOCX to HTML conversion using mammoth
+ *
+ * Produces a standalone HTML page (images inlined as data URIs) from a
+ * rendered DOCX, so documents can be previewed directly in a browser.
+ */
+
+import mammoth from "mammoth";
+
+// Keep inline formatting that mammoth drops by default
+const STYLE_MAP = [
+    "u => u",
+    "strike => s",
+    "p[style-name='Title'] => h1.title:fresh",
+    "p[style-name='Subtitle'] => p.subtitle:fresh",
+];
+
+const BASE_STYLES = `
+    body { font-family: Calibri, Arial, Helvetica, sans-serif; font-size: 11pt; line-height: 1.4; color: #222; max-width: 210mm; margin: 0 auto; padding: 20mm 15mm; }
+    h1, h2, h3, h4, h5, h6 { line-height: 1.2; margin: 1em 0 0.5em; }
+    p { margin: 0 0 0.6em; }
+    table { border-collapse: collapse; width: 100%; margin: 0 0 1em; }
+    td, th { border: 1px solid #bbb; padding: 4px 8px; vertical-align: top; }
+    img { max-width: 100%; height: auto; }
+    .subtitle { color: #555; font-size: 1.2em; }
+`;
+
+export interface HtmlConversionResult {
+    html: string;
+    warnings: string[];
+}
+
+export class HtmlService {
+    /**
+     * Convert a DOCX buffer to a standalone HTML document
+     * @param buffer - The rendered DOCX as a Buffer
+     * @param title - Used for the <title> element
+     * @returns Promise<HtmlConversionResult> - Full HTML page and any conversion warnings
+     */
+    async convert(buffer: Buffer, title: string = "Document"): Promise<HtmlConversionResult> {
+        const result = await mammoth.convertToHtml({ buffer }, {
+            styleMap: STYLE_MAP,
+            // Inline images so the page has no external dependencies
+            convertImage: mammoth.images.dataUri,
+        });
+
+        const html = [
+            "<!DOCTYPE html>",
+            "<html>",
+            "<head>",
+            '<meta charset="utf-8">',
+            '<meta name="viewport" content="width=device-width, initial-scale=1">',
+            `<title>${escapeHtml(title)}</title>`,
+            `<style>${BASE_STYLES}</style>`,
+            "</head>",
+            "<body>",
+            result.value,
+            "</body>",
+            "</html>",
+        ].join("\n");
+
+        return {
+            html,
+            warnings: result.messages.map(m => m.message),
+        };
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+// Export singleton for convenience
+export const htmlService = new HtmlService();
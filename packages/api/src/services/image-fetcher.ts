@@ -0,0 +1,212 @@
+/**
+ * Image Fetcher - Image URLs in request data, embedded as data URIs
+ *
+ * Word templates embed images given as base64 data URIs. This resolves other
+ * forms first, so clients don't have to download and encode photos:
+ * - `{ "image_url": "https://...", "width": 8, "height": 6, "fit": "cover" }` anywhere in the data
+ * - a plain URL string, or `{ "url": ... }` with the same sizes, in a field the
+ *   template's schema_map types as `image`
+ * Fetching is opt-in: other URLs, including link objects like `{ "url": ... }`,
+ * stay data.
+ *
+ * URLs are fetched concurrently through the URL policy (the same SSRF
+ * protection as template_url), each within a time, size and content-type
+ * limit, and each distinct URL only once per document.
+ */
+
+import type { SchemaMapField } from "@velocidoc/shared";
+import { urlPolicy, UrlPolicy } from "./url-policy.ts";
+import { detectImageType } from "./images.ts";
+import { ImageFetchError, InvalidImageError, VelocidocError } from "../errors.ts";
+
+export interface ImageFetcherOptions {
+    /** Distinct image URLs per document */
+    maxImages: number;
+    /** Size limit per image */
+    maxBytes: number;
+    timeoutMs: number;
+    /** Images downloaded in parallel */
+    concurrency: number;
+}
+
+const IMAGE_SIZE_KEYS = ["width", "height", "fit"];
+
+export class ImageFetcher {
+    constructor(private options: ImageFetcherOptions, private policy: UrlPolicy = urlPolicy) {}
+
+    /**
+     * Replace image URLs in the data with data URIs. Image objects become
+     * `{ data, width, height, fit }`; URL strings in image fields become plain data URIs.
+     * Only `{ image_url }` objects and schema_map image fields are fetched.
+     * @param data - Request data (not modified)
+     * @param schemaMap - Template field types; its `image` fields may hold plain URLs
+     * @param log - Request logger
+     * @throws UrlNotAllowedError - If the URL policy refuses an image URL
+     * @throws ImageFetchError - If an image can't be downloaded
+     * @throws InvalidImageError - If an image is too large or not in a supported format, or there are too many
+     */
+    async resolve(data: Record<string, any>, schemaMap: Record<string, SchemaMapField> | undefined, log: any): Promise<Record<string, any>> {
+        const urls = this.findUrls(data, schemaMap);
+        if (urls.size === 0) {
+            return data;
+        }
+        if (urls.size > this.options.maxImages) {
+            throw new InvalidImageError(`Data references ${urls.size} image URLs (max ${this.options.maxImages})`);
+        }
+
+        log.info({ images: urls.size }, "Fetching images from URLs");
+        const dataUris = await this.fetchAll([...urls]);
+        return walk(data, "", imageFields(schemaMap), url => dataUris.get(url)!);
+    }
+
+    /**
+     * The image URLs `resolve` would fetch, e.g. to tell whether a document
+     * depends on remote content that can change behind the same URL
+     */
+    findUrls(data: Record<string, any>, schemaMap: Record<string, SchemaMapField> | undefined): Set<string> {
+        const urls = new Set<string>();
+        walk(data, "", imageFields(schemaMap), url => {
+            urls.add(url);
+            return url;
+        });
+        return urls;
+    }
+
+    private async fetchAll(urls: string[]): Promise<Map<string, string>> {
+        const dataUris = new Map<string, string>();
+        let next = 0;
+        let failed = false;
+
+        const worker = async () => {
+            while (next < urls.length && !failed) {
+                const url = urls[next++];
+                try {
+                    dataUris.set(url, await this.fetchImage(url));
+                } catch (error) {
+                    // The document fails with the first error; don't start more downloads
+                    failed = true;
+                    throw error;
+                }
+            }
+        };
+
+        const workers = Array.from({ length: Math.max(1, Math.min(this.options.concurrency, urls.length)) }, worker);
+        await Promise.all(workers);
+        return dataUris;
+    }
+
+    private async fetchImage(url: string): Promise<string> {
+        const { maxBytes, timeoutMs } = this.options;
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+        try {
+            const response = await this.policy.fetch(url, {
+                method: 'GET',
+                signal: controller.signal,
+                headers: {
+                    'Accept': 'image/png, image/jpeg, image/webp, image/gif, image/svg+xml, image/heic, image/avif, image/*;q=0.8',
+                    'User-Agent': 'Velocidoc-PDFGen/1.0',
+                },
+            });
+
+            if (!response.ok) {
+                throw new ImageFetchError(url, `Failed to fetch image: HTTP ${response.status} ${response.statusText}`, response.status);
+            }
+
+            // Error pages and the like, before downloading them
+            const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+            if (contentType && !contentType.startsWith('image/') && contentType !== 'application/octet-stream') {
+                throw new InvalidImageError(`URL returned ${contentType}, not an image`, url);
+            }
+
+            const contentLength = response.headers.get('content-length');
+            if (contentLength && parseInt(contentLength) > maxBytes) {
+                throw new InvalidImageError(`Image too large: ${contentLength} bytes (max ${maxBytes})`, url);
+            }
+
+            const buffer = Buffer.from(await response.arrayBuffer());
+            if (buffer.length > maxBytes) {
+                throw new InvalidImageError(`Image too large: ${buffer.length} bytes (max ${maxBytes})`, url);
+            }
+
+            // Converted to PNG/JPEG when the document is rendered
+            const format = detectImageType(buffer);
+            if (!format) {
+                throw new InvalidImageError("Image is not a PNG, JPEG, WebP, GIF, SVG, HEIC or AVIF file", url);
+            }
+            return `data:image/${format === "svg" ? "svg+xml" : format};base64,${buffer.toString('base64')}`;
+
+        } catch (error) {
+            if (error instanceof VelocidocError) {
+                throw error;
+            }
+            if (error instanceof Error && error.name === 'AbortError') {
+                throw new ImageFetchError(url, `Request timed out after ${timeoutMs}ms`);
+            }
+            throw new ImageFetchError(url, `Failed to fetch image: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+}
+
+/**
+ * Paths schema_map types as `image`
+ */
+function imageFields(schemaMap: Record<string, SchemaMapField> | undefined): Set<string> {
+    return new Set(Object.entries(schemaMap || {})
+        .filter(([, field]) => field.type === "image")
+        .map(([path]) => path));
+}
+
+/**
+ * Copy the data, passing each image URL through `replace`. Objects are
+ * copied, so one walk can collect the URLs and the next swap them.
+ * @param path - Dotted path of the value, or null inside arrays (schema_map fields aren't in arrays)
+ */
+function walk(value: any, path: string | null, imageFields: Set<string>, replace: (url: string) => string): any {
+    const imageField = path !== null && imageFields.has(path);
+    if (typeof value === "string") {
+        return imageField && isHttpUrl(value) ? replace(value) : value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => walk(item, null, imageFields, replace));
+    }
+    if (!value || typeof value !== "object" || value instanceof Date || Buffer.isBuffer(value)) {
+        return value;
+    }
+    if (isImageObject(value, "image_url")) {
+        const { image_url, ...size } = value;
+        return { data: replace(image_url), ...size };
+    }
+    if (imageField && isImageObject(value, "url")) {
+        const { url, ...size } = value;
+        return { data: replace(url), ...size };
+    }
+
+    const copy: Record<string, any> = {};
+    for (const key in value) {
+        copy[key] = walk(value[key], path === null ? null : path ? `${path}.${key}` : key, imageFields, replace);
+    }
+    return copy;
+}
+
+/**
+ * `{ <urlKey>, width?, height?, fit? }` with nothing else
+ */
+function isImageObject(value: Record<string, any>, urlKey: "image_url" | "url"): boolean {
+    return typeof value[urlKey] === "string" && isHttpUrl(value[urlKey])
+        && Object.keys(value).every(key => key === urlKey || IMAGE_SIZE_KEYS.includes(key));
+}
+
+function isHttpUrl(value: string): boolean {
+    return /^https?:\/\//i.test(value);
+}
+
+export const imageFetcher = new ImageFetcher({
+    maxImages: parseInt(process.env.IMAGE_FETCH_MAX_COUNT || "50", 10),
+    maxBytes: parseInt(process.env.IMAGE_FETCH_MAX_MB || "10", 10) * 1024 * 1024,
+    timeoutMs: parseInt(process.env.IMAGE_FETCH_TIMEOUT_SECONDS || "15", 10) * 1000,
+    concurrency: parseInt(process.env.IMAGE_FETCH_CONCURRENCY || "4", 10),
+});
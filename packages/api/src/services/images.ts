@@ -0,0 +1,327 @@
+/**
+ * Images - Data URIs and uploaded files prepared for embedding in Word documents
+ *
+ * Each image is read with sharp for its real pixel size. Photos carrying an
+ * EXIF orientation are rotated upright first, so a portrait phone photo
+ * isn't embedded sideways. The display size (in cm, as docx-templates
+ * expects) then keeps the aspect ratio:
+ * - `contain` (default): as large as fits in width × height
+ * - `cover`: exactly width × height, cropping the overflow from the centre
+ * - `max-width`: the image's natural size, scaled down to at most `width`
+ * Only a width or only a height sets the other from the aspect ratio.
+ *
+ * Word embeds PNG and JPEG. WebP, GIF (first frame), SVG, HEIC and AVIF are
+ * converted: to PNG when they may be transparent, otherwise to JPEG. Images
+ * with more pixels than their display size needs at `IMAGE_MAX_DPI` are
+ * downscaled and recompressed, so a 12MP photo shown at 8cm stays small.
+ */
+
+import sharp, { Metadata, Sharp } from "sharp";
+import { InvalidImageError } from "../errors.ts";
+
+export type ImageFit = "contain" | "cover" | "max-width";
+
+export type ImageFormat = "png" | "jpeg" | "webp" | "gif" | "svg" | "heic" | "avif";
+
+export interface ImageSizing {
+    /** Centimetres */
+    width?: number;
+    /** Centimetres */
+    height?: number;
+    fit?: ImageFit;
+}
+
+export interface ImageProcessingOptions {
+    /** Resolution images are downscaled to at their display size; 0 keeps every pixel */
+    maxDpi: number;
+    /** JPEG quality (1-100) for converted, cropped or downscaled images */
+    jpegQuality: number;
+}
+
+/**
+ * Image object docx-templates embeds
+ */
+export interface DocxImage {
+    /** Base64 */
+    data: string;
+    extension: string;
+    /** Centimetres */
+    width: number;
+    /** Centimetres */
+    height: number;
+}
+
+// Box an image fits in when nothing sets its size
+export const DEFAULT_IMAGE_SIZE_CM = 6;
+
+// Largest width or height an image may be given (Word pages are at most 55.88cm)
+export const MAX_IMAGE_SIZE_CM = 100;
+
+const IMAGE_FITS: ImageFit[] = ["contain", "cover", "max-width"];
+
+// Natural size of images that don't record their resolution (and of SVG's CSS pixels)
+const DEFAULT_DPI = 96;
+
+// Resolution SVGs are drawn at when downscaling is off
+const SVG_RENDER_DPI = 300;
+
+// sharp draws one SVG unit per pixel at this density
+const SVG_BASE_DENSITY = 72;
+
+const CM_PER_INCH = 2.54;
+
+// Formats recognised by their leading bytes; SVG is text and checked separately
+const IMAGE_SIGNATURES: Array<{ format: ImageFormat; offset: number; bytes: string | number[] }> = [
+    { format: "png", offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47] },
+    { format: "jpeg", offset: 0, bytes: [0xff, 0xd8, 0xff] },
+    { format: "gif", offset: 0, bytes: "GIF8" },
+    { format: "webp", offset: 8, bytes: "WEBP" },
+    // ISO-BMFF brands after the box size and "ftyp"
+    { format: "heic", offset: 4, bytes: "ftypheic" },
+    { format: "heic", offset: 4, bytes: "ftypheix" },
+    { format: "heic", offset: 4, bytes: "ftypmif1" },
+    { format: "heic", offset: 4, bytes: "ftypmsf1" },
+    { format: "avif", offset: 4, bytes: "ftypavif" },
+];
+
+export const imageProcessing: ImageProcessingOptions = {
+    maxDpi: parseInt(process.env.IMAGE_MAX_DPI || "300", 10),
+    jpegQuality: parseInt(process.env.IMAGE_JPEG_QUALITY || "85", 10),
+};
+
+/**
+ * Whether a string is a base64 image data URI (of any image type)
+ */
+export function isImageDataUri(value: string): boolean {
+    return /^data:image\/[a-z0-9.+-]+;base64,/i.test(value);
+}
+
+/**
+ * Whether a value is image data prepareImage accepts: a data URI, or the bytes of an uploaded file
+ */
+export function isImageData(value: unknown): value is string | Buffer {
+    return typeof value === "string" ? isImageDataUri(value) : Buffer.isBuffer(value) && detectImageType(value) !== undefined;
+}
+
+/**
+ * MIME type of a file from its content (application/octet-stream if it isn't a known image)
+ */
+export function imageMimeType(buffer: Buffer): string {
+    const format = detectImageType(buffer);
+    return format ? `image/${format === "svg" ? "svg+xml" : format}` : "application/octet-stream";
+}
+
+/**
+ * Copy data, replacing every Buffer (an uploaded file) with `replace(buffer)`
+ */
+export function replaceUploads(value: unknown, replace: (buffer: Buffer) => unknown): any {
+    if (Buffer.isBuffer(value)) {
+        return replace(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => replaceUploads(item, replace));
+    }
+    if (value && typeof value === "object" && !(value instanceof Date)) {
+        const copy: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            copy[key] = replaceUploads(item, replace);
+        }
+        return copy;
+    }
+    return value;
+}
+
+/**
+ * Image format from the file's content, whatever its data URI or Content-Type says
+ */
+export function detectImageType(buffer: Buffer): ImageFormat | undefined {
+    const signature = IMAGE_SIGNATURES.find(({ offset, bytes }) => typeof bytes === "string"
+        ? buffer.toString("latin1", offset, offset + bytes.length) === bytes
+        : bytes.every((byte, i) => buffer[offset + i] === byte));
+    if (signature) {
+        return signature.format;
+    }
+    // An <svg> root, possibly after an XML declaration, comments or a doctype
+    const head = buffer.toString("utf8", 0, 1024).replace(/^\uFEFF/, "");
+    return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i.test(head) ? "svg" : undefined;
+}
+
+/**
+ * Why a width or height in cm can't be used, or undefined if it can
+ * @param name - What the size is, e.g. "Image width"
+ */
+export function imageSizeProblem(name: string, value: unknown): string | undefined {
+    if (typeof value === "number" && Number.isFinite(value) && value > 0 && value <= MAX_IMAGE_SIZE_CM) {
+        return undefined;
+    }
+    return `${name} must be a number of cm above 0 and at most ${MAX_IMAGE_SIZE_CM}, got ${JSON.stringify(value) ?? String(value)}`;
+}
+
+/**
+ * Check an image's width, height and fit before sizing it
+ * @throws InvalidImageError - If a size isn't a positive number of cm within MAX_IMAGE_SIZE_CM, or fit is unknown
+ */
+export function checkImageSizing(sizing: { width?: unknown; height?: unknown; fit?: unknown }): ImageSizing {
+    for (const key of ["width", "height"] as const) {
+        const problem = sizing[key] === undefined ? undefined : imageSizeProblem(`Image ${key}`, sizing[key]);
+        if (problem) {
+            throw new InvalidImageError(problem);
+        }
+    }
+    if (sizing.fit !== undefined && !IMAGE_FITS.includes(sizing.fit as ImageFit)) {
+        throw new InvalidImageError(`Image fit must be ${IMAGE_FITS.join(", ")}, got ${JSON.stringify(sizing.fit) ?? String(sizing.fit)}`);
+    }
+    return sizing as ImageSizing;
+}
+
+/**
+ * Decode a base64 data URI (or take the bytes of an uploaded file) into an image sized for the document
+ * @throws InvalidImageError - If the data isn't a readable image, or the sizing isn't usable
+ */
+export async function prepareImage(
+    source: string | Buffer,
+    sizing: ImageSizing = {},
+    options: ImageProcessingOptions = imageProcessing,
+): Promise<DocxImage> {
+    checkImageSizing(sizing);
+    let buffer: Buffer;
+    if (Buffer.isBuffer(source)) {
+        buffer = source;
+    } else {
+        const match = source.match(/^data:image\/[a-z0-9.+-]+;base64,(.*)$/is);
+        if (!match) {
+            throw new InvalidImageError("Image must be a base64 data URI");
+        }
+        buffer = Buffer.from(match[1], "base64");
+    }
+    const format = detectImageType(buffer);
+    if (!format) {
+        throw new InvalidImageError("Image is not a PNG, JPEG, WebP, GIF, SVG, HEIC or AVIF file");
+    }
+
+    try {
+        let metadata = await sharp(buffer).metadata();
+        let dpi = metadata.density || DEFAULT_DPI;
+        let vectorSize: ReturnType<typeof displaySize> | undefined;
+
+        if (format === "svg") {
+            // Vector: drawn at the resolution its display size needs, sized by its exact aspect ratio
+            vectorSize = displaySize(metadata.width!, metadata.height!, DEFAULT_DPI, sizing);
+            const visibleWidth = vectorSize.crop?.width ?? metadata.width!;
+            const targetWidth = vectorSize.width / CM_PER_INCH * (options.maxDpi || SVG_RENDER_DPI);
+            const scale = Math.max(1, targetWidth / visibleWidth);
+            buffer = await sharp(buffer, { density: SVG_BASE_DENSITY * scale }).png().toBuffer();
+            metadata = await sharp(buffer).metadata();
+            dpi = DEFAULT_DPI * scale;
+        } else if (metadata.orientation && metadata.orientation > 1) {
+            // Orientations 2-8 are mirrored and/or rotated
+            buffer = await sharp(buffer).rotate().toBuffer();
+            metadata = await sharp(buffer).metadata();
+        }
+        if (!metadata.width || !metadata.height) {
+            throw new InvalidImageError("Image has no dimensions");
+        }
+
+        const size = displaySize(metadata.width, metadata.height, dpi, sizing);
+        if (vectorSize) {
+            // Whole pixels mustn't change the drawing's proportions
+            size.width = vectorSize.width;
+            size.height = vectorSize.height;
+        }
+        const visibleWidth = size.crop?.width ?? metadata.width;
+        const targetWidth = Math.ceil(size.width / CM_PER_INCH * options.maxDpi);
+        const downscale = options.maxDpi > 0 && visibleWidth > targetWidth;
+
+        // PNG and JPEG that need no changes are embedded as they are
+        const output = outputFormat(format, metadata);
+        if (format === output && !size.crop && !downscale) {
+            return { data: buffer.toString("base64"), extension: `.${output}`, width: size.width, height: size.height };
+        }
+
+        let pipeline: Sharp = sharp(buffer);
+        if (size.crop) {
+            pipeline = pipeline.extract(size.crop);
+        }
+        if (downscale) {
+            pipeline = pipeline.resize({ width: targetWidth });
+        }
+        pipeline = output === "png"
+            ? pipeline.png({ compressionLevel: 9 })
+            : pipeline.jpeg({ quality: options.jpegQuality, mozjpeg: true });
+
+        const data = await pipeline.toBuffer();
+        return { data: data.toString("base64"), extension: `.${output}`, width: size.width, height: size.height };
+    } catch (error) {
+        if (error instanceof InvalidImageError) {
+            throw error;
+        }
+        const message = (error as Error).message;
+        throw new InvalidImageError(format === "heic" && /heif|compression|codec|plugin/i.test(message)
+            ? `HEIC image could not be decoded (the server's image library has no HEVC decoder): ${message}`
+            : `Image could not be read: ${message}`);
+    }
+}
+
+/**
+ * Format an image is embedded in: JPEG stays JPEG, PNG stays PNG, others
+ * become PNG when they may be transparent or are drawings, JPEG otherwise
+ */
+function outputFormat(format: ImageFormat, metadata: Metadata): "png" | "jpeg" {
+    if (format === "png" || format === "jpeg") {
+        return format;
+    }
+    return format === "svg" || format === "gif" || metadata.hasAlpha ? "png" : "jpeg";
+}
+
+/**
+ * Display size in cm for an image of the given pixel size, and the region
+ * to keep when `cover` crops it
+ */
+export function displaySize(
+    pixelWidth: number,
+    pixelHeight: number,
+    dpi: number,
+    sizing: ImageSizing,
+): { width: number; height: number; crop?: { left: number; top: number; width: number; height: number } } {
+    const aspect = pixelWidth / pixelHeight;
+    const { fit = "contain" } = sizing;
+
+    if (fit === "max-width") {
+        const naturalWidth = pixelWidth / dpi * CM_PER_INCH;
+        const width = Math.min(naturalWidth, sizing.width ?? DEFAULT_IMAGE_SIZE_CM);
+        return { width: round(width), height: round(width / aspect) };
+    }
+
+    if (sizing.width === undefined && sizing.height !== undefined) {
+        return { width: round(sizing.height * aspect), height: round(sizing.height) };
+    }
+    if (sizing.width !== undefined && sizing.height === undefined) {
+        return { width: round(sizing.width), height: round(sizing.width / aspect) };
+    }
+
+    const boxWidth = sizing.width ?? DEFAULT_IMAGE_SIZE_CM;
+    const boxHeight = sizing.height ?? DEFAULT_IMAGE_SIZE_CM;
+    const boxAspect = boxWidth / boxHeight;
+
+    if (fit === "cover") {
+        // The largest centred region with the box's aspect ratio
+        const cropWidth = aspect > boxAspect ? Math.round(pixelHeight * boxAspect) : pixelWidth;
+        const cropHeight = aspect > boxAspect ? pixelHeight : Math.round(pixelWidth / boxAspect);
+        const crop = cropWidth === pixelWidth && cropHeight === pixelHeight ? undefined : {
+            left: Math.floor((pixelWidth - cropWidth) / 2),
+            top: Math.floor((pixelHeight - cropHeight) / 2),
+            width: cropWidth,
+            height: cropHeight,
+        };
+        return { width: round(boxWidth), height: round(boxHeight), crop };
+    }
+
+    return aspect > boxAspect
+        ? { width: round(boxWidth), height: round(boxWidth / aspect) }
+        : { width: round(boxHeight * aspect), height: round(boxHeight) };
+}
+
+// Hundredths of a millimetre are plenty for Word
+function round(cm: number): number {
+    return Math.round(cm * 1000) / 1000;
+}
@@ -1,2 +1,10 @@
 export * from "./gotenberg.ts";
 export * from "./docx.ts";
+export * from "./html.ts";
+export * from "./web.ts";
+export * from "./pdf.ts";
+export * from "./docx-postprocess.ts";
+export * from "./template-loader.ts";
+export * from "./generator.ts";
+export * from "./batch.ts";
+export * from "./assembly.ts";
@@ -0,0 +1,231 @@
+/**
+ * Number Words - Whole numbers spelled out, for amounts on cheques and contracts
+ *
+ * Intl has no spell-out formatting, so each supported language has its own
+ * rules here: English (with "and" after hundreds outside the US), German,
+ * French (traditional spelling, e.g. "quatre-vingts") and Spanish.
+ * Numbers up to 999 999 999 999 999 are supported.
+ */
+
+export type SpelledLanguage = "en" | "de" | "fr" | "es";
+
+export const SPELLED_LANGUAGES: SpelledLanguage[] = ["en", "de", "fr", "es"];
+
+const MAX_SPELLED = 999_999_999_999_999;
+
+/**
+ * Spell out a whole number in the locale's language
+ * @throws Error - For fractions, numbers out of range and unsupported languages
+ */
+export function numberToWords(value: number, locale: string): string {
+    if (!Number.isInteger(value)) {
+        throw new Error(`words() takes whole numbers, got ${value}`);
+    }
+    if (Math.abs(value) > MAX_SPELLED) {
+        throw new Error(`words() supports numbers up to ${MAX_SPELLED}`);
+    }
+
+    const { language, region } = new Intl.Locale(locale);
+    const spell = SPELLERS[language as SpelledLanguage];
+    if (!spell) {
+        throw new Error(`words() doesn't support '${language}' (use ${SPELLED_LANGUAGES.join(", ")})`);
+    }
+
+    const words = spell(Math.abs(value), region);
+    return value < 0 ? `${MINUS[language as SpelledLanguage]} ${words}` : words;
+}
+
+const MINUS: Record<SpelledLanguage, string> = { en: "minus", de: "minus", fr: "moins", es: "menos" };
+
+/**
+ * Split into groups of three digits, least significant first
+ */
+function groupsOf1000(value: number): number[] {
+    const groups: number[] = [];
+    do {
+        groups.push(value % 1000);
+        value = Math.floor(value / 1000);
+    } while (value > 0);
+    return groups;
+}
+
+// English
+
+const EN_UNITS = ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+    "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen"];
+const EN_TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const EN_SCALES = ["", "thousand", "million", "billion", "trillion"];
+
+// British and Commonwealth English say "one hundred and five"
+const EN_AND_REGIONS = new Set(["GB", "IE", "AU", "NZ", "IN", "ZA"]);
+
+function englishBelow1000(value: number, useAnd: boolean): string {
+    const hundreds = Math.floor(value / 100);
+    const rest = value % 100;
+    const parts: string[] = [];
+    if (hundreds) parts.push(`${EN_UNITS[hundreds]} hundred`);
+    if (rest) {
+        if (hundreds && useAnd) parts.push("and");
+        parts.push(rest < 20 ? EN_UNITS[rest] : EN_TENS[Math.floor(rest / 10)] + (rest % 10 ? `-${EN_UNITS[rest % 10]}` : ""));
+    }
+    return parts.join(" ");
+}
+
+function english(value: number, region?: string): string {
+    if (value === 0) return EN_UNITS[0];
+    const useAnd = region ? EN_AND_REGIONS.has(region) : false;
+    const groups = groupsOf1000(value);
+
+    const parts = groups.map((group, scale) => {
+        if (!group) return "";
+        const words = englishBelow1000(group, useAnd);
+        return scale ? `${words} ${EN_SCALES[scale]}` : words;
+    }).reverse().filter(Boolean);
+
+    // "one thousand and five"
+    if (useAnd && groups.length > 1 && groups[0] > 0 && groups[0] < 100) {
+        parts.splice(parts.length - 1, 0, "and");
+    }
+    return parts.join(" ");
+}
+
+// German
+
+const DE_UNITS = ["null", "eins", "zwei", "drei", "vier", "fünf", "sechs", "sieben", "acht", "neun", "zehn",
+    "elf", "zwölf", "dreizehn", "vierzehn", "fünfzehn", "sechzehn", "siebzehn", "achtzehn", "neunzehn"];
+const DE_TENS = ["", "", "zwanzig", "dreißig", "vierzig", "fünfzig", "sechzig", "siebzig", "achtzig", "neunzig"];
+const DE_SCALES: Array<[string, string]> = [["", ""], ["", ""], ["Million", "Millionen"], ["Milliarde", "Milliarden"], ["Billion", "Billionen"]];
+
+// "ein" in compounds (einhundert, einundzwanzig), "eins" only at the end
+function germanBelow1000(value: number, final: boolean): string {
+    const hundreds = Math.floor(value / 100);
+    const rest = value % 100;
+    let words = hundreds ? `${hundreds === 1 ? "ein" : DE_UNITS[hundreds]}hundert` : "";
+    if (rest === 1) {
+        words += final ? "eins" : "ein";
+    } else if (rest < 20 && rest) {
+        words += DE_UNITS[rest];
+    } else if (rest) {
+        const unit = rest % 10;
+        words += (unit ? `${unit === 1 ? "ein" : DE_UNITS[unit]}und` : "") + DE_TENS[Math.floor(rest / 10)];
+    }
+    return words;
+}
+
+function german(value: number): string {
+    if (value === 0) return DE_UNITS[0];
+    const groups = groupsOf1000(value);
+
+    // Below a million the number is one word
+    const belowMillion = (groups[1] ? `${germanBelow1000(groups[1], false)}tausend` : "")
+        + (groups[0] ? germanBelow1000(groups[0], true) : "");
+
+    const millions = groups.slice(2).map((group, i) => {
+        if (!group) return "";
+        const [one, many] = DE_SCALES[i + 2];
+        return group === 1 ? `eine ${one}` : `${germanBelow1000(group, false)} ${many}`;
+    }).reverse().filter(Boolean);
+
+    return [...millions, belowMillion].filter(Boolean).join(" ");
+}
+
+// French
+
+const FR_UNITS = ["zéro", "un", "deux", "trois", "quatre", "cinq", "six", "sept", "huit", "neuf", "dix",
+    "onze", "douze", "treize", "quatorze", "quinze", "seize", "dix-sept", "dix-huit", "dix-neuf"];
+const FR_TENS = ["", "", "vingt", "trente", "quarante", "cinquante", "soixante", "soixante", "quatre-vingt", "quatre-vingt"];
+const FR_SCALES: Array<[string, string]> = [["", ""], ["mille", "mille"], ["million", "millions"], ["milliard", "milliards"], ["billion", "billions"]];
+
+function frenchBelow100(value: number, final: boolean): string {
+    if (value < 20) return FR_UNITS[value];
+    const tens = Math.floor(value / 10);
+    // 70-79 and 90-99 count on from soixante-dix and quatre-vingt-dix
+    const unit = tens === 7 || tens === 9 ? value % 10 + 10 : value % 10;
+    if (unit === 0) {
+        // "quatre-vingts" takes an s only at the end of a number
+        return tens === 8 && final ? "quatre-vingts" : FR_TENS[tens];
+    }
+    const joiner = (unit === 1 || unit === 11) && tens !== 8 && tens !== 9 ? " et " : "-";
+    return `${FR_TENS[tens]}${joiner}${FR_UNITS[unit]}`;
+}
+
+function frenchBelow1000(value: number, final: boolean): string {
+    const hundreds = Math.floor(value / 100);
+    const rest = value % 100;
+    const parts: string[] = [];
+    if (hundreds) {
+        // "deux cents", but "deux cent un" and "deux cent mille"
+        parts.push(hundreds === 1 ? "cent" : `${FR_UNITS[hundreds]} ${rest === 0 && final ? "cents" : "cent"}`);
+    }
+    if (rest) parts.push(frenchBelow100(rest, final));
+    return parts.join(" ");
+}
+
+function french(value: number): string {
+    if (value === 0) return FR_UNITS[0];
+
+    return groupsOf1000(value).map((group, scale) => {
+        if (!group) return "";
+        if (scale === 0) return frenchBelow1000(group, true);
+        // "mille", not "un mille"; "mille" never takes an s, nor does what comes before it
+        if (scale === 1) return group === 1 ? "mille" : `${frenchBelow1000(group, false)} mille`;
+        const [one, many] = FR_SCALES[scale];
+        return `${frenchBelow1000(group, true)} ${group === 1 ? one : many}`;
+    }).reverse().filter(Boolean).join(" ");
+}
+
+// Spanish
+
+const ES_UNITS = ["cero", "uno", "dos", "tres", "cuatro", "cinco", "seis", "siete", "ocho", "nueve", "diez",
+    "once", "doce", "trece", "catorce", "quince", "dieciséis", "diecisiete", "dieciocho", "diecinueve",
+    "veinte", "veintiuno", "veintidós", "veintitrés", "veinticuatro", "veinticinco", "veintiséis", "veintisiete", "veintiocho", "veintinueve"];
+const ES_TENS = ["", "", "", "treinta", "cuarenta", "cincuenta", "sesenta", "setenta", "ochenta", "noventa"];
+const ES_HUNDREDS = ["", "ciento", "doscientos", "trescientos", "cuatrocientos", "quinientos", "seiscientos", "setecientos", "ochocientos", "novecientos"];
+
+// Before "mil" and "millones", "uno" shortens: "veintiún mil", "treinta y un millones"
+function spanishBelow1000(value: number, beforeNoun: boolean): string {
+    if (value === 100) return "cien";
+    const hundreds = Math.floor(value / 100);
+    const rest = value % 100;
+    let tail = "";
+    if (rest < 30) {
+        tail = rest ? ES_UNITS[rest] : "";
+    } else {
+        tail = ES_TENS[Math.floor(rest / 10)] + (rest % 10 ? ` y ${ES_UNITS[rest % 10]}` : "");
+    }
+    if (beforeNoun) {
+        tail = tail.replace(/uno$/, "un").replace(/^veintiun$/, "veintiún");
+    }
+    return [ES_HUNDREDS[hundreds], tail].filter(Boolean).join(" ");
+}
+
+function spanish(value: number): string {
+    if (value === 0) return ES_UNITS[0];
+    // Long scale: 10^9 is "mil millones", 10^12 "un billón"
+    const billions = Math.floor(value / 1e12);
+    const millions = Math.floor(value % 1e12 / 1e6);
+    const belowMillion = value % 1e6;
+    const parts: string[] = [];
+
+    if (billions) parts.push(billions === 1 ? "un billón" : `${spanishBelowMillion(billions, true)} billones`);
+    if (millions) parts.push(millions === 1 ? "un millón" : `${spanishBelowMillion(millions, true)} millones`);
+    if (belowMillion) parts.push(spanishBelowMillion(belowMillion, false));
+    return parts.join(" ");
+}
+
+function spanishBelowMillion(value: number, beforeNoun: boolean): string {
+    const thousands = Math.floor(value / 1000);
+    const rest = value % 1000;
+    const parts: string[] = [];
+    // "mil", not "un mil"
+    if (thousands) parts.push(thousands === 1 ? "mil" : `${spanishBelow1000(thousands, true)} mil`);
+    if (rest) parts.push(spanishBelow1000(rest, beforeNoun));
+    return parts.join(" ");
+}
+
+const SPELLERS: Record<SpelledLanguage, (value: number, region?: string) => string> = {
+    en: english,
+    de: german,
+    fr: french,
+    es: spanish,
+};
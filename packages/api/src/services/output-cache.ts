@@ -0,0 +1,293 @@
+/**
+ * Output Cache - Repeat generations without rendering again
+ *
+ * Two kinds of entries share one local disk cache:
+ * - Idempotency records: the document produced for an `Idempotency-Key`,
+ *   replayed byte for byte when a client (e.g. Power Automate) retries
+ * - Cached outputs (optional): documents keyed by a hash of the template
+ *   bytes, data and options, so identical requests skip rendering. Requests
+ *   with image URLs aren't cached: the key would hold the URL, not the image
+ *
+ * Entries expire after their TTL, and the least recently used ones are
+ * evicted once the cache grows beyond its size bound. Pruning scans the
+ * whole directory, so it runs in the background every so many writes
+ * rather than on each one. Only successful generations are stored, so a
+ * retry after a failure renders again.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { readdir, readFile, writeFile, rename, unlink, mkdir, stat, utimes } from "fs/promises";
+import { join } from "path";
+import type { GeneratedDocument, GenerateOptions } from "./generator.ts";
+import type { LoadedTemplate } from "./template-loader.ts";
+import { IdempotencyKeyReusedError } from "../errors.ts";
+
+// Bump when the cached document format or rendering changes incompatibly
+const CACHE_VERSION = 1;
+
+export interface OutputCacheOptions {
+    dir: string;
+    /** Lifetime of cached outputs; 0 disables output caching */
+    outputTtlMs: number;
+    /** Lifetime of idempotency records */
+    idempotencyTtlMs: number;
+    /** Upper bound for the cache directory */
+    maxBytes: number;
+    /** Writes between prunes (sooner once they add a tenth of maxBytes); defaults to 50 */
+    pruneEveryWrites?: number;
+}
+
+interface EntryMeta {
+    expiresAt: number;
+    size: number;
+    /** Request fingerprint an idempotency key was first used with */
+    fingerprint?: string;
+    contentType: string;
+    extension: GeneratedDocument["extension"];
+    warnings: GeneratedDocument["warnings"];
+}
+
+export class OutputCache {
+    private inFlight = new Map<string, { fingerprint: string; result: Promise<{ document: GeneratedDocument; replayed: boolean }> }>();
+    private pruning: Promise<void> | null = null;
+    private writesSincePrune = 0;
+    private bytesSincePrune = 0;
+
+    constructor(private options: OutputCacheOptions) {}
+
+    /** Whether outputs are cached by content (idempotency keys always work) */
+    get outputCachingEnabled(): boolean {
+        return this.options.outputTtlMs > 0;
+    }
+
+    /**
+     * Cache key for a generation: template bytes (and schema), data and options
+     */
+    outputKey(template: LoadedTemplate, data: Record<string, any>, options: GenerateOptions): string {
+        return `output:${fingerprint({ version: CACHE_VERSION, template, data, options })}`;
+    }
+
+    /**
+     * Resolve once a background prune, if one is running, has finished
+     */
+    async onIdle(): Promise<void> {
+        await this.pruning;
+    }
+
+    async getOutput(key: string): Promise<GeneratedDocument | null> {
+        return (await this.read(key))?.document ?? null;
+    }
+
+    async putOutput(key: string, document: GeneratedDocument): Promise<void> {
+        if (this.outputCachingEnabled) {
+            await this.write(key, document, this.options.outputTtlMs);
+        }
+    }
+
+    /**
+     * Produce a document at most once per idempotency key. A repeat of the
+     * request gets the stored document back; a retry that arrives while the
+     * first attempt is still running waits for it.
+     * @param tenantId - Keys are scoped to the tenant
+     * @param idempotencyKey - Client-chosen key, e.g. a UUID
+     * @param request - The request payload the key is bound to
+     * @param produce - Generates the document on first use of the key
+     * @param log - Request logger
+     * @throws IdempotencyKeyReusedError - If the key was used with a different payload
+     */
+    async idempotent(
+        tenantId: string,
+        idempotencyKey: string,
+        request: unknown,
+        produce: () => Promise<GeneratedDocument>,
+        log: any,
+    ): Promise<{ document: GeneratedDocument; replayed: boolean }> {
+        const key = `idempotency:${tenantId}:${idempotencyKey}`;
+        const requestFingerprint = fingerprint(request);
+
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            checkFingerprint(pending.fingerprint, requestFingerprint, idempotencyKey);
+            return { document: (await pending.result).document, replayed: true };
+        }
+
+        // Registered before the first await, so a concurrent retry finds it
+        const result = (async () => {
+            const stored = await this.read(key);
+            if (stored) {
+                checkFingerprint(stored.meta.fingerprint, requestFingerprint, idempotencyKey);
+                return { document: stored.document, replayed: true };
+            }
+
+            const document = await produce();
+            try {
+                await this.write(key, document, this.options.idempotencyTtlMs, requestFingerprint);
+            } catch (error) {
+                // The document is still good; only a later retry would render it again
+                log.warn({ error }, "Failed to store idempotency record");
+            }
+            return { document, replayed: false };
+        })();
+        this.inFlight.set(key, { fingerprint: requestFingerprint, result });
+
+        try {
+            return await result;
+        } finally {
+            this.inFlight.delete(key);
+        }
+    }
+
+    private paths(key: string) {
+        const name = createHash("sha256").update(key).digest("hex");
+        return { meta: join(this.options.dir, `${name}.json`), data: join(this.options.dir, `${name}.bin`) };
+    }
+
+    private async read(key: string): Promise<{ document: GeneratedDocument; meta: EntryMeta } | null> {
+        const paths = this.paths(key);
+        try {
+            const meta: EntryMeta = JSON.parse(await readFile(paths.meta, "utf-8"));
+            if (meta.expiresAt <= Date.now()) {
+                await removeEntry(paths);
+                return null;
+            }
+
+            const buffer = await readFile(paths.data);
+            // The data file's mtime is the last access time for eviction
+            const now = new Date();
+            await utimes(paths.data, now, now);
+
+            return {
+                document: { buffer, contentType: meta.contentType, extension: meta.extension, warnings: meta.warnings },
+                meta,
+            };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    private async write(key: string, document: GeneratedDocument, ttlMs: number, requestFingerprint?: string): Promise<void> {
+        if (document.buffer.length > this.options.maxBytes) return;
+
+        const paths = this.paths(key);
+        const meta: EntryMeta = {
+            expiresAt: Date.now() + ttlMs,
+            size: document.buffer.length,
+            ...(requestFingerprint && { fingerprint: requestFingerprint }),
+            contentType: document.contentType,
+            extension: document.extension,
+            warnings: document.warnings,
+        };
+
+        // Data first, then the record that makes it visible; both renamed into place
+        await mkdir(this.options.dir, { recursive: true });
+        await writeAtomic(paths.data, document.buffer);
+        await writeAtomic(paths.meta, JSON.stringify(meta));
+
+        this.writesSincePrune++;
+        this.bytesSincePrune += document.buffer.length;
+        this.schedulePrune();
+    }
+
+    /**
+     * Start a background prune once enough has been written since the last one
+     */
+    private schedulePrune(): void {
+        const { maxBytes, pruneEveryWrites = 50 } = this.options;
+        if (this.pruning || (this.writesSincePrune < pruneEveryWrites && this.bytesSincePrune < maxBytes / 10)) {
+            return;
+        }
+
+        this.writesSincePrune = 0;
+        this.bytesSincePrune = 0;
+        // Failures leave the entries for the next prune
+        this.pruning = this.prune()
+            .catch(() => {})
+            .finally(() => { this.pruning = null; });
+    }
+
+    /**
+     * Drop expired entries, then the least recently used ones until the cache fits its bound
+     */
+    private async prune(): Promise<void> {
+        const now = Date.now();
+        const entries: Array<{ paths: { meta: string; data: string }; size: number; lastAccess: number }> = [];
+
+        for (const file of await readdir(this.options.dir)) {
+            if (!file.endsWith(".json")) continue;
+
+            const paths = { meta: join(this.options.dir, file), data: join(this.options.dir, file.replace(/\.json$/, ".bin")) };
+            try {
+                const meta: EntryMeta = JSON.parse(await readFile(paths.meta, "utf-8"));
+                if (meta.expiresAt <= now) {
+                    await removeEntry(paths);
+                    continue;
+                }
+                entries.push({ paths, size: meta.size, lastAccess: (await stat(paths.data)).mtimeMs });
+            } catch {
+                // Removed by a concurrent read, or unreadable: drop it either way
+                await removeEntry(paths);
+            }
+        }
+
+        let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+        entries.sort((a, b) => a.lastAccess - b.lastAccess);
+        for (const entry of entries) {
+            if (total <= this.options.maxBytes) break;
+            await removeEntry(entry.paths);
+            total -= entry.size;
+        }
+    }
+}
+
+function checkFingerprint(stored: string | undefined, current: string, idempotencyKey: string): void {
+    if (stored !== current) {
+        throw new IdempotencyKeyReusedError(idempotencyKey);
+    }
+}
+
+// Concurrent writers of one key each use their own temp file
+async function writeAtomic(path: string, content: Buffer | string): Promise<void> {
+    const temp = `${path}.${randomUUID()}.tmp`;
+    await writeFile(temp, content);
+    await rename(temp, path);
+}
+
+async function removeEntry(paths: { meta: string; data: string }): Promise<void> {
+    await Promise.all([unlink(paths.meta), unlink(paths.data)].map(p => p.catch(() => {})));
+}
+
+/**
+ * SHA-256 of a value's canonical JSON: object keys sorted, Buffers (template
+ * bytes, uploads) hashed rather than serialised
+ */
+export function fingerprint(value: unknown): string {
+    return createHash("sha256").update(JSON.stringify(canonical(value))).digest("hex");
+}
+
+function canonical(value: unknown): unknown {
+    if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+        return { $sha256: createHash("sha256").update(value).digest("hex") };
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+        return value.map(canonical);
+    }
+    if (value && typeof value === "object") {
+        return Object.fromEntries(Object.keys(value).sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => [key, canonical((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+}
+
+export const outputCache = new OutputCache({
+    dir: process.env.CACHE_DIR || "./cache",
+    outputTtlMs: parseInt(process.env.OUTPUT_CACHE_TTL_SECONDS || "0", 10) * 1000,
+    idempotencyTtlMs: parseInt(process.env.IDEMPOTENCY_TTL_HOURS || "24", 10) * 60 * 60 * 1000,
+    maxBytes: parseInt(process.env.CACHE_MAX_MB || "1024", 10) * 1024 * 1024,
+});
@@ -0,0 +1,370 @@
+/**
+ * PdfService - Post-processing of converted PDFs using pdf-lib
+ *
+ * Applied after Gotenberg conversion, e.g. to stamp watermarks on every page,
+ * write document metadata or encrypt the finished document
+ */
+
+import { randomBytes } from "crypto";
+
+import {
+    PDFDocument,
+    PDFDict,
+    PDFHexString,
+    PDFName,
+    PDFRawStream,
+    PDFRef,
+    PDFStream,
+    StandardFonts,
+    decodePDFRawStream,
+    degrees,
+    rgb,
+} from "pdf-lib";
+// pdf-lib fork with encryption support, only used for the final encryption step
+import { PDFDocument as EncryptablePDFDocument } from "@cantoo/pdf-lib";
+import type { WatermarkOptions } from "@velocidoc/shared";
+
+/**
+ * Conformance a PDF declares in its XMP metadata
+ */
+export interface DeclaredConformance {
+    pdfa?: string;      // e.g. "PDF/A-2b"
+    pdfua: boolean;
+}
+
+/**
+ * Passwords and permissions for an encrypted PDF
+ */
+export interface PdfProtection {
+    /** Needed to open the document */
+    userPassword?: string;
+    /** Lifts the permission restrictions (random if omitted, so restrictions can't be lifted) */
+    ownerPassword?: string;
+    permissions: {
+        printing: boolean;
+        copying: boolean;
+        editing: boolean;
+    };
+}
+
+// What the standard PDF fonts (WinAnsi encoding) can draw: Latin-1 plus €, curly quotes, dashes and a few more
+const STANDARD_FONT_TEXT = /^[\x20-\x7e\xa0-\xff\u0152\u0153\u0160\u0161\u0178\u017d\u017e\u0192\u02c6\u02dc\u2013\u2014\u2018-\u201a\u201c-\u201e\u2020-\u2022\u2026\u2030\u2039\u203a\u20ac\u2122]*$/;
+
+/**
+ * Whether text can be drawn with the standard PDF fonts, as watermarks and
+ * signature stamps are. pdf-lib throws on any other character.
+ */
+export function isStandardFontText(text: string): boolean {
+    return STANDARD_FONT_TEXT.test(text);
+}
+
+export class PdfService {
+    /**
+     * Draw a centered watermark on every page
+     * @param pdf - The source PDF as a Buffer
+     * @param watermark - Text, opacity, rotation, font size and colour
+     * @returns Promise<Buffer> - The watermarked PDF as a Buffer
+     */
+    async addWatermark(pdf: Buffer, watermark: WatermarkOptions): Promise<Buffer> {
+        const doc = await PDFDocument.load(pdf);
+        // Standard fonts only cover WinAnsi (Latin) characters
+        const font = await doc.embedFont(StandardFonts.HelveticaBold);
+        const color = hexToRgb(watermark.color);
+
+        const textWidth = font.widthOfTextAtSize(watermark.text, watermark.font_size);
+        const textHeight = font.heightAtSize(watermark.font_size, { descender: false });
+        const angle = (watermark.rotation * Math.PI) / 180;
+
+        for (const page of doc.getPages()) {
+            const { width, height } = page.getSize();
+
+            // pdf-lib rotates around the text origin, so offset it to keep
+            // the rotated text centred on the page
+            const dx = (textWidth / 2) * Math.cos(angle) - (textHeight / 2) * Math.sin(angle);
+            const dy = (textWidth / 2) * Math.sin(angle) + (textHeight / 2) * Math.cos(angle);
+
+            page.drawText(watermark.text, {
+                x: width / 2 - dx,
+                y: height / 2 - dy,
+                size: watermark.font_size,
+                font,
+                color,
+                opacity: watermark.opacity,
+                rotate: degrees(watermark.rotation),
+            });
+        }
+
+        return Buffer.from(await doc.save());
+    }
+
+    /**
+     * Write metadata into the Info dictionary and an XMP metadata stream.
+     * title, author, subject and keywords map to the standard entries;
+     * any other key is stored as a custom Info entry (and pdfx: in XMP,
+     * where Acrobat shows custom document properties). A PDF/A or PDF/UA
+     * identification already in the XMP is kept.
+     * @param pdf - The source PDF as a Buffer
+     * @param metadata - Key/value metadata from the request options
+     * @returns Promise<Buffer> - The PDF with metadata applied
+     */
+    async setMetadata(pdf: Buffer, metadata: Record<string, string>): Promise<Buffer> {
+        const doc = await PDFDocument.load(pdf);
+        const conformance = parseConformance(readXmp(doc));
+        const { title, author, subject, keywords, ...custom } = metadata;
+        const keywordList = keywords?.split(",").map(k => k.trim()).filter(Boolean);
+
+        if (title !== undefined) doc.setTitle(title);
+        if (author !== undefined) doc.setAuthor(author);
+        if (subject !== undefined) doc.setSubject(subject);
+        if (keywordList) doc.setKeywords(keywordList);
+
+        // load() always creates the Info dictionary (it updates Producer/ModDate)
+        const info = doc.context.lookup(doc.context.trailerInfo.Info, PDFDict);
+        for (const [key, value] of Object.entries(custom)) {
+            info.set(PDFName.of(key), PDFHexString.fromText(value));
+        }
+
+        const xmp = buildXmp({
+            title: doc.getTitle(),
+            author: doc.getAuthor(),
+            subject: doc.getSubject(),
+            keywords: doc.getKeywords(),
+            producer: doc.getProducer(),
+            creator: doc.getCreator(),
+            created: doc.getCreationDate(),
+            modified: doc.getModificationDate(),
+        }, custom, conformance);
+
+        // XMP must be UTF-8 and uncompressed
+        const stream = doc.context.stream(new TextEncoder().encode(xmp), {
+            Type: "Metadata",
+            Subtype: "XML",
+        });
+        doc.catalog.set(PDFName.of("Metadata"), doc.context.register(stream));
+
+        return Buffer.from(await doc.save());
+    }
+
+    /**
+     * Encrypt the document (AES-256) with passwords and permission restrictions.
+     * Must be the last step: the result can't be loaded for further processing.
+     * @param pdf - The source PDF as a Buffer
+     * @param protection - Passwords and permissions
+     * @returns Promise<Buffer> - The encrypted PDF as a Buffer
+     */
+    async encrypt(pdf: Buffer, protection: PdfProtection): Promise<Buffer> {
+        const doc = await EncryptablePDFDocument.load(pdf, { updateMetadata: false });
+        const { printing, copying, editing } = protection.permissions;
+
+        doc.encrypt({
+            userPassword: protection.userPassword ?? "",
+            ownerPassword: protection.ownerPassword ?? randomBytes(32).toString("hex"),
+            permissions: {
+                printing: printing ? "highResolution" : false,
+                copying,
+                modifying: editing,
+                annotating: editing,
+                fillingForms: editing,
+                documentAssembly: editing,
+                // Screen readers keep access to the text (required for PDF/UA)
+                contentAccessibility: true,
+            },
+        });
+
+        return Buffer.from(await doc.save());
+    }
+
+    /**
+     * Read the PDF/A and PDF/UA identification from the XMP metadata
+     * @param pdf - The PDF as a Buffer
+     * @returns Promise<DeclaredConformance> - What the document claims to conform to
+     */
+    async getConformance(pdf: Buffer): Promise<DeclaredConformance> {
+        const doc = await PDFDocument.load(pdf, { updateMetadata: false });
+        return parseConformance(readXmp(doc));
+    }
+
+    /**
+     * Concatenate PDFs into a single document, in order
+     * @param pdfs - Source PDFs as Buffers
+     * @param bookmarks - Optional outline titles, one per source PDF, each
+     *                    pointing at the first page of that PDF
+     * @returns Promise<Buffer> - The merged PDF as a Buffer
+     */
+    async merge(pdfs: Buffer[], bookmarks?: string[]): Promise<Buffer> {
+        const merged = await PDFDocument.create();
+        const firstPages: PDFRef[] = [];
+
+        for (const pdf of pdfs) {
+            const doc = await PDFDocument.load(pdf);
+            const pages = await merged.copyPages(doc, doc.getPageIndices());
+            pages.forEach(page => merged.addPage(page));
+            firstPages.push(pages[0]?.ref);
+        }
+
+        if (bookmarks) {
+            addOutline(merged, bookmarks.map((title, i) => ({ title, page: firstPages[i] })));
+        }
+
+        return Buffer.from(await merged.save());
+    }
+}
+
+/**
+ * Build a flat document outline (bookmarks). pdf-lib has no outline API,
+ * so the Outlines dictionary and its linked list of items are written directly.
+ */
+function addOutline(doc: PDFDocument, entries: Array<{ title: string; page?: PDFRef }>) {
+    const targets = entries.filter(entry => entry.page);
+    if (targets.length === 0) return;
+
+    const outlineRef = doc.context.nextRef();
+    const itemRefs = targets.map(() => doc.context.nextRef());
+
+    targets.forEach((entry, i) => {
+        const item = doc.context.obj({
+            Title: PDFHexString.fromText(entry.title),
+            Parent: outlineRef,
+            // Fit the whole page in the window
+            Dest: [entry.page!, "Fit"],
+        });
+        if (i > 0) item.set(PDFName.of("Prev"), itemRefs[i - 1]);
+        if (i < itemRefs.length - 1) item.set(PDFName.of("Next"), itemRefs[i + 1]);
+        doc.context.assign(itemRefs[i], item);
+    });
+
+    doc.context.assign(outlineRef, doc.context.obj({
+        Type: "Outlines",
+        First: itemRefs[0],
+        Last: itemRefs[itemRefs.length - 1],
+        Count: itemRefs.length,
+    }));
+
+    doc.catalog.set(PDFName.of("Outlines"), outlineRef);
+    // Open with the bookmarks panel visible
+    doc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+/**
+ * The document's XMP packet, if any (decompressed)
+ */
+function readXmp(doc: PDFDocument): string | undefined {
+    const stream = doc.catalog.lookupMaybe(PDFName.of("Metadata"), PDFStream);
+    if (!(stream instanceof PDFRawStream)) return undefined;
+    return new TextDecoder().decode(decodePDFRawStream(stream).decode());
+}
+
+// Properties are written either as elements (<pdfaid:part>2</pdfaid:part>) or attributes (pdfaid:part="2")
+const xmpProperty = (xmp: string, name: string) =>
+    xmp.match(new RegExp(`${name}(?:>|=["'])\\s*([^<"']+)`))?.[1].trim();
+
+function parseConformance(xmp?: string): DeclaredConformance {
+    if (!xmp) return { pdfua: false };
+
+    const part = xmpProperty(xmp, "pdfaid:part");
+    const level = xmpProperty(xmp, "pdfaid:conformance");
+    return {
+        ...(part && { pdfa: `PDF/A-${part}${(level || "").toLowerCase()}` }),
+        pdfua: xmpProperty(xmp, "pdfuaid:part") !== undefined,
+    };
+}
+
+interface XmpFields {
+    title?: string;
+    author?: string;
+    subject?: string;
+    keywords?: string;
+    producer?: string;
+    creator?: string;
+    created?: Date;
+    modified?: Date;
+}
+
+/**
+ * Build an XMP packet mirroring the Info dictionary
+ */
+function buildXmp(fields: XmpFields, custom: Record<string, string>, conformance: DeclaredConformance): string {
+    const properties: string[] = [];
+    const identification: string[] = [];
+
+    if (fields.title) {
+        properties.push(`<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(fields.title)}</rdf:li></rdf:Alt></dc:title>`);
+    }
+    if (fields.author) {
+        properties.push(`<dc:creator><rdf:Seq><rdf:li>${escapeXml(fields.author)}</rdf:li></rdf:Seq></dc:creator>`);
+    }
+    if (fields.subject) {
+        properties.push(`<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(fields.subject)}</rdf:li></rdf:Alt></dc:description>`);
+    }
+    if (fields.keywords) properties.push(`<pdf:Keywords>${escapeXml(fields.keywords)}</pdf:Keywords>`);
+    if (fields.producer) properties.push(`<pdf:Producer>${escapeXml(fields.producer)}</pdf:Producer>`);
+    if (fields.creator) properties.push(`<xmp:CreatorTool>${escapeXml(fields.creator)}</xmp:CreatorTool>`);
+    if (fields.created) properties.push(`<xmp:CreateDate>${fields.created.toISOString()}</xmp:CreateDate>`);
+    if (fields.modified) properties.push(`<xmp:ModifyDate>${fields.modified.toISOString()}</xmp:ModifyDate>`);
+
+    for (const [key, value] of Object.entries(custom)) {
+        // XMP property names must be valid XML names
+        const name = key.replace(/[^A-Za-z0-9_.-]/g, "_").replace(/^([^A-Za-z_])/, "_$1");
+        properties.push(`<pdfx:${name}>${escapeXml(value)}</pdfx:${name}>`);
+    }
+
+    const pdfa = conformance.pdfa?.match(/^PDF\/A-(\d)([a-z]?)$/);
+    if (pdfa) {
+        identification.push(`<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">`);
+        identification.push(`<pdfaid:part>${pdfa[1]}</pdfaid:part>`);
+        if (pdfa[2]) identification.push(`<pdfaid:conformance>${pdfa[2].toUpperCase()}</pdfaid:conformance>`);
+        identification.push(`</rdf:Description>`);
+    }
+    if (conformance.pdfua) {
+        identification.push(`<rdf:Description rdf:about="" xmlns:pdfuaid="http://www.aiim.org/pdfua/ns/id/">`);
+        identification.push(`<pdfuaid:part>1</pdfuaid:part>`);
+        identification.push(`</rdf:Description>`);
+        // PDF/A only allows schemas it doesn't define if they are described in an extension schema
+        if (pdfa) identification.push(PDFUA_EXTENSION_SCHEMA);
+    }
+
+    return [
+        `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>`,
+        `<x:xmpmeta xmlns:x="adobe:ns:meta/">`,
+        `<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">`,
+        `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:pdf="http://ns.adobe.com/pdf/1.3/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:pdfx="http://ns.adobe.com/pdfx/1.3/">`,
+        ...properties,
+        `</rdf:Description>`,
+        ...identification,
+        `</rdf:RDF>`,
+        `</x:xmpmeta>`,
+        `<?xpacket end="w"?>`,
+    ].join("\n");
+}
+
+const PDFUA_EXTENSION_SCHEMA = [
+    `<rdf:Description rdf:about="" xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/" xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#" xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">`,
+    `<pdfaExtension:schemas><rdf:Bag><rdf:li rdf:parseType="Resource">`,
+    `<pdfaSchema:schema>PDF/UA Universal Accessibility Schema</pdfaSchema:schema>`,
+    `<pdfaSchema:namespaceURI>http://www.aiim.org/pdfua/ns/id/</pdfaSchema:namespaceURI>`,
+    `<pdfaSchema:prefix>pdfuaid</pdfaSchema:prefix>`,
+    `<pdfaSchema:property><rdf:Seq><rdf:li rdf:parseType="Resource">`,
+    `<pdfaProperty:name>part</pdfaProperty:name>`,
+    `<pdfaProperty:valueType>Integer</pdfaProperty:valueType>`,
+    `<pdfaProperty:category>internal</pdfaProperty:category>`,
+    `<pdfaProperty:description>Part of ISO 14289 standard</pdfaProperty:description>`,
+    `</rdf:li></rdf:Seq></pdfaSchema:property>`,
+    `</rdf:li></rdf:Bag></pdfaExtension:schemas>`,
+    `</rdf:Description>`,
+].join("\n");
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+function hexToRgb(hex: string) {
+    const value = parseInt(hex.replace(/^#/, ""), 16);
+    return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
+
+// Export singleton for convenience
+export const pdfService = new PdfService();
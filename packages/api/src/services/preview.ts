@@ -0,0 +1,144 @@
+/**
+ * PreviewService - PNG page previews of converted PDFs
+ *
+ * Rasterizes selected pages with PDFium (WebAssembly, no system packages
+ * needed) and encodes them as PNG with sharp. Used for the `png` output
+ * format and template previews in approval UIs.
+ */
+
+import { PDFiumLibrary } from "@hyzyla/pdfium";
+import sharp from "sharp";
+import JSZip from "jszip";
+import { InvalidPageRangeError } from "../errors.ts";
+
+export const DEFAULT_PREVIEW_PAGES = "1";
+export const DEFAULT_PREVIEW_DPI = 96;
+export const MAX_PREVIEW_DPI = 300;
+
+// Upper bound on pages rendered per request, to keep memory in check
+const PREVIEW_MAX_PAGES = parseInt(process.env.PREVIEW_MAX_PAGES || "20", 10);
+
+// Upper bound on pixels per rendered page: a poster-sized page at 300 DPI would need gigabytes
+const PREVIEW_MAX_PIXELS = parseFloat(process.env.PREVIEW_MAX_MEGAPIXELS || "40") * 1_000_000;
+
+export interface PreviewOptions {
+    /** Page range, e.g. "1", "1-3,5" (1-based, defaults to the first page) */
+    pages?: string;
+    /** Resolution in dots per inch (defaults to 96) */
+    dpi?: number;
+}
+
+export interface PagePreview {
+    page: number;   // 1-based
+    png: Buffer;
+}
+
+/**
+ * Parse a page range like "1-3,5" into sorted, de-duplicated page numbers
+ * @throws InvalidPageRangeError - Malformed range or a page beyond pageCount
+ */
+export function parsePageRange(pages: string, pageCount: number): number[] {
+    const selected = new Set<number>();
+
+    for (const part of pages.split(",")) {
+        const match = part.trim().match(/^(\d+)(?:-(\d+))?$/);
+        if (!match) {
+            throw new InvalidPageRangeError(`Malformed page range '${pages}'`, pages);
+        }
+
+        const start = parseInt(match[1], 10);
+        const end = match[2] ? parseInt(match[2], 10) : start;
+        if (start < 1 || end < start) {
+            throw new InvalidPageRangeError(`Malformed page range '${pages}'`, pages);
+        }
+        if (end > pageCount) {
+            throw new InvalidPageRangeError(`Page ${end} is out of range (document has ${pageCount} pages)`, pages);
+        }
+
+        for (let page = start; page <= end; page++) {
+            selected.add(page);
+        }
+    }
+
+    if (selected.size > PREVIEW_MAX_PAGES) {
+        throw new InvalidPageRangeError(`Too many pages selected: ${selected.size} (max ${PREVIEW_MAX_PAGES})`, pages);
+    }
+
+    return [...selected].sort((a, b) => a - b);
+}
+
+export class PreviewService {
+    private library: ReturnType<typeof PDFiumLibrary.init> | null = null;
+
+    /**
+     * Render pages of a PDF to PNG
+     * @param pdf - The source PDF as a Buffer
+     * @param options - Page range and DPI
+     * @returns Promise<PagePreview[]> - One PNG per selected page, in page order
+     * @throws InvalidPageRangeError - Bad page range, or a page too large to render at this DPI
+     */
+    async renderPages(pdf: Buffer, options: PreviewOptions = {}): Promise<PagePreview[]> {
+        const { pages = DEFAULT_PREVIEW_PAGES, dpi = DEFAULT_PREVIEW_DPI } = options;
+        const scale = dpi / 72; // PDF units are points (1/72 inch)
+        const library = await this.getLibrary();
+        const doc = await library.loadDocument(pdf);
+
+        try {
+            const selected = parsePageRange(pages, doc.getPageCount());
+            // Checked up front, so an oversized page fails the request before anything is rendered
+            for (const page of selected) {
+                const { originalWidth, originalHeight } = doc.getPage(page - 1).getOriginalSize();
+                const width = Math.ceil(originalWidth * scale);
+                const height = Math.ceil(originalHeight * scale);
+                if (width * height > PREVIEW_MAX_PIXELS) {
+                    throw new InvalidPageRangeError(
+                        `Page ${page} is too large to preview at ${dpi} DPI: ${width} × ${height} pixels (max ${PREVIEW_MAX_PIXELS / 1_000_000} megapixels)`,
+                        pages,
+                    );
+                }
+            }
+
+            const previews: PagePreview[] = [];
+            for (const page of selected) {
+                const image = await doc.getPage(page - 1).render({
+                    scale,
+                    render: ({ data, width, height }) =>
+                        sharp(data, { raw: { width, height, channels: 4 } }).png().toBuffer(),
+                });
+                previews.push({ page, png: Buffer.from(image.data) });
+            }
+            return previews;
+        } finally {
+            doc.destroy();
+        }
+    }
+
+    /**
+     * Render pages to a single PNG, or a ZIP of `page-<n>.png` files for several pages
+     * @returns Promise<{ buffer: Buffer; format: "png" | "zip" }>
+     */
+    async render(pdf: Buffer, options: PreviewOptions = {}): Promise<{ buffer: Buffer; format: "png" | "zip" }> {
+        const previews = await this.renderPages(pdf, options);
+        if (previews.length === 1) {
+            return { buffer: previews[0].png, format: "png" };
+        }
+
+        const zip = new JSZip();
+        for (const { page, png } of previews) {
+            zip.file(`page-${page}.png`, png);
+        }
+        // PNGs are already compressed
+        return { buffer: await zip.generateAsync({ type: "nodebuffer", compression: "STORE" }), format: "zip" };
+    }
+
+    // PDFium is loaded on first use and shared across requests
+    private getLibrary() {
+        if (!this.library) {
+            this.library = PDFiumLibrary.init();
+        }
+        return this.library;
+    }
+}
+
+// Export singleton for convenience
+export const previewService = new PreviewService();
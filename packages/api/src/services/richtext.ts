@@ -0,0 +1,697 @@
+/**
+ * Rich Text - Markdown and HTML data rendered as Word paragraphs
+ *
+ * A data value is rich text when it is `{ "$markdown": "..." }` or
+ * `{ "$html": "..." }`, or a string in a field the template's schema_map types
+ * as `markdown` or `html`. Rendering is opt-in: other objects, such as
+ * `{ "html": "..." }` read as `{{notes.html}}`, stay data. Markdown is
+ * converted to HTML, and all HTML is sanitised against an allowlist (the
+ * input comes from end users), so only
+ * headings, paragraphs, bold/italic/underline/strikethrough, sub/superscript,
+ * code, lists, links (http, https, mailto), block quotes and tables survive.
+ *
+ * docx-templates only inserts text, so rich values are swapped for tokens
+ * before rendering and the tokens replaced with WordprocessingML afterwards:
+ * - A placeholder alone in its paragraph becomes real headings, paragraphs,
+ *   numbered/bulleted lists and tables, taking the paragraph's formatting
+ * - A placeholder within other text becomes formatted runs, with line breaks
+ *   between blocks
+ * Headings use the Heading1-6 styles (added to the document if it lacks
+ * them); lists get their own numbering definitions.
+ */
+
+import JSZip from "jszip";
+import { marked } from "marked";
+import sanitizeHtml from "sanitize-html";
+import { parseDocument, DomUtils } from "htmlparser2";
+import { isTag, isText, type ChildNode as DomNode, type Element as DomElement } from "domhandler";
+import type { SchemaMapField } from "@velocidoc/shared";
+
+export type RichTextFormat = "markdown" | "html";
+
+/**
+ * Rich values found in the data, by the token that stands in for them
+ */
+export type RichTextFragments = Map<string, DomNode[]>;
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+    allowedTags: [
+        "p", "br", "h1", "h2", "h3", "h4", "h5", "h6", "strong", "b", "em", "i", "u", "s", "del", "strike",
+        "sub", "sup", "code", "pre", "blockquote", "ul", "ol", "li", "a", "hr",
+        "table", "thead", "tbody", "tfoot", "tr", "th", "td", "div", "span",
+    ],
+    allowedAttributes: { a: ["href"], ol: ["start"], th: ["colspan"], td: ["colspan"] },
+    allowedSchemes: ["http", "https", "mailto"],
+    allowProtocolRelative: false,
+    // The text of other tags is kept; script, style and the like are dropped entirely
+    disallowedTagsMode: "discard",
+};
+
+// Private-use characters, which don't occur in XML markup
+const TOKEN_START = "\uE000";
+const TOKEN_END = "\uE001";
+
+const W_NAMESPACE_R = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const HYPERLINK_REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink";
+const NUMBERING_REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering";
+const STYLES_REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles";
+const NUMBERING_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml";
+const STYLES_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml";
+const NUMBERING_PATH = "word/numbering.xml";
+const STYLES_PATH = "word/styles.xml";
+const CONTENT_TYPES_PATH = "[Content_Types].xml";
+
+// Parts that can hold placeholders
+const CONTENT_PARTS = /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/;
+
+// Run properties kept from the placeholder's run, in schema order
+const RUN_PROPERTY_ORDER = [
+    "w:rStyle", "w:rFonts", "w:b", "w:bCs", "w:i", "w:iCs", "w:strike", "w:color",
+    "w:sz", "w:szCs", "w:highlight", "w:u", "w:vertAlign", "w:lang",
+];
+
+// Keys marking a data value as rich text, by format
+const RICH_TEXT_MARKERS: Record<string, RichTextFormat> = { $markdown: "markdown", $html: "html" };
+
+const HEADING_SIZES = [32, 28, 26, 24, 22, 22];
+const LIST_INDENT = 720;
+const TABLE_WIDTH = 9000;
+
+/**
+ * Sanitised HTML for a markdown or HTML string
+ */
+export function toSafeHtml(source: string, format: RichTextFormat): string {
+    const html = format === "markdown" ? marked.parse(source, { async: false, gfm: true }) as string : source;
+    return sanitizeHtml(html, SANITIZE_OPTIONS);
+}
+
+/**
+ * Copy the data with each rich text value replaced by a token for
+ * `insertRichText`
+ * @param schemaMap - Template field types; its `markdown` and `html` fields may hold plain strings
+ */
+export function extractRichText(
+    data: Record<string, any>,
+    schemaMap: Record<string, SchemaMapField> = {},
+): { data: Record<string, any>; fragments: RichTextFragments } {
+    const fragments: RichTextFragments = new Map();
+    const tokenFor = (source: string, format: RichTextFormat) => {
+        const token = `${TOKEN_START}${fragments.size}${TOKEN_END}`;
+        fragments.set(token, parseDocument(toSafeHtml(source, format)).children);
+        return token;
+    };
+
+    const walk = (value: any, path: string | null): any => {
+        if (typeof value === "string") {
+            const type = path !== null ? schemaMap[path]?.type : undefined;
+            return type === "markdown" || type === "html" ? tokenFor(value, type) : value;
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => walk(item, null));
+        }
+        if (!value || typeof value !== "object" || value instanceof Date || Buffer.isBuffer(value)) {
+            return value;
+        }
+        const keys = Object.keys(value);
+        const format = keys.length === 1 ? RICH_TEXT_MARKERS[keys[0]] : undefined;
+        if (format && typeof value[keys[0]] === "string") {
+            return tokenFor(value[keys[0]], format);
+        }
+
+        const copy: Record<string, any> = {};
+        for (const key of keys) {
+            copy[key] = walk(value[key], path === null ? null : path ? `${path}.${key}` : key);
+        }
+        return copy;
+    };
+
+    return { data: walk(data, ""), fragments };
+}
+
+/**
+ * Replace the tokens in a rendered DOCX with the rich text they stand for
+ */
+export async function insertRichText(docx: Buffer, fragments: RichTextFragments): Promise<Buffer> {
+    const zip = await JSZip.loadAsync(docx);
+    const contentTypes = { xml: await zip.file(CONTENT_TYPES_PATH)!.async("text") };
+    const numbering = new ListNumbering(await zip.file(NUMBERING_PATH)?.async("text"));
+    const headings = new Set<number>();
+
+    for (const path of Object.keys(zip.files).filter(path => CONTENT_PARTS.test(path))) {
+        const xml = await zip.file(path)!.async("text");
+        if (!xml.includes(TOKEN_START)) continue;
+
+        const relationships = new Relationships(await zip.file(relationshipsPath(path))?.async("text"));
+        const context = { numbering, relationships, headings };
+        zip.file(path, declareRelationshipNamespace(replaceTokens(xml, fragments, context)));
+        if (relationships.changed) {
+            zip.file(relationshipsPath(path), relationships.xml);
+        }
+    }
+
+    if (numbering.changed) {
+        await addPart(zip, contentTypes, NUMBERING_PATH, numbering.toXml(), NUMBERING_CONTENT_TYPE, NUMBERING_REL_TYPE);
+    }
+    if (headings.size > 0) {
+        const styles = await zip.file(STYLES_PATH)?.async("text");
+        await addPart(zip, contentTypes, STYLES_PATH, withHeadingStyles(styles, headings), STYLES_CONTENT_TYPE, STYLES_REL_TYPE);
+    }
+    zip.file(CONTENT_TYPES_PATH, contentTypes.xml);
+
+    return Buffer.from(await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }));
+}
+
+interface RenderContext {
+    numbering: ListNumbering;
+    relationships: Relationships;
+    headings: Set<number>;
+}
+
+/**
+ * Where a token sits: a paragraph of its own becomes blocks, anything else runs
+ */
+function replaceTokens(xml: string, fragments: RichTextFragments, context: RenderContext): string {
+    let from = 0;
+    let start: number;
+
+    while ((start = xml.indexOf(TOKEN_START, from)) !== -1) {
+        const end = xml.indexOf(TOKEN_END, start);
+        const token = xml.slice(start, end + 1);
+        const nodes = fragments.get(token);
+        if (end === -1 || !nodes) {
+            from = start + 1;
+            continue;
+        }
+
+        const runStart = Math.max(xml.lastIndexOf("<w:r>", start), xml.lastIndexOf("<w:r ", start));
+        const runProperties = parseRunProperties(xml.slice(runStart, start).match(/<w:rPr>([\s\S]*?)<\/w:rPr>/)?.[1] ?? "");
+        const paragraphStart = Math.max(xml.lastIndexOf("<w:p>", start), xml.lastIndexOf("<w:p ", start));
+        const paragraphEnd = xml.indexOf("</w:p>", start) + "</w:p>".length;
+        const paragraph = xml.slice(paragraphStart, paragraphEnd);
+        // Paragraphs nested in text boxes can't be swapped for blocks
+        const nested = /<w:p[ >]/.test(paragraph.slice(1));
+
+        if (!nested && paragraph.replace(/<[^>]+>/g, "").trim() === token) {
+            const paragraphProperties = paragraph.match(/^<w:p\b[^>]*>\s*(<w:pPr>[\s\S]*?<\/w:pPr>)/)?.[1] ?? "";
+            let blocks = blocksXml(nodes, { ...context, runProperties, paragraphProperties, indent: 0 }).join("");
+            if (!blocks) {
+                blocks = `<w:p>${paragraphProperties}</w:p>`;
+            } else if (blocks.endsWith("</w:tbl>") && /^\s*<\/w:tc>/.test(xml.slice(paragraphEnd, paragraphEnd + 100))) {
+                // A table cell must end with a paragraph
+                blocks += "<w:p/>";
+            }
+            xml = xml.slice(0, paragraphStart) + blocks + xml.slice(paragraphEnd);
+            from = paragraphStart + blocks.length;
+        } else {
+            const runs = inlineRunsXml(nodes, { ...context, runProperties });
+            const rPr = xml.slice(runStart, start).match(/<w:rPr>[\s\S]*?<\/w:rPr>/)?.[0] ?? "";
+            const replacement = `</w:t></w:r>${runs}<w:r>${rPr}<w:t xml:space="preserve">`;
+            xml = xml.slice(0, start) + replacement + xml.slice(end + 1);
+            from = start + replacement.length;
+            // The text before the placeholder now ends its run, so keep its trailing space
+            const textStart = xml.lastIndexOf("<w:t>", start);
+            if (textStart > runStart) {
+                xml = xml.slice(0, textStart) + `<w:t xml:space="preserve">` + xml.slice(textStart + "<w:t>".length);
+                from += `<w:t xml:space="preserve">`.length - "<w:t>".length;
+            }
+        }
+    }
+
+    return xml;
+}
+
+// Blocks
+
+interface BlockContext extends RenderContext {
+    runProperties: Map<string, string>;
+    /** pPr of the placeholder's paragraph, reused by plain paragraphs */
+    paragraphProperties: string;
+    /** Left indent in twips (block quotes) */
+    indent: number;
+    bold?: boolean;
+}
+
+function blocksXml(nodes: DomNode[], context: BlockContext): string[] {
+    const blocks: string[] = [];
+    let inline: DomNode[] = [];
+
+    const flush = () => {
+        const runs = runsXml(collectInline(inline, {}), context);
+        if (runs) {
+            blocks.push(paragraphXml(runs, plainParagraphProperties(context)));
+        }
+        inline = [];
+    };
+
+    for (const node of nodes) {
+        if (!isTag(node) || !BLOCK_TAGS.has(node.name)) {
+            inline.push(node);
+            continue;
+        }
+        flush();
+
+        const heading = node.name.match(/^h([1-6])$/);
+        if (heading) {
+            const level = Number(heading[1]);
+            context.headings.add(level);
+            const runs = runsXml(collectInline(node.children, {}), { ...context, runProperties: fontOnly(context.runProperties) });
+            blocks.push(paragraphXml(runs, `<w:pPr><w:pStyle w:val="Heading${level}"/>${indentXml(context.indent)}</w:pPr>`));
+        } else if (node.name === "p") {
+            inline = node.children;
+            flush();
+        } else if (node.name === "ul" || node.name === "ol") {
+            blocks.push(...listXml(node, 0, context));
+        } else if (node.name === "blockquote") {
+            blocks.push(...blocksXml(node.children, { ...context, indent: context.indent + LIST_INDENT }));
+        } else if (node.name === "pre") {
+            const lines = DomUtils.textContent(node).replace(/\n$/, "").split("\n");
+            const runs = lines.map(line => textRunXml(line, { code: true }, context.runProperties)).join("<w:r><w:br/></w:r>");
+            blocks.push(paragraphXml(runs, `<w:pPr>${indentXml(context.indent)}</w:pPr>`));
+        } else if (node.name === "hr") {
+            blocks.push(`<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>${indentXml(context.indent)}</w:pPr></w:p>`);
+        } else if (node.name === "table") {
+            blocks.push(tableXml(node, context));
+        } else {
+            // div and other containers
+            blocks.push(...blocksXml(node.children, context));
+        }
+    }
+    flush();
+
+    return blocks;
+}
+
+function listXml(list: DomElement, level: number, context: BlockContext): string[] {
+    const ordered = list.name === "ol";
+    const numId = context.numbering.list(ordered, Number(list.attribs.start) || 1, level);
+    const blocks: string[] = [];
+
+    for (const item of list.children.filter(isTag).filter(child => child.name === "li")) {
+        let first = true;
+        let inline: DomNode[] = [];
+        // An item with no text of its own still gets its bullet
+        const flush = (final = false) => {
+            const runs = runsXml(collectInline(inline, {}), context);
+            if (runs || final && first) {
+                // Later paragraphs of an item line up with its text, without a bullet
+                const numbering = first
+                    ? `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`
+                    : indentXml(LIST_INDENT * (level + 1) + context.indent);
+                blocks.push(paragraphXml(runs, `<w:pPr>${numbering}</w:pPr>`));
+                first = false;
+            }
+            inline = [];
+        };
+
+        for (const child of item.children) {
+            if (isTag(child) && (child.name === "ul" || child.name === "ol")) {
+                flush();
+                blocks.push(...listXml(child, Math.min(level + 1, 8), context));
+            } else if (isTag(child) && child.name === "p") {
+                flush();
+                inline = child.children;
+                flush();
+            } else if (isTag(child) && BLOCK_TAGS.has(child.name)) {
+                flush();
+                blocks.push(...blocksXml([child], { ...context, indent: LIST_INDENT * (level + 1) + context.indent }));
+            } else {
+                inline.push(child);
+            }
+        }
+        flush(true);
+    }
+
+    return blocks;
+}
+
+function tableXml(table: DomElement, context: BlockContext): string {
+    const rows: Array<{ header: boolean; cells: DomElement[] }> = [];
+    const collectRows = (element: DomElement, header: boolean) => {
+        for (const child of element.children.filter(isTag)) {
+            if (child.name === "tr") {
+                const cells = child.children.filter(isTag).filter(cell => cell.name === "td" || cell.name === "th");
+                rows.push({ header: header || (cells.length > 0 && cells.every(cell => cell.name === "th")), cells });
+            } else if (["thead", "tbody", "tfoot"].includes(child.name)) {
+                collectRows(child, child.name === "thead");
+            }
+        }
+    };
+    collectRows(table, false);
+
+    const span = (cell: DomElement) => Math.max(1, Math.min(Number(cell.attribs.colspan) || 1, 63));
+    const columns = Math.max(1, ...rows.map(row => row.cells.reduce((sum, cell) => sum + span(cell), 0)));
+    const columnWidth = Math.floor(TABLE_WIDTH / columns);
+    const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`;
+
+    const rowsXml = rows.filter(row => row.cells.length > 0).map(row => {
+        const cells = row.cells.map(cell => {
+            const cellContext = { ...context, indent: 0, bold: context.bold || cell.name === "th", paragraphProperties: "" };
+            let content = blocksXml(cell.children, cellContext).join("");
+            if (!content.endsWith("</w:p>")) content += "<w:p/>";
+            const gridSpan = span(cell) > 1 ? `<w:gridSpan w:val="${span(cell)}"/>` : "";
+            return `<w:tc><w:tcPr><w:tcW w:w="${columnWidth * span(cell)}" w:type="dxa"/>${gridSpan}</w:tcPr>${content}</w:tc>`;
+        }).join("");
+        return `<w:tr>${row.header ? "<w:trPr><w:tblHeader/></w:trPr>" : ""}${cells}</w:tr>`;
+    }).join("");
+
+    return `<w:tbl><w:tblPr><w:tblW w:w="${columnWidth * columns}" w:type="dxa"/>${context.indent ? `<w:tblInd w:w="${context.indent}" w:type="dxa"/>` : ""}`
+        + `<w:tblBorders>${["top", "left", "bottom", "right", "insideH", "insideV"].map(border).join("")}</w:tblBorders>`
+        + `<w:tblLook w:val="04A0"/></w:tblPr>`
+        + `<w:tblGrid>${`<w:gridCol w:w="${columnWidth}"/>`.repeat(columns)}</w:tblGrid>${rowsXml}</w:tbl>`;
+}
+
+function plainParagraphProperties(context: BlockContext): string {
+    if (context.indent) return `<w:pPr>${indentXml(context.indent)}</w:pPr>`;
+    return context.paragraphProperties;
+}
+
+function paragraphXml(runs: string, properties: string): string {
+    return `<w:p>${properties}${runs}</w:p>`;
+}
+
+function indentXml(indent: number): string {
+    return indent ? `<w:ind w:left="${indent}"/>` : "";
+}
+
+// Runs
+
+interface RunStyle {
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    strike?: boolean;
+    code?: boolean;
+    vertAlign?: "superscript" | "subscript";
+    link?: string;
+}
+
+type InlineItem = { text: string; style: RunStyle } | { break: true; style: RunStyle };
+
+interface RunContext extends RenderContext {
+    runProperties: Map<string, string>;
+    bold?: boolean;
+}
+
+const INLINE_STYLES: Record<string, RunStyle> = {
+    strong: { bold: true }, b: { bold: true },
+    em: { italic: true }, i: { italic: true },
+    u: { underline: true },
+    s: { strike: true }, del: { strike: true }, strike: { strike: true },
+    code: { code: true },
+    sup: { vertAlign: "superscript" }, sub: { vertAlign: "subscript" },
+};
+
+const BLOCK_TAGS = new Set([
+    "p", "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "blockquote", "pre", "hr", "table", "div",
+]);
+
+/**
+ * Text and line breaks with their formatting, whitespace collapsed as a browser would
+ */
+function collectInline(nodes: DomNode[], style: RunStyle, items: InlineItem[] = []): InlineItem[] {
+    for (const node of nodes) {
+        if (isText(node)) {
+            items.push({ text: node.data.replace(/\s+/g, " "), style });
+        } else if (isTag(node)) {
+            if (node.name === "br") {
+                items.push({ break: true, style });
+            } else if (node.name === "a") {
+                collectInline(node.children, { ...style, link: node.attribs.href }, items);
+            } else {
+                collectInline(node.children, { ...style, ...INLINE_STYLES[node.name] }, items);
+            }
+        }
+    }
+    return items;
+}
+
+function runsXml(items: InlineItem[], context: RunContext): string {
+    // Spaces at the start and end of a paragraph aren't shown
+    const first = items.findIndex(item => "break" in item || item.text.trim());
+    const trimmed = items.slice(Math.max(first, 0)).map(item => ({ ...item }));
+    if (first === -1) return "";
+    if ("text" in trimmed[0]) trimmed[0].text = trimmed[0].text.trimStart();
+    const last = trimmed[trimmed.length - 1];
+    if ("text" in last) last.text = last.text.trimEnd();
+
+    let xml = "";
+    let link: { href: string; runs: string } | undefined;
+    const closeLink = () => {
+        if (link) xml += `<w:hyperlink r:id="${context.relationships.hyperlink(link.href)}" w:history="1">${link.runs}</w:hyperlink>`;
+        link = undefined;
+    };
+
+    for (const item of trimmed) {
+        const style = context.bold ? { ...item.style, bold: true } : item.style;
+        const run = "break" in item ? "<w:r><w:br/></w:r>" : item.text ? textRunXml(item.text, style, context.runProperties) : "";
+        if (style.link) {
+            if (link?.href !== style.link) {
+                closeLink();
+                link = { href: style.link, runs: "" };
+            }
+            link.runs += run;
+        } else {
+            closeLink();
+            xml += run;
+        }
+    }
+    closeLink();
+
+    return xml;
+}
+
+/**
+ * Runs for a placeholder within other text: blocks separated by line breaks
+ */
+function inlineRunsXml(nodes: DomNode[], context: RunContext): string {
+    const items: InlineItem[] = [];
+    const lineBreak = () => {
+        if (items.length > 0) items.push({ break: true, style: {} });
+    };
+
+    const walk = (nodes: DomNode[], prefix = "") => {
+        for (const node of nodes) {
+            if (!isTag(node) || !BLOCK_TAGS.has(node.name) && node.name !== "li" && node.name !== "tr") {
+                collectInline([node], {}, items);
+                continue;
+            }
+            if (node.name === "ul" || node.name === "ol") {
+                const itemsOf = node.children.filter(isTag).filter(child => child.name === "li");
+                const start = Number(node.attribs.start) || 1;
+                itemsOf.forEach((item, i) => walk([item], `${prefix}${node.name === "ol" ? `${start + i}.` : "•"} `));
+            } else if (node.name === "li" || node.name === "tr") {
+                lineBreak();
+                if (prefix) items.push({ text: prefix.trimStart(), style: {} });
+                const cells = node.name === "tr" ? node.children.filter(isTag) : [];
+                if (cells.length > 0) {
+                    cells.forEach((cell, i) => {
+                        if (i > 0) items.push({ text: " | ", style: {} });
+                        collectInline(cell.children, cell.name === "th" ? { bold: true } : {}, items);
+                    });
+                } else {
+                    walk(node.children, "  " + prefix.replace(/\S+ $/, ""));
+                }
+            } else if (node.name === "table" || ["thead", "tbody", "tfoot"].includes(node.name)) {
+                walk(node.children);
+            } else if (node.name === "hr") {
+                lineBreak();
+            } else if (/^h[1-6]$/.test(node.name)) {
+                lineBreak();
+                collectInline(node.children, { bold: true }, items);
+            } else if (node.name === "pre") {
+                lineBreak();
+                DomUtils.textContent(node).replace(/\n$/, "").split("\n").forEach((line, i) => {
+                    if (i > 0) items.push({ break: true, style: {} });
+                    items.push({ text: line, style: { code: true } });
+                });
+            } else {
+                lineBreak();
+                walk(node.children, prefix);
+            }
+        }
+    };
+    walk(nodes);
+
+    return runsXml(items, context);
+}
+
+function textRunXml(text: string, style: RunStyle, base: Map<string, string>): string {
+    return `<w:r>${runPropertiesXml(base, style)}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function runPropertiesXml(base: Map<string, string>, style: RunStyle): string {
+    const properties = new Map(base);
+    if (style.bold) properties.set("w:b", "<w:b/>").set("w:bCs", "<w:bCs/>");
+    if (style.italic) properties.set("w:i", "<w:i/>").set("w:iCs", "<w:iCs/>");
+    if (style.strike) properties.set("w:strike", "<w:strike/>");
+    if (style.underline || style.link) properties.set("w:u", `<w:u w:val="single"/>`);
+    if (style.link) properties.set("w:color", `<w:color w:val="0563C1"/>`);
+    if (style.code) properties.set("w:rFonts", `<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>`);
+    if (style.vertAlign) properties.set("w:vertAlign", `<w:vertAlign w:val="${style.vertAlign}"/>`);
+
+    const xml = RUN_PROPERTY_ORDER.map(tag => properties.get(tag) ?? "").join("");
+    return xml ? `<w:rPr>${xml}</w:rPr>` : "";
+}
+
+/**
+ * The placeholder run's properties that rich text keeps, by element name
+ */
+function parseRunProperties(xml: string): Map<string, string> {
+    const properties = new Map<string, string>();
+    for (const match of xml.matchAll(/<(w:[A-Za-z]+)\b[^>]*?(?:\/>|>[\s\S]*?<\/\1>)/g)) {
+        if (RUN_PROPERTY_ORDER.includes(match[1])) {
+            properties.set(match[1], match[0]);
+        }
+    }
+    return properties;
+}
+
+// Headings take their size and weight from the heading style
+function fontOnly(properties: Map<string, string>): Map<string, string> {
+    return new Map([...properties].filter(([tag]) => tag === "w:rFonts" || tag === "w:color" || tag === "w:lang"));
+}
+
+// Package parts
+
+/**
+ * Numbering definitions for the lists rich text adds: one bullet and one
+ * decimal definition, and a numbering instance per list so each restarts
+ */
+class ListNumbering {
+    changed = false;
+    private abstracts: string[] = [];
+    private instances: string[] = [];
+    private abstractIds: Partial<Record<"bullet" | "decimal", number>> = {};
+    private nextAbstractId: number;
+    private nextNumId: number;
+
+    constructor(private existing: string | undefined) {
+        const ids = (attribute: string) => [...(existing ?? "").matchAll(new RegExp(`${attribute}="(\\d+)"`, "g"))].map(match => Number(match[1]));
+        this.nextAbstractId = Math.max(0, ...ids("w:abstractNumId")) + 1;
+        this.nextNumId = Math.max(0, ...ids("w:numId")) + 1;
+    }
+
+    /** numId of a new list */
+    list(ordered: boolean, start: number, level: number): number {
+        const kind = ordered ? "decimal" : "bullet";
+        let abstractId = this.abstractIds[kind];
+        if (abstractId === undefined) {
+            abstractId = this.abstractIds[kind] = this.nextAbstractId++;
+            this.abstracts.push(abstractNumXml(abstractId, ordered));
+        }
+
+        const numId = this.nextNumId++;
+        const restart = ordered ? `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride>` : "";
+        this.instances.push(`<w:num w:numId="${numId}"><w:abstractNumId w:val="${abstractId}"/>${restart}</w:num>`);
+        this.changed = true;
+        return numId;
+    }
+
+    toXml(): string {
+        const xml = this.existing
+            ?? `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"></w:numbering>`;
+        // Every abstractNum must come before the first num
+        const firstNum = xml.search(/<w:num\b/);
+        const withAbstracts = firstNum === -1
+            ? xml.replace("</w:numbering>", () => `${this.abstracts.join("")}</w:numbering>`)
+            : xml.slice(0, firstNum) + this.abstracts.join("") + xml.slice(firstNum);
+        return withAbstracts.replace("</w:numbering>", () => `${this.instances.join("")}</w:numbering>`);
+    }
+}
+
+function abstractNumXml(id: number, ordered: boolean): string {
+    const bullets = ["•", "◦", "▪"];
+    const formats = ["decimal", "lowerLetter", "lowerRoman"];
+    const levels = Array.from({ length: 9 }, (_, level) => {
+        const format = ordered ? formats[level % 3] : "bullet";
+        const text = ordered ? `%${level + 1}.` : bullets[level % 3];
+        return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/>`
+            + `<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${LIST_INDENT * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+    }).join("");
+    return `<w:abstractNum w:abstractNumId="${id}"><w:multiLevelType w:val="hybridMultilevel"/>${levels}</w:abstractNum>`;
+}
+
+/**
+ * A part's relationships, adding external hyperlinks
+ */
+class Relationships {
+    changed = false;
+    xml: string;
+    private links = new Map<string, string>();
+    private next = 1;
+
+    constructor(existing: string | undefined) {
+        this.xml = existing
+            ?? `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>`;
+    }
+
+    /** Relationship id of a hyperlink target */
+    hyperlink(href: string): string {
+        let id = this.links.get(href);
+        if (!id) {
+            while (this.xml.includes(`Id="rIdVelocidocLink${this.next}"`)) this.next++;
+            id = `rIdVelocidocLink${this.next++}`;
+            this.xml = this.xml.replace("</Relationships>",
+                () => `<Relationship Id="${id}" Type="${HYPERLINK_REL_TYPE}" Target="${escapeXml(href)}" TargetMode="External"/></Relationships>`);
+            this.links.set(href, id);
+            this.changed = true;
+        }
+        return id;
+    }
+}
+
+/**
+ * Write a document-level part, registering it if it's new
+ */
+async function addPart(
+    zip: JSZip,
+    contentTypes: { xml: string },
+    path: string,
+    xml: string,
+    contentType: string,
+    relType: string,
+): Promise<void> {
+    if (!zip.file(path)) {
+        const relsPath = relationshipsPath("word/document.xml");
+        const relationships = new Relationships(await zip.file(relsPath)?.async("text"));
+        zip.file(relsPath, relationships.xml.replace("</Relationships>",
+            () => `<Relationship Id="rIdVelocidoc${path.replace(/\W/g, "")}" Type="${relType}" Target="${path.replace(/^word\//, "")}"/></Relationships>`));
+        contentTypes.xml = contentTypes.xml.replace("</Types>", () => `<Override PartName="/${path}" ContentType="${contentType}"/></Types>`);
+    }
+    zip.file(path, xml);
+}
+
+/**
+ * Add the heading styles a document lacks
+ */
+function withHeadingStyles(styles: string | undefined, levels: Set<number>): string {
+    let xml = styles
+        ?? `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"></w:styles>`;
+    for (const level of [...levels].sort()) {
+        if (xml.includes(`w:styleId="Heading${level}"`)) continue;
+        const style = `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/>`
+            + `<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>`
+            + `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>`
+            + `<w:rPr><w:b/><w:bCs/><w:sz w:val="${HEADING_SIZES[level - 1]}"/><w:szCs w:val="${HEADING_SIZES[level - 1]}"/></w:rPr></w:style>`;
+        xml = xml.replace("</w:styles>", () => `${style}</w:styles>`);
+    }
+    return xml;
+}
+
+function relationshipsPath(partPath: string): string {
+    return partPath.replace(/^word\/(.*)$/, "word/_rels/$1.rels");
+}
+
+function declareRelationshipNamespace(xml: string): string {
+    return xml.replace(/<w:(document|hdr|ftr|footnotes|endnotes)\b[^>]*>/, (root) =>
+        root.includes("xmlns:r=") ? root : root.replace(/\s*>$/, ` xmlns:r="${W_NAMESPACE_R}">`));
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
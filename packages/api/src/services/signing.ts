@@ -0,0 +1,348 @@
+/**
+ * SigningService - PAdES digital signatures with per-tenant certificates
+ *
+ * Certificates are PKCS#12 files provisioned on the server, one directory
+ * per tenant: `<SIGNING_CERTS_DIR>/<tenantId>/<name>.p12`, with an optional
+ * `<name>.json` sidecar holding `{ "passphrase": "..." }`. Clients pick a
+ * certificate by name and never upload key material.
+ *
+ * Signatures use the ETSI.CAdES.detached sub-filter with the signed
+ * attributes PAdES baseline (B-B) requires: content type, message digest
+ * and ESS signing-certificate-v2. The signing time goes in the signature
+ * dictionary (/M) rather than a CMS attribute, as PAdES prescribes.
+ */
+
+import { readFile } from "fs/promises";
+import path from "path";
+import forge from "node-forge";
+import { PDFDocument, PDFPage, StandardFonts, rgb } from "pdf-lib";
+import { pdflibAddPlaceholder } from "@signpdf/placeholder-pdf-lib";
+import signpdf, { Signer } from "@signpdf/signpdf";
+import { CertificateNotFoundError, InvalidPageRangeError, SigningError } from "../errors.ts";
+
+const SIGNING_CERTS_DIR = process.env.SIGNING_CERTS_DIR || "./certs";
+
+// Room for the CMS blob in /Contents: a signing certificate plus a few intermediates
+const SIGNATURE_LENGTH = 16384;
+
+const CERTIFICATE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const OIDS = {
+    data: forge.pki.oids.data,
+    signedData: forge.pki.oids.signedData,
+    contentType: forge.pki.oids.contentType,
+    messageDigest: forge.pki.oids.messageDigest,
+    sha256: forge.pki.oids.sha256,
+    rsaEncryption: forge.pki.oids.rsaEncryption,
+    signingCertificateV2: "1.2.840.113549.1.9.16.2.47",
+};
+
+/**
+ * Visible signature box, in PDF points from the bottom-left corner
+ */
+export interface SignatureField {
+    /** 1-based page (defaults to the last page) */
+    page?: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface SignatureOptions {
+    tenantId: string;
+    /** Certificate name within the tenant's directory */
+    certificate: string;
+    reason?: string;
+    location?: string;
+    contactInfo?: string;
+    /** Signer name (defaults to the certificate's common name) */
+    name?: string;
+    /** Visible signature placement; invisible when omitted */
+    field?: SignatureField;
+}
+
+interface SigningCredentials {
+    key: forge.pki.rsa.PrivateKey;
+    certificate: forge.pki.Certificate;
+    /** Every certificate in the PKCS#12 file, signing certificate included */
+    chain: forge.pki.Certificate[];
+}
+
+export class SigningService {
+    private certsDir: string;
+
+    constructor(certsDir?: string) {
+        this.certsDir = certsDir || SIGNING_CERTS_DIR;
+    }
+
+    /**
+     * Sign a PDF with one of the tenant's certificates
+     * @param pdf - The finished PDF (not encrypted)
+     * @param options - Certificate, signature details and optional visible field
+     * @returns Promise<Buffer> - The signed PDF
+     * @throws CertificateNotFoundError, SigningError, InvalidPageRangeError
+     */
+    async sign(pdf: Buffer, options: SignatureOptions): Promise<Buffer> {
+        const credentials = await this.loadCredentials(options.tenantId, options.certificate);
+        const signerName = options.name || commonName(credentials.certificate);
+        const signingTime = new Date();
+
+        const doc = await PDFDocument.load(pdf);
+        const pages = doc.getPages();
+        let page: PDFPage | undefined;
+        let widgetRect: number[] | undefined;
+
+        if (options.field) {
+            const { page: pageNumber = pages.length, x, y, width, height } = options.field;
+            if (pageNumber > pages.length) {
+                throw new InvalidPageRangeError(
+                    `Signature page ${pageNumber} is out of range (document has ${pages.length} pages)`,
+                    String(pageNumber),
+                );
+            }
+            page = pages[pageNumber - 1];
+            widgetRect = [x, y, x + width, y + height];
+            try {
+                await drawSignatureStamp(doc, page, options.field, [
+                    `Digitally signed by ${signerName}`,
+                    `Date: ${signingTime.toISOString()}`,
+                    options.reason && `Reason: ${options.reason}`,
+                    options.location && `Location: ${options.location}`,
+                ]);
+            } catch (error) {
+                // e.g. a certificate name the standard font can't encode
+                throw new SigningError(options.certificate, `Failed to draw the signature field: ${errorMessage(error)}`);
+            }
+        }
+
+        pdflibAddPlaceholder({
+            ...(page ? { pdfPage: page } : { pdfDoc: doc }),
+            reason: options.reason || "",
+            location: options.location || "",
+            contactInfo: options.contactInfo || "",
+            name: signerName,
+            signingTime,
+            signatureLength: SIGNATURE_LENGTH,
+            subFilter: "ETSI.CAdES.detached",
+            widgetRect,
+            appName: "Velocidoc",
+        });
+
+        // The placeholder must stay a plain object for the ByteRange to be patched in place
+        const prepared = Buffer.from(await doc.save({ useObjectStreams: false }));
+
+        try {
+            return await signpdf.sign(prepared, new PadesSigner(credentials), signingTime);
+        } catch (error) {
+            throw new SigningError(options.certificate, `Failed to sign PDF: ${errorMessage(error)}`);
+        }
+    }
+
+    /**
+     * Read a tenant's PKCS#12 file and its passphrase sidecar
+     */
+    private async loadCredentials(tenantId: string, name: string): Promise<SigningCredentials> {
+        // Names are validated upstream too, but both end up in a filesystem path
+        if (!CERTIFICATE_NAME_PATTERN.test(name) || path.basename(tenantId) !== tenantId || tenantId.startsWith(".")) {
+            throw new CertificateNotFoundError(name);
+        }
+
+        const basePath = path.join(this.certsDir, tenantId, name);
+        let p12: Buffer;
+        try {
+            p12 = await readFile(`${basePath}.p12`);
+        } catch (error: any) {
+            if (error.code === "ENOENT") {
+                throw new CertificateNotFoundError(name);
+            }
+            throw new SigningError(name, `Failed to read certificate: ${error.message}`);
+        }
+
+        let passphrase = "";
+        try {
+            passphrase = JSON.parse(await readFile(`${basePath}.json`, "utf-8")).passphrase ?? "";
+        } catch (error: any) {
+            if (error.code !== "ENOENT") {
+                throw new SigningError(name, `Invalid certificate settings in ${name}.json: ${error.message}`);
+            }
+        }
+
+        try {
+            return parsePkcs12(p12, passphrase);
+        } catch (error) {
+            throw new SigningError(name, `Failed to open certificate: ${errorMessage(error)}`);
+        }
+    }
+}
+
+/**
+ * Extract the private key, its certificate and the rest of the chain
+ */
+function parsePkcs12(p12: Buffer, passphrase: string): SigningCredentials {
+    const { pki } = forge;
+    const store = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(p12.toString("binary")), false, passphrase);
+
+    const keyBag = store.getBags({ bagType: pki.oids.pkcs8ShroudedKeyBag })[pki.oids.pkcs8ShroudedKeyBag]?.[0]
+        ?? store.getBags({ bagType: pki.oids.keyBag })[pki.oids.keyBag]?.[0];
+    const key = keyBag?.key as forge.pki.rsa.PrivateKey | undefined;
+    if (!key) {
+        throw new Error("No RSA private key found");
+    }
+
+    const chain = (store.getBags({ bagType: pki.oids.certBag })[pki.oids.certBag] || [])
+        .map(bag => bag.cert)
+        .filter((cert): cert is forge.pki.Certificate => Boolean(cert));
+    const certificate = chain.find(cert => {
+        const publicKey = cert.publicKey as forge.pki.rsa.PublicKey;
+        return publicKey.n?.equals(key.n) && publicKey.e?.equals(key.e);
+    });
+    if (!certificate) {
+        throw new Error("No certificate matches the private key");
+    }
+
+    return { key, certificate, chain };
+}
+
+/**
+ * Builds the detached CMS SignedData for the ByteRange-covered bytes.
+ * forge's PKCS#7 builder can't emit signing-certificate-v2, so the
+ * structure is assembled directly.
+ */
+class PadesSigner extends Signer {
+    constructor(private credentials: SigningCredentials) {
+        super();
+    }
+
+    async sign(content: Buffer): Promise<Buffer> {
+        const { asn1, pki, md, util } = forge;
+        const { key, certificate, chain } = this.credentials;
+
+        const contentDigest = md.sha256.create().update(content.toString("binary")).digest().getBytes();
+        const certificateDer = asn1.toDer(pki.certificateToAsn1(certificate)).getBytes();
+        const issuerAndSerial = [
+            pki.distinguishedNameToAsn1(certificate.issuer),
+            derInteger(util.hexToBytes(certificate.serialNumber)),
+        ];
+
+        const signedAttributes = sortDer([
+            attribute(OIDS.contentType, oid(OIDS.data)),
+            attribute(OIDS.messageDigest, octetString(contentDigest)),
+            attribute(OIDS.signingCertificateV2, sequence([
+                sequence([ // ESSCertIDv2, hash algorithm defaults to SHA-256
+                    sequence([
+                        octetString(md.sha256.create().update(certificateDer).digest().getBytes()),
+                        sequence([
+                            sequence([asn1.create(asn1.Class.CONTEXT_SPECIFIC, 4, true, [issuerAndSerial[0]])]),
+                            issuerAndSerial[1],
+                        ]),
+                    ]),
+                ]),
+            ])),
+        ]);
+
+        // The signature covers the attributes DER-encoded as a SET, not as the [0] they're stored under
+        const attributesDigest = md.sha256.create()
+            .update(asn1.toDer(asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, signedAttributes)).getBytes());
+        const signature = key.sign(attributesDigest);
+
+        const signerInfo = sequence([
+            derInteger(asn1.integerToDer(1).getBytes()),
+            sequence(issuerAndSerial),
+            algorithm(OIDS.sha256),
+            asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, signedAttributes),
+            algorithm(OIDS.rsaEncryption),
+            octetString(signature),
+        ]);
+
+        const signedData = sequence([
+            derInteger(asn1.integerToDer(1).getBytes()),
+            asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [algorithm(OIDS.sha256)]),
+            sequence([oid(OIDS.data)]), // detached: no encapsulated content
+            asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, chain.map(cert => pki.certificateToAsn1(cert))),
+            asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, [signerInfo]),
+        ]);
+
+        const contentInfo = sequence([
+            oid(OIDS.signedData),
+            asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [signedData]),
+        ]);
+        return Buffer.from(asn1.toDer(contentInfo).getBytes(), "binary");
+    }
+}
+
+/**
+ * Draw the visible part of the signature: a bordered box with signer details
+ */
+async function drawSignatureStamp(doc: PDFDocument, page: PDFPage, field: SignatureField, lines: (string | undefined)[]) {
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+    const { x, y, width, height } = field;
+    const text = lines.filter((line): line is string => Boolean(line));
+    const fontSize = Math.max(4, Math.min(9, (height - 6) / (text.length * 1.25)));
+
+    page.drawRectangle({ x, y, width, height, borderColor: rgb(0.2, 0.2, 0.2), borderWidth: 0.75 });
+    text.forEach((line, index) => {
+        page.drawText(fitText(line, font, fontSize, width - 6), {
+            x: x + 3,
+            y: y + height - 3 - fontSize * (index + 1) * 1.25 + fontSize * 0.25,
+            size: fontSize,
+            font,
+            color: rgb(0.1, 0.1, 0.1),
+        });
+    });
+}
+
+// Truncate with an ellipsis so a line never spills out of the box
+function fitText(text: string, font: { widthOfTextAtSize(text: string, size: number): number }, size: number, maxWidth: number): string {
+    if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+    let end = text.length;
+    while (end > 0 && font.widthOfTextAtSize(`${text.slice(0, end)}…`, size) > maxWidth) {
+        end--;
+    }
+    return `${text.slice(0, end)}…`;
+}
+
+function commonName(certificate: forge.pki.Certificate): string {
+    return String(certificate.subject.getField("CN")?.value ?? "Unknown signer");
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+// ASN.1 building blocks
+
+function sequence(value: forge.asn1.Asn1[]) {
+    return forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.SEQUENCE, true, value);
+}
+
+function oid(value: string) {
+    return forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.OID, false, forge.asn1.oidToDer(value).getBytes());
+}
+
+function octetString(bytes: string) {
+    return forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.OCTETSTRING, false, bytes);
+}
+
+function derInteger(bytes: string) {
+    return forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.INTEGER, false, bytes);
+}
+
+function algorithm(id: string) {
+    return sequence([oid(id), forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.NULL, false, "")]);
+}
+
+function attribute(type: string, value: forge.asn1.Asn1) {
+    return sequence([oid(type), forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.SET, true, [value])]);
+}
+
+// DER encodes SET OF members in ascending order of their encodings
+function sortDer(values: forge.asn1.Asn1[]): forge.asn1.Asn1[] {
+    return values
+        .map(value => ({ value, der: forge.asn1.toDer(value).getBytes() }))
+        .sort((a, b) => (a.der < b.der ? -1 : a.der > b.der ? 1 : 0))
+        .map(({ value }) => value);
+}
+
+// Export singleton for convenience
+export const signingService = new SigningService();
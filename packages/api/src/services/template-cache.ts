@@ -0,0 +1,109 @@
+/**
+ * Template Cache - Remote templates kept in memory between requests
+ *
+ * Templates fetched via template_url are cached by URL. Entries younger than
+ * the max age are served as-is; older ones are revalidated with a
+ * conditional request (If-None-Match / If-Modified-Since), so an unchanged
+ * SharePoint file costs a 304 instead of a full download. The least recently
+ * used entries are evicted once the cache exceeds its size bound.
+ */
+
+export interface TemplateCacheOptions {
+    /** How long an entry is served without asking the origin */
+    maxAgeMs: number;
+    /** Upper bound for all cached template bytes; 0 disables the cache */
+    maxBytes: number;
+}
+
+export interface CachedTemplate {
+    buffer: Buffer;
+    etag?: string;
+    lastModified?: string;
+    /** When the origin last confirmed this content */
+    validatedAt: number;
+}
+
+export class TemplateCache {
+    // Map iteration order is insertion order: oldest use first
+    private entries = new Map<string, CachedTemplate>();
+    private size = 0;
+
+    constructor(private options: TemplateCacheOptions) {}
+
+    get enabled(): boolean {
+        return this.options.maxBytes > 0;
+    }
+
+    get(url: string): CachedTemplate | undefined {
+        const entry = this.entries.get(url);
+        if (entry) {
+            this.entries.delete(url);
+            this.entries.set(url, entry);
+        }
+        return entry;
+    }
+
+    /**
+     * Whether an entry can be served without revalidating it
+     */
+    isFresh(entry: CachedTemplate): boolean {
+        return Date.now() - entry.validatedAt < this.options.maxAgeMs;
+    }
+
+    /**
+     * Conditional request headers for revalidating an entry
+     */
+    validators(entry: CachedTemplate): Record<string, string> {
+        return {
+            ...(entry.etag && { 'If-None-Match': entry.etag }),
+            ...(entry.lastModified && { 'If-Modified-Since': entry.lastModified }),
+        };
+    }
+
+    /**
+     * Record that the origin confirmed an entry is unchanged (304)
+     */
+    revalidated(entry: CachedTemplate): void {
+        entry.validatedAt = Date.now();
+    }
+
+    set(url: string, buffer: Buffer, headers: Headers): void {
+        this.delete(url);
+        // A single template larger than the whole cache would evict everything else
+        if (!this.enabled || buffer.length > this.options.maxBytes) return;
+        // The origin asked not to keep a copy
+        if (/\bno-store\b/i.test(headers.get('cache-control') || '')) return;
+
+        this.entries.set(url, {
+            buffer,
+            etag: headers.get('etag') || undefined,
+            lastModified: headers.get('last-modified') || undefined,
+            validatedAt: Date.now(),
+        });
+        this.size += buffer.length;
+
+        for (const [oldest, entry] of this.entries) {
+            if (this.size <= this.options.maxBytes) break;
+            this.entries.delete(oldest);
+            this.size -= entry.buffer.length;
+        }
+    }
+
+    delete(url: string): void {
+        const entry = this.entries.get(url);
+        if (entry) {
+            this.entries.delete(url);
+            this.size -= entry.buffer.length;
+        }
+    }
+
+    clear(): void {
+        this.entries.clear();
+        this.size = 0;
+    }
+}
+
+export const templateCache = new TemplateCache({
+    maxAgeMs: parseInt(process.env.TEMPLATE_CACHE_MAX_AGE_SECONDS || "300", 10) * 1000,
+    maxBytes: parseInt(process.env.TEMPLATE_CACHE_MAX_MB || "200", 10) * 1024 * 1024,
+});
@@ -0,0 +1,274 @@
+/**
+ * Template Loader Service
+ *
+ * Resolves a template reference from a request into its bytes, once,
+ * so it can be rendered any number of times:
+ * - Server-stored templates (template_id)
+ * - Inline base64 templates (template - BYOT mode)
+ * - Remote templates (template_url - SharePoint, OneDrive, S3, ...)
+ * Stored templates also bring their data schema, if they declare one.
+ */
+
+import { readFile } from "fs/promises";
+import { resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+import { isWebTemplate } from "./web.ts";
+import { validateDocx } from "./template-validator.ts";
+import { parseTemplateSchema, TemplateSchema } from "./template-schema.ts";
+import { templateCache } from "./template-cache.ts";
+import { urlPolicy, UrlPolicy } from "./url-policy.ts";
+import { templateSourceService, TemplateCredentials } from "./template-sources.ts";
+import {
+    InvalidTemplateError,
+    TemplateNotFoundError,
+    RemoteFetchError,
+    RemoteFetchTimeoutError,
+    RemoteTemplateTooLargeError,
+    VelocidocError,
+} from "../errors.ts";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const TEMPLATES_DIR = resolve(__dirname, "../../templates");
+
+export interface TemplateReference {
+    template_id?: string;
+    template?: { content: string | Buffer; filename: string };
+    template_url?: string;
+    /** Named, server-side credentials for template_url */
+    source?: string;
+    /** Per-request credentials for template_url */
+    template_auth?: { bearer_token?: string; headers?: Record<string, string> };
+}
+
+export interface RemoteFetchOptions {
+    /** Defaults to the policy configured from the environment */
+    policy?: UrlPolicy;
+    credentials?: TemplateCredentials;
+}
+
+export interface LoadedTemplate {
+    buffer: Buffer;
+    name: string;           // Filename, used for engine detection and output naming
+    engine: 'word' | 'web';
+    /** Data schema from `<template filename>.schema.json` (stored templates only) */
+    schema?: TemplateSchema;
+}
+
+/**
+ * Get the template filename for a reference without loading it
+ */
+export function getTemplateName(ref: TemplateReference): string {
+    return ref.template?.filename
+        || (ref.template_url ? extractFilenameFromUrl(ref.template_url) : ref.template_id!);
+}
+
+/**
+ * Load a template from whichever source the reference points at.
+ * Inline and remote DOCX templates are validated before being returned.
+ * @param tenantId - Tenant whose template sources `ref.source` names
+ */
+export async function loadTemplate(ref: TemplateReference, log: any, tenantId = 'default'): Promise<LoadedTemplate> {
+    const name = getTemplateName(ref);
+    const engine = isWebTemplate(name) ? 'web' : 'word';
+
+    let buffer: Buffer;
+    if (ref.template) {
+        // BYOT Mode: Decode base64 (multipart uploads are already binary)
+        buffer = toTemplateBuffer(ref.template.content);
+    } else if (ref.template_url) {
+        // URL Mode: Fetch template from remote URL
+        const credentials = await templateSourceService.credentialsFor(ref, tenantId);
+        buffer = await fetchTemplateFromUrl(ref.template_url, log, { credentials });
+    } else {
+        // Stored template mode: Read from the templates directory
+        const templatePath = ref.template_id!;
+        const fullPath = resolveStoredTemplatePath(templatePath);
+        const buffer = await readStoredTemplate(fullPath, templatePath);
+        const schema = await loadTemplateSchema(fullPath, templatePath);
+        return { buffer, name, engine, ...(schema && { schema }) };
+    }
+
+    if (engine === 'word') {
+        const validation = await validateDocx(buffer);
+        if (!validation.valid) {
+            throw new InvalidTemplateError(validation.errors?.join(', ') || "Not a valid DOCX file");
+        }
+    }
+
+    return { buffer, name, engine };
+}
+
+/**
+ * Load the sample data stored next to a template as `<template_id>.sample.json`.
+ * Templates without sample data render with an empty object.
+ */
+export async function loadSampleData(templateId: string): Promise<Record<string, any>> {
+    try {
+        return JSON.parse(await readFile(`${resolveStoredTemplatePath(templateId)}.sample.json`, 'utf-8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return {};
+        }
+        throw new InvalidTemplateError(`Invalid sample data for '${templateId}': ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Load the schema stored next to a template as `<template_id>.schema.json`, if any
+ */
+async function loadTemplateSchema(fullPath: string, templateId: string): Promise<TemplateSchema | undefined> {
+    let source: string;
+    try {
+        source = await readFile(`${fullPath}.schema.json`, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return undefined;
+        }
+        throw error;
+    }
+    return parseTemplateSchema(source, templateId);
+}
+
+function resolveStoredTemplatePath(templateId: string): string {
+    return templateId.startsWith("/") || templateId.includes(":")
+        ? templateId
+        : resolve(TEMPLATES_DIR, templateId);
+}
+
+/**
+ * Read a stored template, reporting a missing file as TemplateNotFoundError
+ */
+async function readStoredTemplate(fullPath: string, templateId: string): Promise<Buffer> {
+    try {
+        return await readFile(fullPath);
+    } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === 'ENOENT' || code === 'ENOTDIR' || code === 'EISDIR') {
+            throw new TemplateNotFoundError(templateId);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Decode template content: base64 from JSON, or raw bytes from a multipart upload
+ */
+export function toTemplateBuffer(content: string | Buffer): Buffer {
+    return Buffer.isBuffer(content) ? content : Buffer.from(content, 'base64');
+}
+
+/**
+ * Extract filename from URL, handling various URL formats
+ * - SharePoint: .../Documents/invoice.docx?share=...
+ * - OneDrive: .../download.aspx?file=invoice.docx
+ * - S3: .../bucket/path/invoice.docx?X-Amz-...
+ * - Direct: .../invoice.docx
+ */
+export function extractFilenameFromUrl(url: string): string {
+    try {
+        const urlObj = new URL(url);
+        const pathname = urlObj.pathname;
+
+        // Try to extract filename from pathname
+        const pathParts = pathname.split('/').filter(Boolean);
+        const lastPart = pathParts[pathParts.length - 1];
+
+        // Check if last part looks like a filename
+        if (lastPart && lastPart.includes('.')) {
+            // Decode URI component and remove any query-like suffixes
+            return decodeURIComponent(lastPart.split('?')[0]);
+        }
+
+        // Check query params for file parameter (OneDrive style)
+        const fileParam = urlObj.searchParams.get('file') || urlObj.searchParams.get('filename');
+        if (fileParam) {
+            return decodeURIComponent(fileParam);
+        }
+
+        // Fallback to generic name
+        return 'template.docx';
+    } catch {
+        return 'template.docx';
+    }
+}
+
+/**
+ * Fetch template from a remote URL
+ * Supports: SharePoint sharing links, OneDrive, S3 pre-signed URLs, public URLs
+ * Responses are cached (see template-cache.ts); stale entries are revalidated
+ * with ETag / Last-Modified rather than downloaded again.
+ * Every request, including redirects, is checked against the URL policy.
+ * Credentials are sent to the URL's own origin only, and templates fetched
+ * with them are cached separately per credential scope.
+ * @throws UrlNotAllowedError - If the policy refuses the URL or a redirect
+ */
+export async function fetchTemplateFromUrl(url: string, log: any, options: RemoteFetchOptions = {}): Promise<Buffer> {
+    const { policy = urlPolicy, credentials } = options;
+    const TIMEOUT_MS = 30000; // 30 second timeout
+    const MAX_SIZE = 50 * 1024 * 1024; // 50MB max template size
+
+    const cacheKey = credentials ? `${credentials.scope} ${url}` : url;
+    const cached = templateCache.get(cacheKey);
+    if (cached && templateCache.isFresh(cached)) {
+        log.info({ url, cache: 'hit' }, "Template served from cache");
+        return cached.buffer;
+    }
+
+    log.info({ url, authenticated: Boolean(credentials) }, "Fetching template from URL");
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+    try {
+        const response = await policy.fetch(url, {
+            method: 'GET',
+            signal: controller.signal,
+            headers: {
+                'Accept': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document, application/octet-stream, */*',
+                'User-Agent': 'Velocidoc-PDFGen/1.0',
+                ...(cached && templateCache.validators(cached)),
+            },
+        }, credentials?.headers);
+
+        if (response.status === 304 && cached) {
+            templateCache.revalidated(cached);
+            log.info({ url, cache: 'revalidated' }, "Template unchanged, served from cache");
+            return cached.buffer;
+        }
+
+        if (!response.ok) {
+            throw new RemoteFetchError(url, `Failed to fetch template: HTTP ${response.status} ${response.statusText}`, response.status);
+        }
+
+        // Check content length if available
+        const contentLength = response.headers.get('content-length');
+        if (contentLength && parseInt(contentLength) > MAX_SIZE) {
+            throw new RemoteTemplateTooLargeError(url, parseInt(contentLength), MAX_SIZE);
+        }
+
+        const arrayBuffer = await response.arrayBuffer();
+
+        if (arrayBuffer.byteLength > MAX_SIZE) {
+            throw new RemoteTemplateTooLargeError(url, arrayBuffer.byteLength, MAX_SIZE);
+        }
+
+        const buffer = Buffer.from(arrayBuffer);
+        templateCache.set(cacheKey, buffer, response.headers);
+        log.info({ url, size: buffer.length, cache: 'miss' }, "Template fetched successfully");
+
+        return buffer;
+
+    } catch (error) {
+        if (error instanceof VelocidocError) {
+            throw error;
+        }
+        if (error instanceof Error && error.name === 'AbortError') {
+            throw new RemoteFetchTimeoutError(url, TIMEOUT_MS);
+        }
+        throw new RemoteFetchError(url, `Failed to fetch template from URL: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
@@ -0,0 +1,173 @@
+/**
+ * Template Schema - The data a stored template expects
+ *
+ * A stored template can declare its data in `<template filename>.schema.json`
+ * next to it, as a JSON Schema (`json_schema`), a field map (`schema_map`), or
+ * both. Request data is checked against it before rendering, so a bad payload
+ * fails with field-level errors instead of producing a half-empty document.
+ */
+
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import addFormats from "ajv-formats";
+import type { SchemaMapField, TemplateDefinition } from "@velocidoc/shared";
+import { imageMimeType, replaceUploads, MAX_IMAGE_SIZE_CM } from "./images.ts";
+import { InvalidDataError, InvalidTemplateError, DataFieldError } from "../errors.ts";
+
+export type TemplateSchema = Pick<TemplateDefinition, "json_schema" | "schema_map">;
+
+// JSON Schema for each schema_map field type
+const FIELD_SCHEMAS: Record<SchemaMapField["type"], Record<string, any>> = {
+    text: { type: ["string", "number", "boolean"] },
+    // A data URI or URL, or { url | image_url | data, width, height, fit }
+    image: {
+        type: ["string", "object"],
+        pattern: "^(data:image/|https?://)",
+        properties: {
+            url: { type: "string", pattern: "^https?://" },
+            image_url: { type: "string", pattern: "^https?://" },
+            data: { type: "string", pattern: "^data:image/" },
+            width: { type: "number", exclusiveMinimum: 0, maximum: MAX_IMAGE_SIZE_CM },
+            height: { type: "number", exclusiveMinimum: 0, maximum: MAX_IMAGE_SIZE_CM },
+            fit: { enum: ["contain", "cover", "max-width"] },
+        },
+        anyOf: [{ type: "string" }, { required: ["url"] }, { required: ["image_url"] }, { required: ["data"] }],
+        additionalProperties: false,
+    },
+    table: { type: "array", items: { type: "object" } },
+    // The source, or { $markdown } / { $html } as in untyped fields
+    markdown: richTextSchema("markdown"),
+    html: richTextSchema("html"),
+};
+
+function richTextSchema(key: "markdown" | "html"): Record<string, any> {
+    return {
+        type: ["string", "object"],
+        properties: { [`$${key}`]: { type: "string" } },
+        required: [`$${key}`],
+        additionalProperties: false,
+    };
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+addFormats(ajv);
+
+// Compiled once per loaded schema; a LoadedTemplate reuses its schema across a batch
+const validators = new WeakMap<TemplateSchema, ValidateFunction>();
+
+/**
+ * Parse and compile a template's schema file
+ * @throws InvalidTemplateError - If the file isn't a usable schema
+ */
+export function parseTemplateSchema(source: string, templateName: string): TemplateSchema {
+    let schema: TemplateSchema;
+    try {
+        schema = JSON.parse(source);
+    } catch (error) {
+        throw new InvalidTemplateError(`Invalid schema for '${templateName}': ${(error as Error).message}`);
+    }
+    if (!schema || typeof schema !== "object" || (!schema.json_schema && !schema.schema_map)) {
+        throw new InvalidTemplateError(`Invalid schema for '${templateName}': expected json_schema or schema_map`);
+    }
+
+    try {
+        validators.set(schema, ajv.compile(toJsonSchema(schema)));
+    } catch (error) {
+        throw new InvalidTemplateError(`Invalid schema for '${templateName}': ${(error as Error).message}`);
+    }
+    return schema;
+}
+
+/**
+ * Check request data against a template's schema
+ * @throws InvalidDataError - Listing every field that doesn't match
+ */
+export function validateTemplateData(schema: TemplateSchema, data: Record<string, any>, templateName: string): void {
+    let validate = validators.get(schema);
+    if (!validate) {
+        validate = ajv.compile(toJsonSchema(schema));
+        validators.set(schema, validate);
+    }
+
+    // An uploaded file stands in for the data URI it replaces (without encoding it)
+    if (!validate(replaceUploads(data, buffer => `data:${imageMimeType(buffer)};base64,`))) {
+        throw new InvalidDataError(templateName, toFieldErrors(validate.errors || []));
+    }
+}
+
+/**
+ * Combine json_schema and schema_map into one JSON Schema
+ */
+function toJsonSchema(schema: TemplateSchema): Record<string, any> {
+    const schemas = [
+        schema.json_schema,
+        schema.schema_map && schemaMapToJsonSchema(schema.schema_map),
+    ].filter((s): s is Record<string, any> => Boolean(s));
+
+    return schemas.length === 1 ? schemas[0] : { allOf: schemas };
+}
+
+/**
+ * Turn `{ "customer.logo": { type: "image", required: true } }` into nested object schemas
+ */
+function schemaMapToJsonSchema(schemaMap: Record<string, SchemaMapField>): Record<string, any> {
+    const root: Record<string, any> = { type: "object", properties: {}, required: [] };
+
+    for (const [path, field] of Object.entries(schemaMap)) {
+        const keys = path.split(".");
+        let node = root;
+        keys.forEach((key, i) => {
+            const isLeaf = i === keys.length - 1;
+            if (field.required && !node.required.includes(key)) {
+                node.required.push(key);
+            }
+            if (isLeaf) {
+                node.properties[key] = { ...node.properties[key], ...FIELD_SCHEMAS[field.type] };
+            } else {
+                node = node.properties[key] ??= { type: "object", properties: {}, required: [] };
+            }
+        });
+    }
+
+    return root;
+}
+
+/**
+ * Map Ajv errors to data paths a caller recognises, e.g. "items[0].price"
+ */
+function toFieldErrors(errors: ErrorObject[]): DataFieldError[] {
+    const seen = new Set<string>();
+    const fields: DataFieldError[] = [];
+
+    for (const error of errors) {
+        // allOf/anyOf report the combined failure on top of the individual ones
+        if (error.keyword === "allOf" || error.keyword === "if") continue;
+
+        let path = error.instancePath.split("/").slice(1).map(unescapePointer);
+        let message = error.message || "is invalid";
+        if (error.keyword === "required") {
+            path = [...path, error.params.missingProperty];
+            message = "is required";
+        } else if (error.keyword === "additionalProperties") {
+            path = [...path, error.params.additionalProperty];
+            message = "is not allowed";
+        }
+
+        const field = formatPath(path);
+        const key = `${field}\u0000${message}`;
+        if (!seen.has(key)) {
+            seen.add(key);
+            fields.push({ field, message });
+        }
+    }
+
+    return fields;
+}
+
+function formatPath(path: string[]): string {
+    if (path.length === 0) return "(root)";
+    return path.reduce((result, key) => /^\d+$/.test(key) ? `${result}[${key}]` : result ? `${result}.${key}` : key, "");
+}
+
+function unescapePointer(segment: string): string {
+    return segment.replace(/~1/g, "/").replace(/~0/g, "~");
+}
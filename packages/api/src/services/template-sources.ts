@@ -0,0 +1,217 @@
+/**
+ * Template Sources - Credentials for authenticated template_url fetches
+ *
+ * A request can authenticate its template_url in two ways:
+ * - `template_auth`: a bearer token and/or headers sent with the request
+ * - `source`: a named source provisioned on the server, one directory per
+ *   tenant: `<TEMPLATE_SOURCES_DIR>/<tenantId>/<name>.json`, so clients
+ *   never hold the secret
+ *
+ * A source holds OAuth 2.0 client credentials (e.g. an Entra ID app for
+ * SharePoint/OneDrive), basic auth or a static bearer token, plus a
+ * `base_url` that every template URL using the source must start with.
+ * OAuth access tokens are cached per source until shortly before they expire.
+ */
+
+import { readFile } from "fs/promises";
+import { createHash } from "crypto";
+import path from "path";
+import { z } from "zod";
+import type { TemplateReference } from "./template-loader.ts";
+import { TemplateSourceError, TemplateSourceNotFoundError, UrlNotAllowedError } from "../errors.ts";
+
+const TEMPLATE_SOURCES_DIR = process.env.TEMPLATE_SOURCES_DIR || "./template-sources";
+
+const SOURCE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const TOKEN_TIMEOUT_MS = 30000;
+
+// Refresh OAuth tokens this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+const SourceAuthSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("oauth_client_credentials"),
+        token_url: z.string().url(),
+        client_id: z.string().min(1),
+        client_secret: z.string().min(1),
+        scope: z.string().optional(),
+    }),
+    z.object({
+        type: z.literal("basic"),
+        username: z.string(),
+        password: z.string(),
+    }),
+    z.object({
+        type: z.literal("bearer"),
+        token: z.string().min(1),
+    }),
+]);
+
+const TemplateSourceSchema = z.object({
+    base_url: z.string().url(),
+    auth: SourceAuthSchema.optional(),
+    headers: z.record(z.string()).optional(),
+});
+
+type TemplateSource = z.infer<typeof TemplateSourceSchema>;
+type OAuthSettings = Extract<z.infer<typeof SourceAuthSchema>, { type: "oauth_client_credentials" }>;
+
+/**
+ * Headers to authenticate a template_url fetch
+ */
+export interface TemplateCredentials {
+    headers: Record<string, string>;
+    /** Identifies the credentials, so cached templates are never shared across them */
+    scope: string;
+}
+
+export class TemplateSourceService {
+    private sourcesDir: string;
+    private tokens = new Map<string, Promise<{ token: string; expiresAt: number }>>();
+
+    constructor(sourcesDir?: string) {
+        this.sourcesDir = sourcesDir || TEMPLATE_SOURCES_DIR;
+    }
+
+    /**
+     * Credentials for a reference's template_url, from its `source` or `template_auth`
+     * @returns undefined for anonymous fetches
+     * @throws TemplateSourceNotFoundError - If the tenant has no such source
+     * @throws UrlNotAllowedError - If the URL is outside the source's base_url
+     */
+    async credentialsFor(ref: TemplateReference, tenantId: string): Promise<TemplateCredentials | undefined> {
+        if (ref.source) {
+            return this.authorize(tenantId, ref.source, ref.template_url!);
+        }
+        if (ref.template_auth) {
+            const headers = {
+                ...ref.template_auth.headers,
+                ...(ref.template_auth.bearer_token && { Authorization: `Bearer ${ref.template_auth.bearer_token}` }),
+            };
+            const digest = createHash("sha256").update(JSON.stringify(headers)).digest("hex");
+            return { headers, scope: `request:${digest}` };
+        }
+        return undefined;
+    }
+
+    /**
+     * Headers for fetching `url` through one of the tenant's sources
+     */
+    async authorize(tenantId: string, name: string, url: string): Promise<TemplateCredentials> {
+        const source = await this.loadSource(tenantId, name);
+        if (!isUnderBaseUrl(url, source.base_url)) {
+            throw new UrlNotAllowedError(url, `URL is outside the base_url of template source '${name}'`);
+        }
+
+        const headers: Record<string, string> = { ...source.headers };
+        const auth = source.auth;
+        if (auth?.type === "oauth_client_credentials") {
+            headers.Authorization = `Bearer ${await this.accessToken(`${tenantId}/${name}`, name, auth)}`;
+        } else if (auth?.type === "basic") {
+            headers.Authorization = `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString("base64")}`;
+        } else if (auth?.type === "bearer") {
+            headers.Authorization = `Bearer ${auth.token}`;
+        }
+
+        return { headers, scope: `source:${tenantId}/${name}` };
+    }
+
+    /**
+     * Read and validate a tenant's source file
+     */
+    private async loadSource(tenantId: string, name: string): Promise<TemplateSource> {
+        // Names are validated upstream too, but both end up in a filesystem path
+        if (!SOURCE_NAME_PATTERN.test(name) || path.basename(tenantId) !== tenantId || tenantId.startsWith(".")) {
+            throw new TemplateSourceNotFoundError(name);
+        }
+
+        let content: string;
+        try {
+            content = await readFile(path.join(this.sourcesDir, tenantId, `${name}.json`), "utf-8");
+        } catch (error: any) {
+            if (error.code === "ENOENT") {
+                throw new TemplateSourceNotFoundError(name);
+            }
+            throw new TemplateSourceError(name, `Failed to read template source: ${error.message}`);
+        }
+
+        let parsed: z.SafeParseReturnType<unknown, TemplateSource>;
+        try {
+            parsed = TemplateSourceSchema.safeParse(JSON.parse(content));
+        } catch (error) {
+            throw new TemplateSourceError(name, `Invalid template source ${name}.json: ${(error as Error).message}`);
+        }
+        if (!parsed.success) {
+            const issue = parsed.error.issues[0];
+            throw new TemplateSourceError(name, `Invalid template source ${name}.json: ${issue.path.join(".")} ${issue.message}`);
+        }
+        return parsed.data;
+    }
+
+    /**
+     * Cached OAuth access token, requested again shortly before it expires.
+     * Concurrent requests for the same source share one token request.
+     */
+    private async accessToken(key: string, name: string, auth: OAuthSettings): Promise<string> {
+        const cached = this.tokens.get(key);
+        if (cached) {
+            const { token, expiresAt } = await cached.catch(() => ({ token: "", expiresAt: 0 }));
+            if (expiresAt > Date.now()) {
+                return token;
+            }
+        }
+
+        const request = requestToken(name, auth);
+        this.tokens.set(key, request);
+        try {
+            return (await request).token;
+        } catch (error) {
+            this.tokens.delete(key);
+            throw error;
+        }
+    }
+}
+
+/**
+ * Same origin as the base URL, with a path under its path (compared parsed,
+ * so "https://contoso.com.evil.example" doesn't pass for "https://contoso.com")
+ */
+function isUnderBaseUrl(url: string, baseUrl: string): boolean {
+    const target = new URL(url);
+    const base = new URL(baseUrl);
+    return target.origin === base.origin && target.pathname.startsWith(base.pathname);
+}
+
+/**
+ * OAuth 2.0 client credentials grant (RFC 6749 section 4.4)
+ */
+async function requestToken(name: string, auth: OAuthSettings): Promise<{ token: string; expiresAt: number }> {
+    let response: Response;
+    try {
+        response = await fetch(auth.token_url, {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+            body: new URLSearchParams({
+                grant_type: "client_credentials",
+                client_id: auth.client_id,
+                client_secret: auth.client_secret,
+                ...(auth.scope && { scope: auth.scope }),
+            }),
+            signal: AbortSignal.timeout(TOKEN_TIMEOUT_MS),
+        });
+    } catch (error) {
+        throw new TemplateSourceError(name, `Token request failed: ${(error as Error).message}`);
+    }
+
+    const body = await response.json().catch(() => ({})) as { access_token?: string; expires_in?: number; error?: string };
+    if (!response.ok || !body.access_token) {
+        throw new TemplateSourceError(name,
+            `Token request failed: HTTP ${response.status}${body.error ? ` (${body.error})` : ""}`);
+    }
+
+    const lifetimeMs = (body.expires_in ?? 3600) * 1000;
+    return { token: body.access_token, expiresAt: Date.now() + lifetimeMs - TOKEN_EXPIRY_MARGIN_MS };
+}
+
+export const templateSourceService = new TemplateSourceService();
@@ -98,7 +98,7 @@ export async function extractFields(buffer: Buffer): Promise<string[]> {
 
 /**
  * Extract fields from XML content using regex patterns.
- * Handles docx-templates syntax: {{field}}, {{FOR x}}, {{IMAGE x}}, etc.
+ * Handles docx-templates syntax: {{field}}, {{FOR x}}, {{IMAGE x}}, {{IMAGE codes.qr(x)}}, etc.
  */
 function extractFieldsFromXml(xml: string, fields: Set<string>): void {
     // Remove XML tags to get just the text content
@@ -140,6 +140,18 @@ function extractFieldsFromXml(xml: string, fields: Set<string>): void {
         fields.add(match[1]);
     }
 
+    // Pattern for generated images: {{IMAGE codes.qr(fieldName, ...)}} or {{IMAGE codes.barcode(fieldName, ...)}}
+    const codeRegex = /\{\{IMAGE\s+codes\.(?:qr|barcode)\(\s*([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)/gi;
+    while ((match = codeRegex.exec(textContent)) !== null) {
+        fields.add(match[1]);
+    }
+
+    // Pattern for formatting helpers: {{fmt.currency(fieldName, 'EUR')}}, {{fmt.date(fieldName)}}, etc.
+    const formatRegex = /\{\{\s*fmt\.(?:currency|number|percent|date|time|datetime|plural|words)\(\s*([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)/g;
+    while ((match = formatRegex.exec(textContent)) !== null) {
+        fields.add(match[1]);
+    }
+
     // Pattern for IF conditionals: {{IF condition}}
     const ifRegex = /\{\{IF\s+([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)/gi;
     while ((match = ifRegex.exec(textContent)) !== null) {
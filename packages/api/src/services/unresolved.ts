@@ -0,0 +1,66 @@
+/**
+ * Unresolved placeholders - what a render couldn't fill from the data
+ *
+ * Both template engines report placeholders with no value in the data and
+ * expressions that threw. By default these are warnings that travel with
+ * the document; in strict mode they fail the render with every problem
+ * listed at once.
+ */
+
+import { UnresolvedPlaceholdersError } from "../errors.ts";
+
+/**
+ * Where a placeholder sits in the template: a Word part and paragraph,
+ * or the line and column of the field in an HTML template (all 1-based)
+ */
+export interface PlaceholderLocation {
+    part?: string;
+    paragraph?: number;
+    line?: number;
+    column?: number;
+}
+
+export interface UnresolvedPlaceholder {
+    /** Field path or expression, as written in the template */
+    placeholder: string;
+    /** `missing`: no value in the data; `error`: evaluating the expression threw */
+    reason: "missing" | "error";
+    message: string;
+    location?: PlaceholderLocation;
+}
+
+export interface RenderOptions {
+    /** Fail on the first render with any unresolved placeholder */
+    strict?: boolean;
+    /** Receives the unresolved placeholders of a non-strict render */
+    unresolved?: UnresolvedPlaceholder[];
+}
+
+/**
+ * Collects unresolved placeholders during one render. A placeholder inside
+ * a loop is reported once, not once per iteration.
+ */
+export class UnresolvedCollector {
+    private entries = new Map<string, UnresolvedPlaceholder>();
+
+    add(entry: UnresolvedPlaceholder): void {
+        const key = `${entry.placeholder}\u0000${JSON.stringify(entry.location ?? null)}`;
+        if (!this.entries.has(key)) {
+            this.entries.set(key, entry);
+        }
+    }
+
+    /**
+     * End of the render: throw in strict mode, otherwise hand the warnings to the caller
+     * @throws UnresolvedPlaceholdersError
+     */
+    finish(options: RenderOptions): void {
+        const unresolved = [...this.entries.values()];
+        if (unresolved.length === 0) return;
+
+        if (options.strict) {
+            throw new UnresolvedPlaceholdersError(unresolved);
+        }
+        options.unresolved?.push(...unresolved);
+    }
+}
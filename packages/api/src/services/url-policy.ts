@@ -0,0 +1,245 @@
+/**
+ * URL Policy - Which remote URLs the server may fetch
+ *
+ * Guards template_url (and any other server-side fetch of a client-supplied
+ * URL) against SSRF:
+ * - Only allowed schemes (http/https by default)
+ * - Host allowlist and denylist (exact names or "*.example.com")
+ * - Hosts are resolved first, and loopback, private, link-local (cloud
+ *   metadata) and other non-public addresses are refused, unless the host
+ *   is explicitly listed as a private host (e.g. an on-premises SharePoint)
+ * - Redirects are followed by hand, checking every hop, up to a limit
+ *
+ * The address is checked before connecting, not pinned for the connection,
+ * so a DNS server that answers differently moments later isn't covered.
+ *
+ * HTML is rendered by Gotenberg's Chromium, which fetches the page's images,
+ * frames and stylesheets itself. `chromiumUrlLists()` turns the policy into
+ * the regular expressions Gotenberg takes for that (--chromium-allow-list,
+ * --chromium-deny-list).
+ */
+
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { RemoteFetchError, UrlNotAllowedError } from "../errors.ts";
+
+export interface UrlPolicyOptions {
+    /** Allowed URL schemes, without the colon */
+    schemes: string[];
+    /** If non-empty, only these hosts may be fetched */
+    allowedHosts: string[];
+    /** Hosts that may never be fetched; wins over allowedHosts */
+    deniedHosts: string[];
+    /** Hosts that may resolve to private addresses */
+    privateHosts: string[];
+    maxRedirects: number;
+    /** Resolves a hostname to its addresses (defaults to the system resolver) */
+    resolve?: (hostname: string) => Promise<string[]>;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Non-public IPv4 ranges: [network, prefix length]
+const BLOCKED_IPV4: Array<[string, number]> = [
+    ["0.0.0.0", 8],         // "this" network
+    ["10.0.0.0", 8],        // private
+    ["100.64.0.0", 10],     // carrier-grade NAT
+    ["127.0.0.0", 8],       // loopback
+    ["169.254.0.0", 16],    // link-local, cloud metadata
+    ["172.16.0.0", 12],     // private
+    ["192.0.0.0", 24],      // IETF protocol assignments
+    ["192.168.0.0", 16],    // private
+    ["198.18.0.0", 15],     // benchmarking
+    ["224.0.0.0", 4],       // multicast
+    ["240.0.0.0", 4],       // reserved, broadcast
+];
+
+// Host part of a URL for Chromium: optional userinfo, then the host up to port, path, query or fragment
+const URL_HOST_PREFIX = String.raw`(?:https?|wss?|ftp)://(?:[^/?#@]*@)?`;
+const URL_HOST_END = String.raw`(?![^:/?#])`;
+
+// Hosts Chromium may not load from by address or name: Chromium sees URLs, not resolved addresses
+const CHROMIUM_BLOCKED_HOSTS = [
+    String.raw`\[`,                                                  // IPv6 literals
+    String.raw`[^./:?#@]+`,                                         // single-label names (Docker services) and decimal IPs
+    String.raw`[^/:?#@]*\.(?:localhost|local|internal)`,
+    String.raw`(?:0|10|127)(?:\.\d+){3}`,
+    String.raw`100\.(?:6[4-9]|[7-9]\d|1[01]\d|12[0-7])(?:\.\d+){2}`,
+    String.raw`169\.254(?:\.\d+){2}`,
+    String.raw`172\.(?:1[6-9]|2\d|3[01])(?:\.\d+){2}`,
+    String.raw`192\.168(?:\.\d+){2}`,
+    String.raw`(?:22[4-9]|2[3-5]\d)(?:\.\d+){3}`,
+];
+
+export class UrlPolicy {
+    constructor(private options: UrlPolicyOptions) {}
+
+    /**
+     * Check a URL before fetching it: scheme, host lists and resolved addresses
+     * @throws UrlNotAllowedError - If the policy refuses the URL
+     * @throws RemoteFetchError - If the host doesn't resolve
+     */
+    async check(url: string): Promise<URL> {
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch {
+            throw new UrlNotAllowedError(url, "Invalid URL");
+        }
+
+        const scheme = parsed.protocol.replace(/:$/, "");
+        if (!this.options.schemes.includes(scheme)) {
+            throw new UrlNotAllowedError(url, `Scheme '${scheme}' is not allowed`);
+        }
+
+        // IPv6 literals keep their brackets in URL.hostname
+        const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+        if (matchesHost(host, this.options.deniedHosts)) {
+            throw new UrlNotAllowedError(url, `Host '${host}' is denied`);
+        }
+        if (this.options.allowedHosts.length > 0 && !matchesHost(host, this.options.allowedHosts)) {
+            throw new UrlNotAllowedError(url, `Host '${host}' is not in the allowlist`);
+        }
+        if (matchesHost(host, this.options.privateHosts)) {
+            return parsed;
+        }
+
+        const addresses = await this.resolve(host, url);
+        const blocked = addresses.find(isNonPublicAddress);
+        if (blocked) {
+            throw new UrlNotAllowedError(url, `Host '${host}' resolves to non-public address ${blocked}`);
+        }
+        return parsed;
+    }
+
+    /**
+     * fetch() with every hop checked against the policy. Redirects are
+     * followed up to the configured limit; the final response is returned.
+     * @param credentials - Auth headers, only sent while on the URL's own origin
+     * @throws UrlNotAllowedError - If the URL or a redirect target is refused
+     */
+    async fetch(url: string, init: RequestInit = {}, credentials: Record<string, string> = {}): Promise<Response> {
+        let current = await this.check(url);
+        const origin = current.origin;
+
+        for (let redirects = 0; ; redirects++) {
+            const headers = new Headers(init.headers);
+            if (current.origin === origin) {
+                Object.entries(credentials).forEach(([name, value]) => headers.set(name, value));
+            }
+            const response = await fetch(current, { ...init, headers, redirect: "manual" });
+
+            const location = response.headers.get("location");
+            if (!REDIRECT_STATUSES.has(response.status) || !location) {
+                return response;
+            }
+            if (redirects >= this.options.maxRedirects) {
+                throw new UrlNotAllowedError(url, `More than ${this.options.maxRedirects} redirects`);
+            }
+            // Only the redirect target matters; release the body of the hop
+            await response.body?.cancel();
+            current = await this.check(new URL(location, current).toString());
+        }
+    }
+
+    /**
+     * Gotenberg's Chromium URL filters for this policy. The deny list refuses
+     * files outside Gotenberg's working directory, denied hosts, and
+     * loopback, private, link-local and internal hosts written as addresses
+     * or single-label names. The allow list is empty (anything not denied)
+     * unless there is a host allowlist; then it admits only those hosts, and
+     * the page's own files and data URIs.
+     */
+    chromiumUrlLists(): { allowList: string; denyList: string } {
+        const denied = [...CHROMIUM_BLOCKED_HOSTS, ...this.options.deniedHosts.map(hostPattern)];
+        const denyList = String.raw`^(?:file:(?!///tmp/)|${URL_HOST_PREFIX}(?:${denied.join("|")})${URL_HOST_END})`;
+        if (this.options.allowedHosts.length === 0) {
+            return { allowList: "", denyList };
+        }
+
+        const schemes = this.options.schemes.map(escapeRegExp).join("|");
+        const allowed = this.options.allowedHosts.map(hostPattern).join("|");
+        const allowList = String.raw`^(?:file:///tmp/|data:|(?:${schemes})://(?:[^/?#@]*@)?(?:${allowed})${URL_HOST_END})`;
+        return { allowList, denyList };
+    }
+
+    private async resolve(host: string, url: string): Promise<string[]> {
+        if (isIP(host)) {
+            return [host];
+        }
+        try {
+            return this.options.resolve
+                ? await this.options.resolve(host)
+                : (await lookup(host, { all: true })).map(entry => entry.address);
+        } catch (error) {
+            throw new RemoteFetchError(url, `Could not resolve host '${host}': ${(error as Error).message}`);
+        }
+    }
+}
+
+/**
+ * Exact host names, or "*.example.com" for any subdomain of example.com
+ */
+function matchesHost(host: string, patterns: string[]): boolean {
+    return patterns.some(pattern => pattern.startsWith("*.")
+        ? host.endsWith(pattern.slice(1))
+        : host === pattern);
+}
+
+/**
+ * Regular expression for a host list entry, as matchesHost() reads it
+ */
+function hostPattern(pattern: string): string {
+    return pattern.startsWith("*.")
+        ? String.raw`[^/:?#@]+` + escapeRegExp(pattern.slice(1))
+        : escapeRegExp(pattern);
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whether an address is loopback, private, link-local, multicast or otherwise not on the public internet
+ */
+export function isNonPublicAddress(address: string): boolean {
+    if (isIP(address) === 4) {
+        const value = ipv4ToNumber(address);
+        return BLOCKED_IPV4.some(([network, prefix]) => {
+            const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+            return ((value & mask) >>> 0) === ipv4ToNumber(network);
+        });
+    }
+
+    const ip = address.toLowerCase();
+    // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach IPv4 hosts
+    const embedded = ip.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+    if (embedded) {
+        return isNonPublicAddress(embedded[1]);
+    }
+    const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+        const value = (parseInt(mappedHex[1], 16) << 16 | parseInt(mappedHex[2], 16)) >>> 0;
+        return isNonPublicAddress([24, 16, 8, 0].map(shift => (value >>> shift) & 255).join("."));
+    }
+
+    return ip === "::" || ip === "::1"
+        || /^f[cd]/.test(ip)            // unique local fc00::/7
+        || /^fe[89ab]/.test(ip)         // link-local fe80::/10
+        || ip.startsWith("ff");         // multicast
+}
+
+function ipv4ToNumber(address: string): number {
+    return address.split(".").reduce((value, octet) => (value << 8 | parseInt(octet, 10)) >>> 0, 0);
+}
+
+const listFromEnv = (value: string | undefined) =>
+    (value || "").split(",").map(entry => entry.trim().toLowerCase()).filter(Boolean);
+
+export const urlPolicy = new UrlPolicy({
+    schemes: listFromEnv(process.env.TEMPLATE_URL_ALLOWED_SCHEMES || "https,http"),
+    allowedHosts: listFromEnv(process.env.TEMPLATE_URL_ALLOWED_HOSTS),
+    deniedHosts: listFromEnv(process.env.TEMPLATE_URL_DENIED_HOSTS),
+    privateHosts: listFromEnv(process.env.TEMPLATE_URL_PRIVATE_HOSTS),
+    maxRedirects: parseInt(process.env.TEMPLATE_URL_MAX_REDIRECTS || "5", 10),
+});
@@ -0,0 +1,137 @@
+/**
+ * WebTemplateService - HTML/CSS template rendering using Handlebars
+ *
+ * Renders "web" engine templates (HTML files with {{placeholders}}) to a
+ * complete HTML document, ready for Gotenberg's Chromium engine.
+ * Placeholders with no value are collected with their line and column
+ * (see unresolved.ts) instead of silently rendering as empty text.
+ */
+
+import Handlebars from "handlebars";
+import { readFile } from "fs/promises";
+import { resolve, dirname, extname } from "path";
+import { fileURLToPath } from "url";
+import { TemplateRenderError, TemplateSyntaxError } from "../errors.ts";
+import { UnresolvedCollector, RenderOptions, PlaceholderLocation } from "./unresolved.ts";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const WEB_TEMPLATE_EXTENSIONS = [".html", ".htm"];
+
+// @data key the compiled templates report unresolved lookups through
+const REPORT_KEY = "__unresolved";
+
+/**
+ * Compiler that wraps each `{{path}}` lookup (the lookups Handlebars' own
+ * strict mode checks: not helper arguments such as `{{#if notes}}`) in a
+ * call to the reporter passed as @data, with the placeholder's location.
+ * Subclassing JavaScriptCompiler is Handlebars' extension point for this.
+ */
+const BaseCompiler = (Handlebars as any).JavaScriptCompiler;
+
+function ReportingCompiler() {}
+ReportingCompiler.prototype = Object.create(BaseCompiler.prototype);
+ReportingCompiler.prototype.compiler = ReportingCompiler;
+ReportingCompiler.prototype.lookupOnContext = function (parts: string[], falsy: boolean, strict: boolean, scoped: boolean) {
+    BaseCompiler.prototype.lookupOnContext.call(this, parts, falsy, strict, scoped);
+    if (!strict) return;
+
+    const value = this.popStack();
+    const start = this.source.currentLocation?.start;
+    const location = JSON.stringify(start ? { line: start.line, column: start.column + 1 } : null);
+    this.push([
+        `(data && data.${REPORT_KEY} ? data.${REPORT_KEY}(`, value, ", ", this.quotedString(parts.join(".")), ", ", location, ") : ", value, ")",
+    ]);
+};
+
+/**
+ * Check whether a template filename belongs to the web (HTML/CSS) engine
+ */
+export function isWebTemplate(filename: string): boolean {
+    return WEB_TEMPLATE_EXTENSIONS.includes(extname(filename).toLowerCase());
+}
+
+export class WebTemplateService {
+    private templatesDir: string;
+    private handlebars: typeof Handlebars;
+
+    constructor(templatesDir?: string) {
+        this.templatesDir = templatesDir || resolve(__dirname, "../../templates");
+
+        // Isolated environment so helpers registered here don't leak globally
+        this.handlebars = Handlebars.create();
+        (this.handlebars as any).JavaScriptCompiler = ReportingCompiler;
+    }
+
+    /**
+     * Render a stored HTML template with the provided data
+     * @param templatePath - Path to the template file (relative to templates dir or absolute)
+     * @param data - JSON data to inject into the template
+     * @param options - Strict mode, or where to collect unresolved placeholders
+     * @returns Promise<string> - The rendered HTML document
+     */
+    async render(templatePath: string, data: Record<string, any>, options: RenderOptions = {}): Promise<string> {
+        const fullPath = templatePath.startsWith("/") || templatePath.includes(":")
+            ? templatePath
+            : resolve(this.templatesDir, templatePath);
+
+        const source = await readFile(fullPath, "utf-8");
+        return this.renderFromString(source, data, options);
+    }
+
+    /**
+     * Render from template source directly (useful when template is uploaded)
+     * @param source - The HTML template source
+     * @param data - JSON data to inject
+     * @param options - Strict mode, or where to collect unresolved placeholders
+     * @returns string - The rendered HTML document
+     * @throws UnresolvedPlaceholdersError - In strict mode, listing every unresolved placeholder
+     */
+    renderFromString(source: string, data: Record<string, any>, options: RenderOptions = {}): string {
+        const collector = new UnresolvedCollector();
+        const report = (value: unknown, placeholder: string, location: PlaceholderLocation | null) => {
+            if (value === undefined) {
+                collector.add({ placeholder, reason: "missing", message: `No value for '${placeholder}'`, location: location ?? undefined });
+            }
+            return value;
+        };
+
+        let html: string;
+        try {
+            const template = this.handlebars.compile(source);
+            html = template(data, { data: { [REPORT_KEY]: report } });
+        } catch (error) {
+            throw toTemplateError(error);
+        }
+
+        collector.finish(options);
+        return html;
+    }
+}
+
+/**
+ * Classify Handlebars exceptions: parse/block errors are syntax errors,
+ * everything else (missing helpers or partials) happened while rendering
+ */
+function toTemplateError(error: unknown): Error {
+    if (!(error instanceof Error)) {
+        return new TemplateRenderError(String(error));
+    }
+
+    const { lineNumber } = error as { lineNumber?: number };
+    const context = lineNumber !== undefined ? { line: lineNumber } : {};
+
+    if (/^Parse error|doesn't match/.test(error.message)) {
+        return new TemplateSyntaxError(error.message, context);
+    }
+
+    const helper = error.message.match(/^Missing helper: "(.+)"/);
+    return new TemplateRenderError(error.message, {
+        ...context,
+        ...(helper && { placeholder: helper[1] }),
+    });
+}
+
+// Export singleton for convenience
+export const webTemplateService = new WebTemplateService();
@@ -8,6 +8,14 @@
 import { readdir, readFile, writeFile, unlink, stat, mkdir } from 'fs/promises';
 import { join, basename, extname } from 'path';
 import { Template, TemplateStorage } from './types';
+import { StorageError, TemplateNotFoundError } from '../errors';
+
+// Template file extensions and the engine that renders them
+const ENGINE_BY_EXTENSION: Record<string, Template['engine']> = {
+    '.docx': 'word',
+    '.html': 'web',
+    '.htm': 'web',
+};
 
 export class LocalFileStorage implements TemplateStorage {
     private baseDir: string;
@@ -34,14 +42,15 @@ export class LocalFileStorage implements TemplateStorage {
             const templates: Template[] = [];
 
             for (const file of files) {
-                if (extname(file) === '.docx') {
+                const engine = ENGINE_BY_EXTENSION[extname(file).toLowerCase()];
+                if (engine) {
                     const filePath = join(dir, file);
                     const stats = await stat(filePath);
 
                     templates.push({
                         id: file,
-                        name: basename(file, '.docx'),
-                        engine: 'word',
+                        name: basename(file, extname(file)),
+                        engine,
                         source: file,
                         createdAt: stats.birthtime,
                         updatedAt: stats.mtime,
@@ -54,13 +63,17 @@ export class LocalFileStorage implements TemplateStorage {
             if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
                 return [];
             }
-            throw error;
+            throw new StorageError(`Failed to list templates: ${(error as Error).message}`);
         }
     }
 
     async get(orgId: string, templateId: string): Promise<Buffer> {
         const filePath = join(this.getOrgDir(orgId), templateId);
-        return readFile(filePath);
+        try {
+            return await readFile(filePath);
+        } catch (error) {
+            throw notFoundOr(error, templateId);
+        }
     }
 
     async put(orgId: string, templateId: string, file: Buffer, metadata?: Partial<Template>): Promise<Template> {
@@ -76,8 +89,8 @@ export class LocalFileStorage implements TemplateStorage {
 
         return {
             id: templateId,
-            name: metadata?.name || basename(templateId, '.docx'),
-            engine: metadata?.engine || 'word',
+            name: metadata?.name || basename(templateId, extname(templateId)),
+            engine: metadata?.engine || ENGINE_BY_EXTENSION[extname(templateId).toLowerCase()] || 'word',
             source: templateId,
             createdAt: stats.birthtime,
             updatedAt: stats.mtime,
@@ -86,7 +99,11 @@ export class LocalFileStorage implements TemplateStorage {
 
     async delete(orgId: string, templateId: string): Promise<void> {
         const filePath = join(this.getOrgDir(orgId), templateId);
-        await unlink(filePath);
+        try {
+            await unlink(filePath);
+        } catch (error) {
+            throw notFoundOr(error, templateId);
+        }
     }
 
     async exists(orgId: string, templateId: string): Promise<boolean> {
@@ -99,3 +116,13 @@ export class LocalFileStorage implements TemplateStorage {
         }
     }
 }
+
+/**
+ * Map a file system error to TemplateNotFoundError (missing file) or StorageError
+ */
+function notFoundOr(error: unknown, templateId: string): Error {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new TemplateNotFoundError(templateId);
+    }
+    return new StorageError((error as Error).message);
+}
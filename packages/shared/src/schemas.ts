@@ -7,6 +7,77 @@ export interface InlineTemplate {
     filename: string; // Original filename for content-type detection
 }
 
+/**
+ * Watermark drawn across every page of the output
+ */
+export interface WatermarkOptions {
+    text: string;       // e.g. "DRAFT", "COPY"
+    opacity: number;    // 0 (invisible) to 1 (solid)
+    rotation: number;   // Degrees, counter-clockwise
+    font_size: number;  // Points
+    color: string;      // Hex colour, e.g. "#808080"
+}
+
+/**
+ * Archival / accessibility standards for PDF output
+ */
+export type PdfStandard = "PDF/A-2b" | "PDF/A-3b" | "PDF/UA";
+
+/**
+ * Password protection for PDF output (AES-256)
+ */
+export interface PdfProtection {
+    user_password?: string;    // Required to open the document
+    owner_password?: string;   // Lifts the restrictions (random if omitted)
+    permissions?: {
+        printing?: boolean;    // Default true
+        copying?: boolean;     // Default true
+        editing?: boolean;     // Default true
+    };
+}
+
+/**
+ * Digital signature for PDF output, using a certificate configured on the server
+ */
+export interface SignOptions {
+    certificate: string;       // Certificate name within the tenant's directory
+    reason?: string;
+    location?: string;
+    contact_info?: string;
+    name?: string;             // Signer name (default: certificate common name)
+    field?: {                  // Visible signature box in points; invisible if omitted
+        page?: number;         // 1-based (default: last page)
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+    };
+}
+
+/**
+ * A placeholder the data couldn't fill, reported in X-Template-Warnings
+ * or (in strict mode) in the 422 error body
+ */
+export interface UnresolvedPlaceholder {
+    placeholder: string;           // Field path or expression, as written in the template
+    reason: "missing" | "error";   // No value in the data / the expression failed
+    message: string;
+    location?: {                   // Word part and paragraph, or HTML line and column (1-based)
+        part?: string;
+        paragraph?: number;
+        line?: number;
+        column?: number;
+    };
+}
+
+/**
+ * Per-request credentials for template_url
+ */
+export interface TemplateAuth {
+    bearer_token?: string;               // Sent as Authorization: Bearer <token>
+    headers?: Record<string, string>;    // Additional request headers
+}
+
 /**
  * Universal payload for document generation
  * Supports three modes (provide exactly one):
@@ -18,12 +89,22 @@ export interface UniversalPayload {
     template_id?: string;          // Reference to server-stored template
     template?: InlineTemplate;     // Inline template content (BYOT)
     template_url?: string;         // URL to fetch template from (SharePoint, OneDrive, S3, etc.)
-    output_format: "pdf" | "docx" | "html";
+    source?: string;               // Named server-side credentials for template_url
+    template_auth?: TemplateAuth;  // Per-request credentials for template_url
+    output_format: "pdf" | "docx" | "html" | "png";
     data: Record<string, any>;     // The user's JSON data
     options?: {
         header_text?: string;
-        watermark?: boolean;
+        watermark?: boolean | Partial<WatermarkOptions>;  // true = default "DRAFT" watermark
         metadata?: Record<string, string>;
+        pages?: string;            // png only: page range, e.g. "1-3,5" (default "1")
+        dpi?: number;              // png only: resolution (default 96)
+        pdf_standard?: PdfStandard | PdfStandard[];  // e.g. "PDF/A-3b" or ["PDF/A-2b", "PDF/UA"]
+        protection?: PdfProtection;
+        sign?: SignOptions;
+        strict?: boolean;          // Fail with 422 on unresolved placeholders instead of warning
+        locale?: string;           // Formatting helpers' locale, e.g. "de-DE"
+        timezone?: string;         // Date/time helpers' timezone, e.g. "Europe/Berlin"
     };
 }
 
@@ -45,14 +126,22 @@ export interface ValidateTemplateResponse {
     warnings?: string[];        // Non-fatal warnings
 }
 
+/**
+ * Expected type of one data field; keys are field paths such as "customer.logo"
+ */
+export interface SchemaMapField {
+    type: "image" | "text" | "table" | "markdown" | "html";  // markdown/html strings render as formatted Word content
+    required?: boolean;         // Reject data without this field (default false)
+    width?: number;             // Image size in cm; with only one, the other follows the aspect ratio
+    height?: number;
+    fit?: "contain" | "cover" | "max-width";  // How an image fills width × height (default contain)
+}
+
 export interface TemplateDefinition {
     id: string;
     name: string;
-    engine: "word" | "html";
+    engine: "word" | "web";     // word: DOCX via LibreOffice, web: HTML/CSS via Chromium
     source: string;
-    schema_map?: Record<string, {
-        type: "image" | "text" | "table";
-        width?: number;
-        height?: number;
-    }>;
+    schema_map?: Record<string, SchemaMapField>;
+    json_schema?: Record<string, any>;  // JSON Schema (draft-07) the request data must match
 }